@@ -1,8 +1,27 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { AspectRatio, GeneratedImage, GenerationSettings } from './types';
-import { generateImage } from './services/geminiService';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { AspectRatio, AudioAnalysis, ChatMessage, Conversation, GalleryCollection, GeneratedImage, GenerationJob, GenerationSettings, ImageReference, MessageAttachment, PromptModifiers, PromptPreset, SpeechClip, SpeechSettings, SpeechSource, ToolCall } from './types';
+import { currentImageModel, currentImageModels, currentSpeechModel, generateImage, editImage, streamAssistantMessage, summarizeConversation, analyzeAudio, synthesizeSpeech, describeImage, transcribeVoicePrompt, expandPrompt } from './services/geminiService';
+import { queryImages, matchesQuery, updateImages, listTags, listCollections, saveCollection, deleteCollection, GalleryQuery, ImageLabels, saveImage, deleteImages, getVersionFamily, evictImages, getStorageUsage, migrateLegacyHistory, requestPersistentStorage, readImageData, toDataUrl, saveSpeechClip, listSpeechClips, deleteSpeechClip, saveRecording, getRecording, deleteUnusedRecording, saveReference, getReference, readBlobData, EvictionOptions, StorageUsage } from './services/galleryStore';
+import { createGenerationQueue, groupByBatch, isTerminal } from './services/generationQueue';
+import { DEFAULT_ENHANCEMENT, EnhancementResult, EnhancementSettings, enhanceAudio } from './services/audioEnhancer';
+import { AudioClip, MAX_AUDIO_SECONDS, TrimRange, analysisPayload, checkAudioFile, checkSelection, formatDuration, isWholeClip, loadAudioClip, selectionBlob, trimBuffer } from './services/audioClip';
+import { DEFAULT_TITLE, GREETING, createConversation, listConversations, saveConversation, deleteConversation, sortConversations, titleFromMessage } from './services/conversationStore';
+import { SummaryState, prepareContext } from './services/chatContext';
+import { downloadImage, downloadUrl } from './services/download';
+import { exportArchive, importArchive } from './services/galleryArchive';
+import { ImageMetadata, readMetadata } from './services/imageMetadata';
+import { compilePrompt, hasModifiers, sameModifiers } from './services/promptComposer';
+import { fitSettings, loadSettings, resolveSettings, saveSettings, validateSettings } from './services/generationSettings';
+import { CanvasEdit, describeEdit, outputAspectRatio } from './services/canvasEdit';
+import { imageFilesOf, prepareUploads } from './services/imageUpload';
+import { PanelRequest, PanelReference } from './services/storyboard';
+import { Tab, currentRoute, navigate, shareUrl, subscribeRoute, tabOf } from './services/router';
+import { ASSISTANT_TOOLS, GENERATION_TOOLS, executeToolCall } from './services/assistantTools';
+import { ChatTurn, ContentPart, ProviderId, ReferenceInput, PROVIDER_IDS, describeModelError, getProvider, getActiveProviderId, setActiveProvider, restoreProvider } from './services/providers';
+import { AuthError, AuthSession, AuthUser, authService } from './services/authService';
+import { scopedKey, setScopeUser } from './services/userScope';
+import { UsageQuota, UsageSummary, usageService } from './services/usageService';
 import { 
   SparklesIcon, 
   ImageIcon, 
@@ -13,21 +32,44 @@ import {
   UserIcon, 
   LogOutIcon,
   XIcon,
-  PaperclipIcon,
   BrainIcon,
   MicIcon,
   MusicIcon,
-  DownloadIcon
+  DownloadIcon,
+  StopIcon,
+  RefreshIcon,
+  PencilIcon,
+  CheckIcon,
+  ChartIcon,
+  SpeakerIcon,
+  ClapperboardIcon
 } from './components/Icons';
 import ImageCard from './components/ImageCard';
-
-const SUGGESTIONS = [
-  "Cyberpunk cityscape at night with neon lights and flying cars",
-  "A majestic dragon made of iridescent glass breathing frost",
-  "Minimalist architectural house in a desert under a pink sky",
-  "A tiny hamster wearing a knight's armor and holding a strawberry sword",
-  "Retro-futuristic posters of space travel to Mars, 1960s style"
-];
+import StoragePanel, { formatBytes } from './components/StoragePanel';
+import QueuePanel from './components/QueuePanel';
+import EditImageModal from './components/EditImageModal';
+import CanvasEditor from './components/CanvasEditor';
+import EnhancementControls from './components/EnhancementControls';
+import SpectrogramView from './components/SpectrogramView';
+import TranscriptView from './components/TranscriptView';
+import ConversationSidebar from './components/ConversationSidebar';
+import ToolCallCard from './components/ToolCallCard';
+import PromptComposer from './components/PromptComposer';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
+import ReferenceTray, { LabReference } from './components/ReferenceTray';
+import ImageUploadButton from './components/ImageUploadButton';
+import GalleryToolbar from './components/GalleryToolbar';
+import SelectionBar from './components/SelectionBar';
+import DroppedImagePanel from './components/DroppedImagePanel';
+import UsagePanel from './components/UsagePanel';
+import AudioRecorderPanel from './components/AudioRecorderPanel';
+import WaveformTrimmer from './components/WaveformTrimmer';
+import VoiceStudio, { VoiceDraft } from './components/VoiceStudio';
+import StoryboardStudio from './components/StoryboardStudio';
+import ImageDetail from './components/ImageDetail';
+import CopyLinkButton from './components/CopyLinkButton';
+import PushToTalkButton from './components/PushToTalkButton';
+import VoicePromptReview from './components/VoicePromptReview';
 
 const ASPECT_RATIOS: { label: string; value: AspectRatio }[] = [
   { label: "1:1 Square", value: "1:1" },
@@ -37,220 +79,1549 @@ const ASPECT_RATIOS: { label: string; value: AspectRatio }[] = [
   { label: "9:16 Story", value: "9:16" }
 ];
 
-const STORAGE_KEY = 'flipart_history';
-const USER_KEY = 'flipart_user';
+const PAGE_SIZE = 24;
+const MAX_VARIATIONS = 4;
+const MAX_REFERENCES = 3;
+const MAX_CHAT_ATTACHMENTS = 4;
+const CONFIRM_TOOLS_KEY = 'flipart_confirm_tools';
+const EXPAND_VOICE_KEY = 'flipart_expand_voice';
+/** Tool call/response cycles allowed in one assistant turn. */
+const MAX_TOOL_ROUNDS = 4;
+const SESSION_CHECK_MS = 30_000;
 
-interface ChatMessage {
-  role: 'user' | 'model';
-  text: string;
-  image?: string; 
-}
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readConfirmTools = () => {
+  const key = scopedKey(CONFIRM_TOOLS_KEY);
+  return !key || localStorage.getItem(key) !== 'off';
+};
+
+const readExpandVoice = () => {
+  const key = scopedKey(EXPAND_VOICE_KEY);
+  return Boolean(key && localStorage.getItem(key) === 'on');
+};
 
-interface UserProfile {
-  name: string;
-  email: string;
+/** A push-to-talk take in the Lab, from recording to reviewed prompt. */
+interface SpokenPrompt {
+  id: string;
+  file: File;
+  url: string;
+  duration: number;
+  transcript: string | null;
+  text: string;
+  expanded: boolean;
+  busy: 'transcribing' | 'expanding' | null;
+  error?: string;
 }
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'generator' | 'assistant' | 'audio'>('generator');
+  // The URL is the source of truth for navigation, so back/forward and reloads land where the user was
+  const route = useSyncExternalStore(subscribeRoute, currentRoute);
+  const activeTab = tabOf(route);
   const [prompt, setPrompt] = useState('');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [settings, setSettings] = useState<GenerationSettings>({ aspectRatio: '1:1' });
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchPrompts, setBatchPrompts] = useState('');
+  const [variations, setVariations] = useState(1);
+  const [composerOpen, setComposerOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [modifiers, setModifiers] = useState<PromptModifiers>({});
+  const [activePreset, setActivePreset] = useState<PromptPreset | null>(null);
+  const [settings, setSettings] = useState<GenerationSettings>(() => loadSettings(currentImageModels()));
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [droppedImage, setDroppedImage] = useState<{ file: File; url: string; metadata: ImageMetadata } | null>(null);
+  const [references, setReferences] = useState<LabReference[]>([]);
+  const [spokenPrompt, setSpokenPrompt] = useState<SpokenPrompt | null>(null);
+  const [expandVoice, setExpandVoice] = useState(readExpandVoice);
+  // Mirrors the take in progress, so late transcriptions of a discarded take are ignored
+  const spokenPromptIdRef = useRef<string | null>(null);
+  // Storyboard reference sources already kept in the gallery store, by PanelReference key
+  const panelReferenceIdsRef = useRef(new Map<string, string>());
   const [history, setHistory] = useState<GeneratedImage[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [galleryTotal, setGalleryTotal] = useState(0);
+  const [galleryReady, setGalleryReady] = useState(false);
+  const [galleryQuery, setGalleryQuery] = useState<GalleryQuery>({ sort: 'newest' });
+  const [tags, setTags] = useState<string[]>([]);
+  const [collections, setCollections] = useState<GalleryCollection[]>([]);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const galleryRequestRef = useRef(0);
+  const [archiveBusy, setArchiveBusy] = useState<'export' | 'import' | null>(null);
+  const [galleryNotice, setGalleryNotice] = useState<string | null>(null);
+  // Settings from a shared link apply to this visit only until the user keeps them
+  const [usingSharedSettings, setUsingSharedSettings] = useState(false);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [showStorage, setShowStorage] = useState(false);
+  const [editTarget, setEditTarget] = useState<GeneratedImage | null>(null);
+  const [canvasTarget, setCanvasTarget] = useState<GeneratedImage | null>(null);
+  const [editVersions, setEditVersions] = useState<GeneratedImage[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<ProviderId>(getActiveProviderId());
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [usageLoading, setUsageLoading] = useState(false);
+  const [usageError, setUsageError] = useState<string | null>(null);
 
   // Auth State
-  const [user, setUser] = useState<UserProfile | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
   const [authData, setAuthData] = useState({ name: '', email: '', password: '' });
+  const [authBusy, setAuthBusy] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [authFieldErrors, setAuthFieldErrors] = useState<Record<string, string>>({});
 
   // Assistant State
   const [chatInput, setChatInput] = useState('');
-  const [attachedImage, setAttachedImage] = useState<GeneratedImage | null>(null);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
-    { role: 'model', text: 'Hello! I am your FlipArt AI Assistant. I can help you craft better prompts or analyze your generated art. How can I assist you today?' }
-  ]);
-  const [isChatting, setIsChatting] = useState(false);
+  const [chatAttachments, setChatAttachments] = useState<MessageAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDraggingChatFile, setIsDraggingChatFile] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  // Thread with a reply in flight; only one streams at a time
+  const [chattingId, setChattingId] = useState<string | null>(null);
+  const isChatting = chattingId !== null;
+  const [editingMessage, setEditingMessage] = useState<{ id: string; text: string } | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const dirtyConversationsRef = useRef(new Set<string>());
+  const [confirmTools, setConfirmTools] = useState(readConfirmTools);
+  // Read by tool calls mid-turn, so a change applies to the next call rather than the next message
+  const confirmToolsRef = useRef(confirmTools);
+  confirmToolsRef.current = confirmTools;
+  // Resolvers for tool calls waiting on the user's go-ahead, by call id
+  const toolDecisionsRef = useRef(new Map<string, (approved: boolean) => void>());
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId) ?? null;
+  const chatMessages = activeConversation?.messages ?? [GREETING];
 
   // Audio State
-  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [audioClip, setAudioClip] = useState<AudioClip | null>(null);
+  const [trim, setTrim] = useState<TrimRange>({ start: 0, end: 0 });
+  const [isAudioLoading, setIsAudioLoading] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
   const [isAudioProcessing, setIsAudioProcessing] = useState(false);
-  const [audioResult, setAudioResult] = useState<{ original: string; enhanced: string; transcription: string } | null>(null);
+  const [audioResult, setAudioResult] = useState<{ original: string; enhancement: EnhancementResult | null; analysis: AudioAnalysis | null; analysisError?: string } | null>(null);
+  const [audioTime, setAudioTime] = useState(0);
+  const originalPlayerRef = useRef<HTMLAudioElement>(null);
+  const enhancedPlayerRef = useRef<HTMLAudioElement>(null);
+  const activePlayerRef = useRef<HTMLAudioElement | null>(null);
+  const [enhancementSettings, setEnhancementSettings] = useState<EnhancementSettings>(DEFAULT_ENHANCEMENT);
+  const [audioError, setAudioError] = useState<string | null>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
+  // The trimmed selection the current result was made from, for re-applying settings
+  const selectionRef = useRef<AudioBuffer | null>(null);
+  const audioFile = audioClip?.file ?? null;
+
+  // Voice State
+  const [voiceDraft, setVoiceDraft] = useState<VoiceDraft | null>(null);
+  const [speechClips, setSpeechClips] = useState<SpeechClip[]>([]);
+
+  const openTab = (tab: Tab) => navigate(tab === 'assistant' ? { name: 'assistant', conversationId: activeConversationId ?? undefined } : { name: tab });
+
+  // Leaving the tab unmounts the recorder, which discards the take
+  useEffect(() => {
+    if (activeTab !== 'audio') setIsRecording(false);
+  }, [activeTab]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
+  // Clips go with their images, so the list is re-read in case some were deleted meanwhile
   useEffect(() => {
-    const savedHistory = localStorage.getItem(STORAGE_KEY);
-    if (savedHistory) {
-      try { setHistory(JSON.parse(savedHistory)); } catch (e) { console.error(e); }
+    if (activeTab !== 'voice' || !user || !galleryReady) return;
+    listSpeechClips().then(setSpeechClips).catch(e => console.error("Could not load clips:", e));
+  }, [activeTab, user?.id, galleryReady]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    listConversations(user.email)
+      .then(saved => {
+        if (cancelled) return;
+        const list = saved.length > 0 ? saved : [createConversation(user.email)];
+        setConversations(list);
+        setActiveConversationId(list[0].id);
+      })
+      .catch(e => console.error("Failed to load conversations:", e));
+    return () => { cancelled = true; };
+  }, [user?.id]);
+
+  // Changed threads are written once they settle; a streaming thread waits for its reply to finish
+  useEffect(() => {
+    for (const id of [...dirtyConversationsRef.current]) {
+      if (id === chattingId) continue;
+      dirtyConversationsRef.current.delete(id);
+      const conversation = conversations.find(c => c.id === id);
+      if (conversation) saveConversation(conversation).catch(e => console.error("Failed to save conversation:", e));
     }
-    const savedUser = localStorage.getItem(USER_KEY);
-    if (savedUser) {
-      try { setUser(JSON.parse(savedUser)); } catch (e) { console.error(e); }
+  }, [conversations, chattingId]);
+
+  const updateConversation = (id: string, update: (conversation: Conversation) => Partial<Conversation>) => {
+    dirtyConversationsRef.current.add(id);
+    setConversations(prev => prev.map(c => c.id === id ? { ...c, ...update(c) } : c));
+  };
+
+  /** Opens a thread; on the Assistant tab the URL follows, so threads can be linked and revisited with back. */
+  const showConversation = (id: string, replace = false) => {
+    setActiveConversationId(id);
+    if (currentRoute().name === 'assistant') navigate({ name: 'assistant', conversationId: id }, { replace });
+  };
+
+  // The Assistant URL picks the thread; a link to one that is gone falls back to the open thread
+  useEffect(() => {
+    if (route.name !== 'assistant' || conversations.length === 0) return;
+    if (route.conversationId && conversations.some(c => c.id === route.conversationId)) {
+      setActiveConversationId(route.conversationId);
+    } else if (activeConversationId) {
+      navigate({ name: 'assistant', conversationId: activeConversationId }, { replace: true });
     }
+  }, [route, conversations, activeConversationId]);
+
+  useEffect(() => {
+    if (!galleryReady) return;
+    setSelectedIds(new Set());
+    loadGalleryPage(0).catch(e => {
+      console.error("Gallery load failed:", e);
+      setError("Could not load the gallery.");
+    });
+  }, [galleryReady, galleryQuery]);
+
+  const refreshLabels = () => {
+    Promise.all([listTags(), listCollections()])
+      .then(([nextTags, nextCollections]) => { setTags(nextTags); setCollections(nextCollections); })
+      .catch(e => console.error("Could not load tags and collections:", e));
+  };
+
+  const refreshUsage = () => {
+    setUsageLoading(true);
+    usageService.getSummary()
+      .then(summary => { setUsage(summary); setUsageError(null); })
+      .catch(e => setUsageError(e.message))
+      .finally(() => setUsageLoading(false));
+  };
+
+  // Only the Gemini backend is metered, so other backends leave the numbers alone
+  const noteModelCall = () => {
+    if (getActiveProviderId() === 'gemini') refreshUsage();
+  };
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(e => console.error("Storage estimate failed:", e));
+  };
+
+  const loadGalleryPage = async (offset: number) => {
+    // Only the latest request may update the grid while filters change quickly
+    const request = ++galleryRequestRef.current;
+    const page = await queryImages(galleryQuery, offset, PAGE_SIZE);
+    if (request !== galleryRequestRef.current) return;
+    setHistory(prev => offset === 0 ? page.items : [...prev, ...page.items.filter(i => !prev.some(p => p.id === i.id))]);
+    setNextOffset(page.nextOffset);
+    setGalleryTotal(page.total);
+  };
+
+  useEffect(() => {
+    requestPersistentStorage().catch(() => {});
+    authService.restore()
+      .then(session => { if (session) beginSession(session); })
+      .catch(e => console.error("Could not restore the session:", e));
   }, []);
 
+  // Catches expiry while the app is open, including after the device sleeps
   useEffect(() => {
+    if (!user) return;
+    const timer = setInterval(() => {
+      if (!authService.getSession()) endSession("Your session has expired. Please sign in again.");
+    }, SESSION_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [user?.id]);
+
+  /** Persists a new image and prepends it to the gallery. */
+  const storeImage = async (newImage: GeneratedImage): Promise<GeneratedImage> => {
+    // New images only join the grid when they pass the current filters
+    const visible = matchesQuery(newImage, galleryQuery);
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-    } catch (e) {
-      console.warn("LocalStorage quota exceeded, clearing old history.");
-      // If quota is full, keep only the last 5 images
-      if (history.length > 5) {
-        setHistory(prev => prev.slice(0, 5));
+      const stored = await saveImage(newImage);
+      if (visible) {
+        setHistory(prev => [stored, ...prev]);
+        setGalleryTotal(prev => prev + 1);
       }
+      return stored;
+    } catch (storeErr) {
+      // Keep the result on screen for this session rather than losing it
+      if (visible) setHistory(prev => [newImage, ...prev]);
+      setShowStorage(true);
+      throw storeErr;
+    } finally {
+      refreshStorageUsage();
+    }
+  };
+
+  const runJob = async (job: GenerationJob, signal: AbortSignal): Promise<string> => {
+    const requested = job.settings ?? { ...settings, aspectRatio: job.aspectRatio };
+    const model = currentImageModels().find(m => m.id === requested.model);
+    if (!model) throw new Error(`${requested.model} is not available on this backend. Switch backend or pick another model in the settings.`);
+    // The seed is fixed here so every image records the one it was made with
+    const used = resolveSettings(requested, model, job.variation);
+    const references: ReferenceInput[] = await Promise.all((job.references ?? []).map(async ({ id, role, name }) => {
+      const blob = await getReference(id);
+      if (!blob) throw new Error(`The reference image "${name}" is no longer stored. Add it again to generate with it.`);
+      return { ...await readBlobData(blob), role };
+    }));
+    let imageUrls: string[];
+    try {
+      imageUrls = await generateImage(job.prompt, used, signal, references);
+    } catch (err) {
+      // The queue keeps only the message, so it is made readable here
+      throw signal.aborted ? err : new Error(describeModelError(err, 'image'));
+    } finally {
+      noteModelCall();
+    }
+    signal.throwIfAborted();
+    // A retried job may outlive its recording, which goes once the batch first ends without images
+    const voicePrompt = job.voicePrompt && await getRecording(job.voicePrompt.recordingId) ? job.voicePrompt : undefined;
+    const stored: GeneratedImage[] = [];
+    for (const [i, url] of imageUrls.entries()) {
+      stored.push(await storeImage({
+        id: i === 0 ? job.id : `${job.id}-${i + 1}`,
+        url,
+        prompt: job.prompt,
+        timestamp: Date.now(),
+        aspectRatio: used.aspectRatio,
+        model: used.model,
+        settings: used,
+        references: job.references,
+        batchId: job.batchId,
+        preset: job.preset,
+        voicePrompt
+      }));
+    }
+    return stored[0].id;
+  };
+
+  const runJobRef = useRef(runJob);
+  runJobRef.current = runJob;
+  const [queue] = useState(() => createGenerationQueue({ run: (job, signal) => runJobRef.current(job, signal) }));
+  const queueState = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  const isGenerating = queueState.jobs.some(job => job.status === 'running');
+  const settledBatchesRef = useRef(new Set<string>());
+
+  // A spoken prompt's recording is saved before its jobs run; drop it when none of them stored an image
+  useEffect(() => {
+    if (!user) return;
+    for (const batch of queueState.batches) {
+      const jobs = queueState.jobs.filter(job => job.batchId === batch.id);
+      const recordingId = jobs[0]?.voicePrompt?.recordingId;
+      if (!recordingId || settledBatchesRef.current.has(batch.id)) continue;
+      if (!jobs.every(job => isTerminal(job.status)) || jobs.some(job => job.status === 'done')) continue;
+      settledBatchesRef.current.add(batch.id);
+      deleteUnusedRecording(recordingId).catch(e => console.error("Could not delete an unused recording:", e));
+    }
+  }, [queueState, user?.id]);
+
+  // Everything below the account (gallery, queue, settings) is reloaded from the new user's storage
+  useEffect(() => {
+    setGalleryReady(false);
+    setHistory([]);
+    setNextOffset(null);
+    setGalleryTotal(0);
+    setGalleryQuery({ sort: 'newest' });
+    setTags([]);
+    setCollections([]);
+    setSelectMode(false);
+    setSelectedIds(new Set());
+    setStorageUsage(null);
+    setShowStorage(false);
+    setGalleryNotice(null);
+    setEditTarget(null);
+    setCanvasTarget(null);
+    setChatAttachments([]);
+    setAttachmentError(null);
+    setDroppedImage(null);
+    setReferences([]);
+    discardSpokenPrompt();
+    setExpandVoice(readExpandVoice());
+    setVoiceDraft(null);
+    setSpeechClips([]);
+    setConfirmTools(readConfirmTools());
+    setProviderId(restoreProvider());
+    setSettings(loadSettings(currentImageModels()));
+    setUsingSharedSettings(false);
+    setUsage(null);
+    setUsageError(null);
+    queue.reload();
+    if (!user) return;
+
+    queue.resume();
+    noteModelCall();
+    let cancelled = false;
+    migrateLegacyHistory()
+      .catch(e => {
+        console.error("History migration failed:", e);
+        setError("Some saved images could not be moved to the new gallery. They are kept and will be retried on next load.");
+      })
+      .then(() => {
+        if (cancelled) return;
+        setGalleryReady(true);
+        refreshStorageUsage();
+        refreshLabels();
+      })
+      .catch(e => {
+        console.error("Gallery load failed:", e);
+        setError("Could not open the gallery storage.");
+      });
+    return () => { cancelled = true; };
+  }, [user?.id]);
+
+  // A shared link fills in the Lab after the user's own settings have loaded, then leaves the URL
+  useEffect(() => {
+    if (route.name !== 'generator' || !route.share) return;
+    const { prompt: sharedPrompt, settings: sharedSettings } = route.share;
+    setBatchMode(false);
+    setPrompt(sharedPrompt);
+    if (sharedSettings) {
+      // A shared seed would otherwise make every later image a near copy of the shared one
+      const fitted = fitSettings(sharedSettings, currentImageModels());
+      setSettings({ ...fitted, seed: null });
+      setUsingSharedSettings(true);
+      setError(JSON.stringify(fitted) === JSON.stringify(sharedSettings) ? null : "Some of the shared settings are not available on this backend and were adjusted.");
     }
-  }, [history]);
+    if (user) navigate({ name: 'generator' }, { replace: true });
+  }, [route, user?.id]);
+
+  useEffect(() => {
+    if (route.name === 'usage' && user) refreshUsage();
+  }, [route.name, user?.id]);
+
+  const imageModels = currentImageModels();
+  const settingsErrors = validateSettings(settings, imageModels.find(m => m.id === settings.model), references.length);
+  const settingsValid = Object.keys(settingsErrors).length === 0;
+
+  /** Changes part of the Lab settings and saves them for the signed-in user. */
+  const updateSettings = (patch: Partial<GenerationSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSettings(next);
+    setUsingSharedSettings(false);
+  };
+
+  const keepSharedSettings = () => {
+    saveSettings(settings);
+    setUsingSharedSettings(false);
+  };
+
+  const restoreSavedSettings = () => {
+    setSettings(loadSettings(currentImageModels()));
+    setUsingSharedSettings(false);
+  };
+
+  /** Prepares uploaded files as Lab references, reporting any that cannot be used. */
+  const addReferences = async (files: File[]) => {
+    if (!user) { setShowAuthModal(true); return; }
+    const { images, problems } = await prepareUploads(files, MAX_REFERENCES - references.length);
+    setReferences(prev => [...prev, ...images.map(upload => ({ upload, role: 'style' as const }))].slice(0, MAX_REFERENCES));
+    setError(problems.length ? problems.join(' ') : null);
+  };
+
+  /**
+   * Keeps the Lab references in the gallery store for the jobs about to be
+   * queued. Each upload is stored once and reused by later requests.
+   */
+  const storeReferences = async (): Promise<ImageReference[] | undefined> => {
+    if (references.length === 0) return undefined;
+    const stored: ImageReference[] = [];
+    for (const { upload, role, storedId } of references) {
+      const id = storedId ?? await saveReference(await (await fetch(upload.url)).blob());
+      stored.push({ id, role, name: upload.name });
+    }
+    const storedIds = new Map(references.map((reference, i) => [reference.upload.id, stored[i].id]));
+    setReferences(prev => prev.map(reference => ({ ...reference, storedId: storedIds.get(reference.upload.id) ?? reference.storedId })));
+    return stored;
+  };
+
+  const handleLabPaste = (e: React.ClipboardEvent) => {
+    const files = imageFilesOf(e.clipboardData);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addReferences(files);
+  };
 
   const handleGenerate = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!prompt.trim() || isGenerating) return;
+    if (!settingsValid) { setSettingsOpen(true); return; }
+    const subjects = batchMode
+      ? batchPrompts.split('\n').map(p => p.trim()).filter(Boolean)
+      : [prompt.trim()].filter(Boolean);
+    if (subjects.length === 0) return;
     if (!user) { setShowAuthModal(true); return; }
 
-    setIsGenerating(true);
+    // With the composer open, each line is a subject and gets the same modifiers
+    const styled = composerOpen && hasModifiers(modifiers);
+    const prompts = styled ? subjects.map(subject => compilePrompt(subject, modifiers)) : subjects;
+    let stored: ImageReference[] | undefined;
+    try {
+      stored = await storeReferences();
+    } catch (err: any) {
+      setError("Could not keep the reference images: " + err.message);
+      return;
+    }
     setError(null);
+    queue.submit({ prompts, variations, settings, references: stored, preset: styled ? activePreset ?? undefined : undefined });
+    if (batchMode) setBatchPrompts(''); else setPrompt('');
+  };
+
+  const handleModifiersChange = (next: PromptModifiers) => {
+    setModifiers(next);
+    // Once the look is changed by hand it is no longer the saved preset
+    if (activePreset && !sameModifiers(activePreset.modifiers, next)) setActivePreset(null);
+  };
+
+  const handleApplyPreset = (preset: PromptPreset) => {
+    setModifiers(preset.modifiers);
+    setActivePreset(preset);
+    setComposerOpen(true);
+  };
+
+  // The composer previews the first line when working on a prompt list
+  const composerSubject = batchMode ? batchPrompts.split('\n')[0] : prompt;
+
+  const handleApplyTemplate = (text: string) => {
+    if (batchMode) setBatchPrompts(prev => prev.trim() ? `${prev.trimEnd()}\n${text}` : text);
+    else setPrompt(text);
+  };
+
+  const updateSpokenPrompt = (id: string, patch: Partial<SpokenPrompt>) => {
+    if (spokenPromptIdRef.current !== id) return;
+    setSpokenPrompt(prev => prev?.id === id ? { ...prev, ...patch } : prev);
+  };
+
+  const discardSpokenPrompt = () => {
+    spokenPromptIdRef.current = null;
+    setSpokenPrompt(prev => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return null;
+    });
+  };
+
+  const expandSpokenPrompt = async (id: string, idea: string) => {
+    updateSpokenPrompt(id, { busy: 'expanding', error: undefined });
     try {
-      const imageUrl = await generateImage(prompt, settings.aspectRatio);
-      const newImage: GeneratedImage = {
-        id: Date.now().toString(),
-        url: imageUrl,
-        prompt: prompt,
-        timestamp: Date.now(),
-        aspectRatio: settings.aspectRatio
-      };
-      setHistory(prev => [newImage, ...prev]);
-      setPrompt('');
+      updateSpokenPrompt(id, { text: await expandPrompt(idea), expanded: true, busy: null });
+    } catch (err) {
+      updateSpokenPrompt(id, { busy: null, error: describeModelError(err, 'chat') });
+    } finally {
+      noteModelCall();
+    }
+  };
+
+  /** Transcribes a push-to-talk take for review, expanding it first when that option is on. */
+  const handleVoiceRecorded = async (file: File) => {
+    if (!user) { setShowAuthModal(true); return; }
+    discardSpokenPrompt();
+    const id = newId();
+    spokenPromptIdRef.current = id;
+    setSpokenPrompt({ id, file, url: URL.createObjectURL(file), duration: 0, transcript: null, text: '', expanded: false, busy: 'transcribing' });
+    let clip: AudioClip;
+    try {
+      clip = await loadAudioClip(file);
     } catch (err: any) {
-      setError(err.message || "Failed to generate image.");
+      updateSpokenPrompt(id, { transcript: '', busy: null, error: err.message });
+      return;
+    }
+    updateSpokenPrompt(id, { duration: clip.buffer.duration });
+    let transcript: string;
+    try {
+      const { data, mimeType } = await analysisPayload(clip, { start: 0, end: clip.buffer.duration });
+      transcript = await transcribeVoicePrompt(data, mimeType);
+    } catch (err) {
+      updateSpokenPrompt(id, { transcript: '', busy: null, error: describeModelError(err, 'audio') });
+      return;
     } finally {
-      setIsGenerating(false);
+      noteModelCall();
+    }
+    if (!transcript) {
+      updateSpokenPrompt(id, { transcript: '', busy: null, error: "Nothing was heard. Hold the button while you speak and try again." });
+      return;
     }
+    updateSpokenPrompt(id, { transcript, text: transcript, busy: null });
+    if (expandVoice) await expandSpokenPrompt(id, transcript);
   };
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if ((!chatInput.trim() && !attachedImage) || isChatting) return;
+  const handleExpandVoiceChange = (enabled: boolean) => {
+    setExpandVoice(enabled);
+    const key = scopedKey(EXPAND_VOICE_KEY);
+    if (key) localStorage.setItem(key, enabled ? 'on' : 'off');
+    if (!spokenPrompt?.transcript) return;
+    if (enabled) expandSpokenPrompt(spokenPrompt.id, spokenPrompt.text);
+    else updateSpokenPrompt(spokenPrompt.id, { text: spokenPrompt.transcript, expanded: false });
+  };
+
+  /** Queues the reviewed spoken prompt; the recording is kept for the images it produces. */
+  const handleGenerateSpoken = async () => {
+    if (!spokenPrompt?.transcript || !spokenPrompt.text.trim()) return;
     if (!user) { setShowAuthModal(true); return; }
+    if (!settingsValid) { setSettingsOpen(true); return; }
+    const { id, file, transcript, text, expanded, duration } = spokenPrompt;
+    let recordingId: string;
+    let stored: ImageReference[] | undefined;
+    try {
+      recordingId = await saveRecording(file);
+      stored = await storeReferences();
+    } catch (err: any) {
+      updateSpokenPrompt(id, { error: "Could not keep the recording or references: " + err.message });
+      return;
+    }
+    const styled = composerOpen && hasModifiers(modifiers);
+    setError(null);
+    queue.submit({
+      prompts: [styled ? compilePrompt(text, modifiers) : text.trim()],
+      variations,
+      settings,
+      references: stored,
+      preset: styled ? activePreset ?? undefined : undefined,
+      voicePrompt: { transcript, expanded, recordingId, duration }
+    });
+    discardSpokenPrompt();
+  };
 
-    const userText = chatInput.trim();
-    const currentAttachment = attachedImage;
-    setChatInput('');
-    setAttachedImage(null);
-    
-    setChatMessages(prev => [...prev, { role: 'user', text: userText, image: currentAttachment?.url }]);
-    setIsChatting(true);
-
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const contents = chatMessages.map(msg => ({
-        role: msg.role,
-        parts: msg.image ? [
-          { inlineData: { data: msg.image.split(',')[1], mimeType: 'image/png' } },
-          { text: msg.text || "Analyze this image." }
-        ] : [{ text: msg.text }]
-      }));
+  const closeDroppedImage = () => {
+    if (droppedImage) URL.revokeObjectURL(droppedImage.url);
+    setDroppedImage(null);
+  };
 
-      const currentParts: any[] = [];
-      if (currentAttachment) {
-        currentParts.push({ inlineData: { data: currentAttachment.url.split(',')[1], mimeType: 'image/png' } });
+  /**
+   * Images dropped onto the Lab become references. A single FlipArt image
+   * shows its embedded settings first, with the option to use it either way.
+   */
+  const handleDropFile = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const files = imageFilesOf(e.dataTransfer);
+    if (files.length === 0) {
+      if (e.dataTransfer.files.length) setError("Drop image files to use them as references or read their settings.");
+      return;
+    }
+    if (files.length === 1) {
+      const [file] = files;
+      let metadata: ImageMetadata | null = null;
+      try {
+        metadata = readMetadata(new Uint8Array(await file.arrayBuffer()));
+      } catch (err) {
+        console.warn("Could not read settings from the dropped image:", err);
       }
-      currentParts.push({ text: userText || (currentAttachment ? "What do you think of this generation?" : "") });
-      
-      contents.push({ role: 'user', parts: currentParts });
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: contents,
-        config: {
-          systemInstruction: `You are the FlipArt AI Assistant. You help users with prompt engineering and art analysis. 
-          When an image is provided, analyze its composition, style, and quality. 
-          If the user asks for prompt improvements, give them clear, descriptive keywords.
-          Current user: ${user.name}.`,
+      if (metadata) {
+        closeDroppedImage();
+        setError(null);
+        setDroppedImage({ file, url: URL.createObjectURL(file), metadata });
+        return;
+      }
+    }
+    await addReferences(files);
+  };
+
+  const handleUseDroppedAsReference = () => {
+    if (!droppedImage) return;
+    addReferences([droppedImage.file]);
+    closeDroppedImage();
+  };
+
+  const handleRecreate = () => {
+    const metadata = droppedImage?.metadata;
+    if (!metadata) return;
+    if (!user) { setShowAuthModal(true); return; }
+    // The stored prompt already includes the preset's modifiers, so it is sent as is
+    // Images made before settings were recorded keep the Lab's other settings
+    const recorded = metadata.settings ?? { ...settings, aspectRatio: metadata.aspectRatio };
+    updateSettings({ aspectRatio: recorded.aspectRatio });
+    setError(null);
+    queue.submit({ prompts: [metadata.prompt], variations: 1, settings: recorded, preset: metadata.preset });
+    closeDroppedImage();
+  };
+
+  /** Queues an image's prompt again with the exact settings it was made with. */
+  const handleGenerateAgain = (image: GeneratedImage) => {
+    if (!user) { setShowAuthModal(true); return; }
+    const recorded = image.settings ?? { ...settings, aspectRatio: image.aspectRatio };
+    const problems = Object.values(validateSettings(recorded, currentImageModels().find(m => m.id === recorded.model), image.references?.length));
+    if (problems.length) { setError(`This image's settings cannot be used here: ${problems.join(' ')}`); return; }
+    setError(null);
+    queue.submit({ prompts: [image.prompt], variations: 1, settings: recorded, references: image.references, preset: image.preset });
+  };
+
+  const handleAddDroppedImage = async () => {
+    const metadata = droppedImage?.metadata;
+    if (!droppedImage || !metadata) return;
+    if (!user) { setShowAuthModal(true); throw new Error("Sign in to add images to your gallery."); }
+    await storeImage({
+      id: newId(),
+      url: droppedImage.url,
+      prompt: metadata.prompt,
+      timestamp: metadata.createdAt ?? Date.now(),
+      aspectRatio: metadata.aspectRatio,
+      mimeType: droppedImage.file.type,
+      model: metadata.model,
+      settings: metadata.settings,
+      preset: metadata.preset,
+      editInstruction: metadata.editInstruction
+    });
+    refreshLabels();
+  };
+
+  const openEditor = (image: GeneratedImage) => {
+    if (!user) { setShowAuthModal(true); return; }
+    setEditTarget(image);
+    setEditVersions([image]);
+    getVersionFamily(image.id)
+      .then(family => { if (family.length) setEditVersions(family); })
+      .catch(e => console.error("Could not load versions:", e));
+  };
+
+  const handleEditImage = async (instruction: string) => {
+    if (!editTarget) return;
+    const model = currentImageModel();
+    let imageUrl: string;
+    try {
+      imageUrl = await editImage(editTarget, instruction);
+    } catch (err) {
+      throw new Error(describeModelError(err, 'edit'));
+    } finally {
+      noteModelCall();
+    }
+    const stored = await storeImage({
+      id: newId(),
+      url: imageUrl,
+      prompt: editTarget.prompt,
+      timestamp: Date.now(),
+      aspectRatio: editTarget.aspectRatio,
+      model,
+      parentId: editTarget.id,
+      editInstruction: instruction
+    });
+    setEditVersions(prev => [...prev, stored]);
+    setEditTarget(stored);
+  };
+
+  /** The image a canvas edit produces: a new version linked to the one it was made from. */
+  const canvasResult = (source: GeneratedImage, blob: Blob, edit: CanvasEdit): GeneratedImage => ({
+    id: newId(),
+    url: URL.createObjectURL(blob),
+    prompt: source.prompt,
+    timestamp: Date.now(),
+    aspectRatio: outputAspectRatio(source.aspectRatio, edit),
+    mimeType: blob.type,
+    model: source.model,
+    preset: source.preset,
+    parentId: source.id,
+    editInstruction: describeEdit(edit)
+  });
+
+  const handleSaveCanvasEdit = async (blob: Blob, edit: CanvasEdit) => {
+    if (!canvasTarget) return;
+    if (!user) { setShowAuthModal(true); throw new Error("Sign in to save edits to your gallery."); }
+    const result = canvasResult(canvasTarget, blob, edit);
+    try {
+      await storeImage(result);
+    } finally {
+      // The gallery hands out its own URL for the stored copy
+      URL.revokeObjectURL(result.url);
+    }
+  };
+
+  const handleDownloadCanvasEdit = async (blob: Blob, edit: CanvasEdit) => {
+    if (!canvasTarget) return;
+    const result = canvasResult(canvasTarget, blob, edit);
+    try {
+      await downloadImage(result);
+    } finally {
+      URL.revokeObjectURL(result.url);
+    }
+  };
+
+  const buildContents = async (messages: ChatMessage[]): Promise<ChatTurn[]> => {
+    const turns: ChatTurn[] = [];
+    for (const msg of messages) {
+      // Tool result messages are for display; the model gets the function response instead
+      if (msg.toolCallId) continue;
+      const parts: ContentPart[] = [];
+      if (msg.attachments?.length) {
+        for (const attachment of msg.attachments) {
+          parts.push({ inlineData: await readImageData(attachment.url) });
+          if (attachment.imageId) parts.push({ text: `[Gallery image id: ${attachment.imageId}]` });
+          else if (attachment.name) parts.push({ text: `[Uploaded image: ${attachment.name}]` });
         }
+        parts.push({ text: msg.text || (msg.attachments.length > 1 ? "What do you think of these images?" : "What do you think of this generation?") });
+      } else if (msg.text) {
+        parts.push({ text: msg.text });
+      }
+      const calls = msg.toolCalls ?? [];
+      for (const call of calls) {
+        parts.push({ functionCall: { id: call.id, name: call.name, args: call.args }, thoughtSignature: call.signature });
+      }
+      if (parts.length === 0) continue;
+      turns.push({ role: msg.role, parts });
+      if (calls.length > 0) {
+        turns.push({
+          role: 'user',
+          parts: calls.map(call => ({
+            functionResponse: { id: call.id, name: call.name, response: call.result ?? { error: "The call was interrupted." } }
+          }))
+        });
+      }
+    }
+    return turns;
+  };
+
+  const handleToolDecision = (callId: string, approved: boolean) => {
+    toolDecisionsRef.current.get(callId)?.(approved);
+  };
+
+  const handleConfirmToolsChange = (enabled: boolean) => {
+    setConfirmTools(enabled);
+    const key = scopedKey(CONFIRM_TOOLS_KEY);
+    if (key) localStorage.setItem(key, enabled ? 'on' : 'off');
+  };
+
+  /**
+   * Runs one tool call for the assistant, asking first when it would spend a
+   * generation and confirmation is on. Returns the settled call.
+   */
+  const runToolCall = async (
+    call: ToolCall,
+    setCall: (call: ToolCall) => void,
+    signal: AbortSignal
+  ): Promise<{ call: ToolCall; image?: GeneratedImage }> => {
+    if (confirmToolsRef.current && GENERATION_TOOLS.includes(call.name)) {
+      setCall({ ...call, status: 'pending' });
+      const approved = await new Promise<boolean>(resolve => {
+        toolDecisionsRef.current.set(call.id, resolve);
+        signal.addEventListener('abort', () => resolve(false), { once: true });
       });
+      toolDecisionsRef.current.delete(call.id);
+      if (!approved) return { call: { ...call, status: 'declined', result: { error: "The user declined this action." } } };
+    }
 
-      const assistantText = response.text || "I'm sorry, I couldn't process that request.";
-      setChatMessages(prev => [...prev, { role: 'model', text: assistantText }]);
+    setCall({ ...call, status: 'running' });
+    try {
+      const outcome = await executeToolCall(call, storeImage, settings, signal);
+      return { call: { ...call, status: 'done', result: outcome.result }, image: outcome.image };
     } catch (err: any) {
-      console.error("Assistant error:", err);
-      setChatMessages(prev => [...prev, { role: 'model', text: "I encountered an error analyzing your request. Please try again." }]);
-    } finally {
-      setIsChatting(false);
+      if (signal.aborted) return { call: { ...call, status: 'declined', result: { error: "Cancelled by the user." } } };
+      console.error(`Tool ${call.name} failed:`, err);
+      const task = call.name === 'edit_image' ? 'edit' : 'image';
+      return { call: { ...call, status: 'error', result: { error: describeModelError(err, task) } } };
     }
   };
 
-  const handleAudioEnhance = async () => {
-    if (!audioFile || isAudioProcessing) return;
+  /**
+   * Sends `userMessage` after `base` and streams the reply into a new message.
+   * Anything after `base` is dropped, which is how regenerate and edit fork.
+   * When the assistant calls tools, their results are sent back and it
+   * replies again, up to MAX_TOOL_ROUNDS times; the last round goes without
+   * tools so the turn always ends in a written answer.
+   */
+  const runAssistant = async (base: ChatMessage[], userMessage: ChatMessage) => {
     if (!user) { setShowAuthModal(true); return; }
+    if (!activeConversation) return;
 
-    setIsAudioProcessing(true);
-    setError(null);
+    // Updates go to the thread the message was sent in, even if the user switches away
+    const conversation = activeConversation;
+    const updateMessage = (id: string, patch: (msg: ChatMessage) => Partial<ChatMessage>) =>
+      updateConversation(conversation.id, c => ({ messages: c.messages.map(msg => msg.id === id ? { ...msg, ...patch(msg) } : msg) }));
+    // Mirror of the thread for building requests, since state updates land later
+    const thread = [...base, userMessage];
+    const append = (msg: ChatMessage) => {
+      thread.push(msg);
+      updateConversation(conversation.id, c => ({ messages: [...c.messages, msg] }));
+    };
 
+    updateConversation(conversation.id, c => ({
+      messages: [...thread],
+      updatedAt: Date.now(),
+      title: c.title === DEFAULT_TITLE ? titleFromMessage(userMessage.text) : c.title
+    }));
+    setChattingId(conversation.id);
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
+    let summaryState: SummaryState = conversation;
+    let reply: ChatMessage | null = null;
+    let text = '';
     try {
-      const reader = new FileReader();
-      const fileBase64Promise = new Promise<string>((resolve) => {
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(audioFile);
-      });
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const context = await prepareContext(thread, summaryState, summarizeConversation);
+        summaryState = context;
+        updateConversation(conversation.id, () => ({ summary: context.summary, summarizedCount: context.summarizedCount }));
+        const contents = await buildContents(context.recent);
 
-      const base64Data = await fileBase64Promise;
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [
-          {
-            parts: [
-              { inlineData: { data: base64Data, mimeType: audioFile.type } },
-              { text: "Remove the background noise from this voice recording. Describe the audio quality, transcribe the spoken words accurately, and simulate an 'enhanced' version summary." }
-            ]
+        const replyId = newId();
+        reply = { id: replyId, role: 'model', text: '', status: 'streaming' };
+        append(reply);
+        text = '';
+        const calls: ToolCall[] = [];
+        const lastRound = round === MAX_TOOL_ROUNDS - 1;
+        const stream = streamAssistantMessage(contents, { userName: user.name, summary: context.summary, tools: lastRound ? undefined : ASSISTANT_TOOLS, signal: controller.signal });
+        for await (const chunk of stream) {
+          if ('text' in chunk) {
+            text += chunk.text;
+          } else {
+            const { id, name, args, thoughtSignature } = chunk.functionCall;
+            calls.push({ id: id ?? newId(), name, args, signature: thoughtSignature, status: 'running' });
           }
-        ],
-        config: {
-          systemInstruction: "You are an AI Audio Engineer. You specialize in noise reduction, speech enhancement, and audio analysis."
+          updateMessage(replyId, () => ({ text, toolCalls: calls.length > 0 ? [...calls] : undefined }));
         }
-      });
+        if (controller.signal.aborted) break;
 
-      const textResult = response.text || "Processing complete.";
-      
-      setAudioResult({
-        original: URL.createObjectURL(audioFile),
-        enhanced: URL.createObjectURL(audioFile), 
-        transcription: textResult
-      });
+        if (calls.length === 0 || lastRound) {
+          const fallback = calls.length > 0 ? "I've reached the limit of actions for one message. Send another message to continue." : "I'm sorry, I couldn't process that request.";
+          updateMessage(replyId, () => ({ text: text || fallback, toolCalls: undefined, status: undefined }));
+          reply = null;
+          break;
+        }
+
+        updateMessage(replyId, () => ({ status: undefined }));
+        reply = null;
+        const settled: ToolCall[] = [];
+        const results: ChatMessage[] = [];
+        for (const call of calls) {
+          const setCall = (next: ToolCall) =>
+            updateMessage(replyId, msg => ({ toolCalls: msg.toolCalls?.map(c => c.id === next.id ? next : c) }));
+          const outcome = await runToolCall(call, setCall, controller.signal);
+          setCall(outcome.call);
+          settled.push(outcome.call);
+          if (outcome.image) {
+            results.push({
+              id: newId(),
+              role: 'model',
+              text: outcome.image.editInstruction ? `Edited: ${outcome.image.editInstruction}` : outcome.image.prompt,
+              attachments: [{ url: await toDataUrl(outcome.image.url), imageId: outcome.image.id }],
+              toolCallId: call.id
+            });
+          }
+        }
+        thread[thread.findIndex(msg => msg.id === replyId)] = { id: replyId, role: 'model', text, toolCalls: settled };
+        results.forEach(append);
+        if (controller.signal.aborted) break;
+      }
+      if (reply && controller.signal.aborted) updateMessage(reply.id, () => ({ status: 'stopped' }));
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        if (reply) updateMessage(reply.id, () => ({ status: 'stopped' }));
+      } else {
+        console.error("Assistant error:", err);
+        const failure = describeModelError(err, 'chat');
+        if (reply) updateMessage(reply.id, () => ({ text, status: 'error', error: failure }));
+        else append({ id: newId(), role: 'model', text: '', status: 'error', error: failure });
+      }
+    } finally {
+      chatAbortRef.current = null;
+      setChattingId(null);
+      noteModelCall();
+    }
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!chatInput.trim() && chatAttachments.length === 0) || isChatting) return;
+    if (!user) { setShowAuthModal(true); return; }
+
+    // Inline the images so the saved thread survives gallery entries being deleted
+    let attachments: MessageAttachment[];
+    try {
+      attachments = await Promise.all(chatAttachments.map(async attachment => ({ ...attachment, url: await toDataUrl(attachment.url) })));
+    } catch (err) {
+      console.error("Could not read attached image:", err);
+      setAttachmentError("An attached image could not be read. Remove it and try again.");
+      return;
+    }
+    const userMessage: ChatMessage = { id: newId(), role: 'user', text: chatInput.trim(), attachments: attachments.length ? attachments : undefined };
+    setChatInput('');
+    setChatAttachments([]);
+    setAttachmentError(null);
+    runAssistant(chatMessages, userMessage);
+  };
+
+  /** Adds a gallery image to the next message, or takes it off again. */
+  const toggleChatAttachment = (image: GeneratedImage) => {
+    if (chatAttachments.some(attachment => attachment.imageId === image.id)) {
+      setChatAttachments(prev => prev.filter(attachment => attachment.imageId !== image.id));
+      return;
+    }
+    if (chatAttachments.length >= MAX_CHAT_ATTACHMENTS) {
+      setAttachmentError(`A message can carry up to ${MAX_CHAT_ATTACHMENTS} images.`);
+      return;
+    }
+    setAttachmentError(null);
+    setChatAttachments(prev => [...prev, { url: image.url, imageId: image.id }]);
+  };
+
+  const attachChatUploads = async (files: File[]) => {
+    if (!user) { setShowAuthModal(true); return; }
+    const { images, problems } = await prepareUploads(files, MAX_CHAT_ATTACHMENTS - chatAttachments.length);
+    setChatAttachments(prev => [...prev, ...images.map(({ url, name }) => ({ url, name }))].slice(0, MAX_CHAT_ATTACHMENTS));
+    setAttachmentError(problems.length ? problems.join(' ') : null);
+  };
+
+  const handleChatDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingChatFile(false);
+    const files = imageFilesOf(e.dataTransfer);
+    if (files.length) attachChatUploads(files);
+    else if (e.dataTransfer.files.length) setAttachmentError("Only images can be attached.");
+  };
+
+  const handleChatPaste = (e: React.ClipboardEvent) => {
+    const files = imageFilesOf(e.clipboardData);
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachChatUploads(files);
+  };
+
+  const handleNewConversation = () => {
+    if (!user) { setShowAuthModal(true); return; }
+    // An untouched thread is reused instead of stacking empty ones
+    const blank = conversations.find(c => c.messages.length === 1 && c.messages[0].id === GREETING.id);
+    if (blank) { showConversation(blank.id); return; }
+    const conversation = createConversation(user.email);
+    setConversations(prev => [conversation, ...prev]);
+    showConversation(conversation.id);
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    if (!user || id === chattingId) return;
+    try {
+      await deleteConversation(id);
+    } catch (err) {
+      console.error("Failed to delete conversation:", err);
+      return;
+    }
+    dirtyConversationsRef.current.delete(id);
+    const remaining = conversations.filter(c => c.id !== id);
+    const next = remaining.length > 0 ? remaining : [createConversation(user.email)];
+    setConversations(next);
+    if (id === activeConversationId) showConversation(sortConversations(next)[0].id, true);
+  };
+
+  const handleClearConversation = () => {
+    if (!activeConversation) return;
+    if (chattingId === activeConversation.id) chatAbortRef.current?.abort();
+    updateConversation(activeConversation.id, () => ({ messages: [GREETING], summary: undefined, summarizedCount: 0 }));
+  };
+
+  const handleStopChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const handleRegenerate = (index: number) => {
+    if (isChatting) return;
+    runAssistant(chatMessages.slice(0, index), chatMessages[index]);
+  };
+
+  const handleEditResend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingMessage || isChatting) return;
+    const index = chatMessages.findIndex(msg => msg.id === editingMessage.id);
+    const original = chatMessages[index];
+    setEditingMessage(null);
+    if (!original || (!editingMessage.text.trim() && !original.attachments?.length)) return;
+    runAssistant(chatMessages.slice(0, index), { ...original, id: newId(), text: editingMessage.text.trim() });
+  };
+
+  const handleAudioEnhance = async () => {
+    if (!audioClip || isAudioProcessing) return;
+    if (!user) { setShowAuthModal(true); return; }
+    const selectionError = checkSelection(trim);
+    if (selectionError) { setAudioError(selectionError); return; }
+
+    setIsAudioProcessing(true);
+    setAudioError(null);
+    const whole = isWholeClip(audioClip, trim);
+    const selection = whole ? audioClip.buffer : trimBuffer(audioClip.buffer, trim);
+    selectionRef.current = selection;
+
+    const runAnalysis = async () => {
+      const { data, mimeType } = await analysisPayload(audioClip, trim);
+      return analyzeAudio(data, mimeType);
+    };
+
+    const runEnhancement = () => enhanceAudio(selection, enhancementSettings);
+
+    // The local DSP result is useful on its own, so one failing does not discard the other
+    const [enhancement, analysis] = await Promise.allSettled([runEnhancement(), runAnalysis()]);
+    if (enhancement.status === 'rejected') {
+      setAudioError(`Noise reduction failed (${enhancement.reason?.message}). Try a WAV or MP3 file.`);
+    }
+    if (audioResult?.enhancement) URL.revokeObjectURL(audioResult.enhancement.url);
+    setAudioResult({
+      original: audioResult?.original ?? URL.createObjectURL(whole ? audioClip.file : selectionBlob(selection)),
+      enhancement: enhancement.status === 'fulfilled' ? enhancement.value : null,
+      analysis: analysis.status === 'fulfilled' ? analysis.value : null,
+      analysisError: analysis.status === 'rejected' ? describeModelError(analysis.reason, 'audio') : undefined
+    });
+    setIsAudioProcessing(false);
+    noteModelCall();
+  };
+
+  const handleReapplyEnhancement = async () => {
+    if (!audioResult || !selectionRef.current || isAudioProcessing) return;
+    setIsAudioProcessing(true);
+    setAudioError(null);
+    try {
+      const enhancement = await enhanceAudio(selectionRef.current, enhancementSettings);
+      if (audioResult.enhancement) URL.revokeObjectURL(audioResult.enhancement.url);
+      setAudioResult({ ...audioResult, enhancement });
     } catch (err: any) {
-      setError("Audio processing failed: " + err.message);
+      setAudioError(`Noise reduction failed (${err.message}).`);
     } finally {
       setIsAudioProcessing(false);
     }
   };
 
+  const seekAudio = (seconds: number) => {
+    const player = activePlayerRef.current ?? enhancedPlayerRef.current ?? originalPlayerRef.current;
+    if (!player) return;
+    player.currentTime = seconds;
+    player.play().catch(() => {});
+  };
+
+  const trackPlayer = {
+    onPlay: (e: React.SyntheticEvent<HTMLAudioElement>) => {
+      // Only one player at a time, so the transcript follows whichever is audible
+      [originalPlayerRef.current, enhancedPlayerRef.current].forEach(p => { if (p && p !== e.currentTarget) p.pause(); });
+      activePlayerRef.current = e.currentTarget;
+    },
+    onTimeUpdate: (e: React.SyntheticEvent<HTMLAudioElement>) => {
+      if (e.currentTarget === activePlayerRef.current) setAudioTime(e.currentTarget.currentTime);
+    }
+  };
+
+  const resetAudio = () => {
+    if (audioResult) {
+      URL.revokeObjectURL(audioResult.original);
+      if (audioResult.enhancement) URL.revokeObjectURL(audioResult.enhancement.url);
+    }
+    selectionRef.current = null;
+    activePlayerRef.current = null;
+    setAudioTime(0);
+    setAudioResult(null);
+    setAudioError(null);
+  };
+
+  // Uploads and recordings both come through here, so they share the same checks
+  const loadAudio = async (file: File) => {
+    resetAudio();
+    setAudioClip(null);
+    const fileError = checkAudioFile(file);
+    if (fileError) { setAudioError(fileError); return; }
+    setIsAudioLoading(true);
+    try {
+      const clip = await loadAudioClip(file);
+      setAudioClip(clip);
+      // Anything over the limit starts trimmed to it, so it can still be sent as is
+      setTrim({ start: 0, end: Math.min(clip.buffer.duration, MAX_AUDIO_SECONDS) });
+      if (clip.buffer.duration > MAX_AUDIO_SECONDS) {
+        setAudioError(`"${file.name}" is ${formatDuration(clip.buffer.duration)} long; only ${formatDuration(MAX_AUDIO_SECONDS)} can be processed at once. The first part is selected; drag the handles to choose another.`);
+      }
+    } catch (err: any) {
+      setAudioError(err.message);
+    } finally {
+      setIsAudioLoading(false);
+    }
+  };
+
   const onAudioFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setAudioFile(e.target.files[0]);
-      setAudioResult(null);
+    const file = e.target.files?.[0];
+    // Clear the input so choosing the same file again still fires a change
+    e.target.value = '';
+    if (file) loadAudio(file);
+  };
+
+  const onRecorded = (file: File) => {
+    setIsRecording(false);
+    loadAudio(file);
+  };
+
+  const onTrimChange = (range: TrimRange) => {
+    // A result describes the old selection, so it goes once the selection changes
+    if (audioResult) resetAudio();
+    setAudioError(null);
+    setTrim(range);
+  };
+
+  const clearAudio = () => {
+    resetAudio();
+    setAudioClip(null);
+  };
+
+  /** Opens the Voice studio with text, or an image to describe, from another tab. */
+  const openVoice = (draft: VoiceDraft) => {
+    if (!user) { setShowAuthModal(true); return; }
+    setVoiceDraft(draft);
+    openTab('voice');
+  };
+
+  const handleNarrate = async (text: string, speechSettings: SpeechSettings, source: SpeechSource, imageId?: string) => {
+    if (!user) { setShowAuthModal(true); throw new Error("Sign in to narrate text."); }
+    const model = currentSpeechModel();
+    let speech: { blob: Blob; duration: number };
+    try {
+      speech = await synthesizeSpeech(text, speechSettings);
+    } catch (err) {
+      throw new Error(describeModelError(err, 'speech'));
+    } finally {
+      noteModelCall();
+    }
+    const clip = await saveSpeechClip({
+      id: newId(),
+      text,
+      source,
+      imageId,
+      ...speechSettings,
+      duration: speech.duration,
+      model,
+      createdAt: Date.now()
+    }, speech.blob);
+    setSpeechClips(prev => [clip, ...prev]);
+    refreshStorageUsage();
+  };
+
+  const handleDescribeImage = async (image: GeneratedImage): Promise<string> => {
+    try {
+      return await describeImage(image);
+    } catch (err) {
+      throw new Error(describeModelError(err, 'chat'));
+    } finally {
+      noteModelCall();
     }
   };
 
-  const handleAuthSubmit = (e: React.FormEvent) => {
+  const handleDeleteClip = async (id: string) => {
+    try {
+      await deleteSpeechClip(id);
+      setSpeechClips(prev => prev.filter(clip => clip.id !== id));
+    } catch (err) {
+      console.error("Could not delete clip:", err);
+    }
+  };
+
+  /**
+   * Keeps a storyboard reference in the gallery store so the panel image can
+   * record it. The same source is stored once, unless the gallery has since
+   * dropped it along with the images that used it.
+   */
+  const storePanelReference = async ({ key, url, role, name }: PanelReference): Promise<ImageReference> => {
+    const known = panelReferenceIdsRef.current.get(key);
+    if (known && await getReference(known)) return { id: known, role, name };
+    const id = await saveReference(await (await fetch(url)).blob());
+    panelReferenceIdsRef.current.set(key, id);
+    return { id, role, name };
+  };
+
+  const handleGeneratePanel = async ({ prompt: panelPrompt, references: panelReferences }: PanelRequest, aspectRatio: AspectRatio, signal: AbortSignal): Promise<GeneratedImage> => {
+    if (!user) { setShowAuthModal(true); throw new Error("Sign in to generate panels."); }
+    const requested = { ...settings, aspectRatio, candidateCount: 1 };
+    const model = currentImageModels().find(m => m.id === requested.model);
+    const problems = Object.values(validateSettings(requested, model, panelReferences.length));
+    if (problems.length > 0) throw new Error(`${problems.join(' ')} Adjust the settings in the Lab.`);
+    const used = resolveSettings(requested, model);
+    const stored: ImageReference[] = [];
+    const inputs: ReferenceInput[] = [];
+    for (const reference of panelReferences) {
+      stored.push(await storePanelReference(reference));
+      inputs.push({ ...await readImageData(reference.url), role: reference.role });
+    }
+    let imageUrls: string[];
+    try {
+      imageUrls = await generateImage(panelPrompt, used, signal, inputs);
+    } catch (err) {
+      throw signal.aborted ? err : new Error(describeModelError(err, 'image'));
+    } finally {
+      noteModelCall();
+    }
+    signal.throwIfAborted();
+    return storeImage({
+      id: newId(),
+      url: imageUrls[0],
+      prompt: panelPrompt,
+      timestamp: Date.now(),
+      aspectRatio,
+      model: used.model,
+      settings: used,
+      references: stored.length > 0 ? stored : undefined
+    });
+  };
+
+  const beginSession = (session: AuthSession) => {
+    // Scope first: the effects that run for the new user read their storage through it
+    setScopeUser(session.user.id);
+    setUser(session.user);
+  };
+
+  /** Drops the signed-in user and everything loaded for them. */
+  const endSession = (notice?: string) => {
+    chatAbortRef.current?.abort();
+    setScopeUser(null);
+    setUser(null);
+    setConversations([]);
+    setActiveConversationId(null);
+    if (notice) {
+      setAuthMode('login');
+      setAuthError(notice);
+      setShowAuthModal(true);
+    }
+  };
+
+  const handleAuthSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const mockUser = { name: authMode === 'signup' ? authData.name : authData.email.split('@')[0], email: authData.email };
-    setUser(mockUser);
-    localStorage.setItem(USER_KEY, JSON.stringify(mockUser));
-    setShowAuthModal(false);
+    setAuthBusy(true);
+    setAuthError(null);
+    setAuthFieldErrors({});
+    try {
+      const session = authMode === 'signup'
+        ? await authService.signUp(authData)
+        : await authService.signIn(authData.email, authData.password);
+      if (user && user.id !== session.user.id) endSession();
+      beginSession(session);
+      setAuthData({ name: '', email: '', password: '' });
+      setShowAuthModal(false);
+    } catch (err: any) {
+      setAuthError(err.message);
+      if (err instanceof AuthError) setAuthFieldErrors(err.fields);
+    } finally {
+      setAuthBusy(false);
+    }
+  };
+
+  const switchAuthMode = () => {
+    setAuthMode(authMode === 'login' ? 'signup' : 'login');
+    setAuthError(null);
+    setAuthFieldErrors({});
+  };
+
+  const handleEvict = async (options: EvictionOptions) => {
+    try {
+      const evicted = await evictImages(options);
+      setHistory(prev => prev.filter(img => !evicted.includes(img.id)));
+      setGalleryTotal(prev => prev - evicted.length);
+      setChatAttachments(prev => prev.filter(attachment => !attachment.imageId || !evicted.includes(attachment.imageId)));
+    } catch (err: any) {
+      setError("Could not free up storage: " + err.message);
+    } finally {
+      refreshStorageUsage();
+    }
+  };
+
+  const handleDeleteImage = async (id: string) => {
+    try {
+      await deleteImages([id]);
+      setHistory(prev => prev.filter(img => img.id !== id));
+      setGalleryTotal(prev => prev - 1);
+      setChatAttachments(prev => prev.filter(attachment => attachment.imageId !== id));
+      refreshStorageUsage();
+      refreshLabels();
+    } catch (err: any) {
+      setError("Could not delete image: " + err.message);
+    }
+  };
+
+  /** Writes label changes, then mirrors them in the grid, dropping images that no longer match. */
+  const handleUpdateLabels = async (ids: string[], update: (image: ImageLabels) => ImageLabels) => {
+    try {
+      await updateImages(ids, update);
+      const changed = new Set(ids);
+      const updated = history.map(img => changed.has(img.id) ? { ...img, ...update(img) } : img);
+      const kept = updated.filter(img => !changed.has(img.id) || matchesQuery(img, galleryQuery));
+      setHistory(kept);
+      setGalleryTotal(prev => prev - (updated.length - kept.length));
+      setSelectedIds(prev => new Set([...prev].filter(id => kept.some(img => img.id === id))));
+      refreshLabels();
+    } catch (err: any) {
+      setError("Could not update images: " + err.message);
+    }
+  };
+
+  const selected = [...selectedIds];
+  const isFiltered = Boolean(galleryQuery.text || galleryQuery.aspectRatios?.length || galleryQuery.from || galleryQuery.to
+    || galleryQuery.favoritesOnly || galleryQuery.tag || galleryQuery.collectionId);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDeleteSelected = async () => {
+    try {
+      await deleteImages(selected);
+      setHistory(prev => prev.filter(img => !selectedIds.has(img.id)));
+      setGalleryTotal(prev => prev - selected.length);
+      setChatAttachments(prev => prev.filter(attachment => !attachment.imageId || !selectedIds.has(attachment.imageId)));
+      setSelectedIds(new Set());
+      refreshStorageUsage();
+      refreshLabels();
+    } catch (err: any) {
+      setError("Could not delete images: " + err.message);
+    }
+  };
+
+  const handleDownloadSelected = async () => {
+    try {
+      for (const img of history.filter(img => selectedIds.has(img.id))) {
+        await downloadImage(img);
+        // Browsers drop downloads that are triggered in the same instant
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+    } catch (err: any) {
+      setError("Could not download images: " + err.message);
+    }
+  };
+
+  const downloadArchive = async (images: GeneratedImage[], name: string) => {
+    setArchiveBusy('export');
+    try {
+      const url = URL.createObjectURL(await exportArchive(images, collections));
+      downloadUrl(url, `${name}.zip`);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError("Could not export images: " + err.message);
+    } finally {
+      setArchiveBusy(null);
+    }
+  };
+
+  /** Exports the collection being browsed, or the whole gallery. */
+  const handleExportGallery = async () => {
+    const collection = collections.find(c => c.id === galleryQuery.collectionId);
+    try {
+      const { items } = await queryImages({ collectionId: collection?.id }, 0, Number.MAX_SAFE_INTEGER);
+      if (items.length === 0) { setGalleryNotice("There is nothing to export yet."); return; }
+      const slug = collection ? collection.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() : 'gallery';
+      await downloadArchive(items, `flipart-${slug}-${new Date().toISOString().slice(0, 10)}`);
+    } catch (err: any) {
+      setError("Could not export images: " + err.message);
+    }
+  };
+
+  const handleImportArchive = async (file: File) => {
+    setArchiveBusy('import');
+    setGalleryNotice(null);
+    try {
+      const { imported, duplicates, problems } = await importArchive(file);
+      setGalleryNotice([
+        `Imported ${imported} image${imported === 1 ? '' : 's'}`,
+        duplicates ? `skipped ${duplicates} already in the gallery` : null,
+        problems.length ? `${problems.length} could not be read (${problems.slice(0, 3).join('; ')}${problems.length > 3 ? '; …' : ''})` : null
+      ].filter(Boolean).join(', ') + '.');
+      await loadGalleryPage(0);
+      refreshLabels();
+      refreshStorageUsage();
+    } catch (err: any) {
+      setError("Could not import archive: " + err.message);
+    } finally {
+      setArchiveBusy(null);
+    }
+  };
+
+  const handleMoveToCollection = (collectionId: string) => handleUpdateLabels(selected, img => ({
+    collectionIds: [...new Set([...(img.collectionIds ?? []).filter(id => id !== galleryQuery.collectionId), collectionId])]
+  }));
+
+  const handleCreateCollection = async (name: string) => {
+    try {
+      await saveCollection({ id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name, createdAt: Date.now() });
+      refreshLabels();
+    } catch (err: any) {
+      setError("Could not create collection: " + err.message);
+    }
+  };
+
+  const handleRenameCollection = async (id: string, name: string) => {
+    const collection = collections.find(c => c.id === id);
+    if (!collection) return;
+    try {
+      await saveCollection({ ...collection, name });
+      refreshLabels();
+    } catch (err: any) {
+      setError("Could not rename collection: " + err.message);
+    }
+  };
+
+  const handleDeleteCollection = async (id: string) => {
+    try {
+      await deleteCollection(id);
+      if (galleryQuery.collectionId === id) setGalleryQuery(prev => ({ ...prev, collectionId: undefined }));
+      else setHistory(prev => prev.map(img => img.collectionIds?.includes(id) ? { ...img, collectionIds: img.collectionIds.filter(c => c !== id) } : img));
+      refreshLabels();
+    } catch (err: any) {
+      setError("Could not delete collection: " + err.message);
+    }
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setActiveProvider(id);
+    setProviderId(id);
+    // Not saved, so switching back restores the model chosen for that backend
+    setSettings(loadSettings(getProvider(id).imageModels));
+    setUsingSharedSettings(false);
+    setError(null);
+    noteModelCall();
+  };
+
+  const handleOpenUsage = () => {
+    if (!user) { setShowAuthModal(true); return; }
+    navigate({ name: 'usage' });
+  };
+
+  const handleSetQuota = async (userId: string, quota: Partial<UsageQuota> | null) => {
+    try {
+      await usageService.setQuota(userId, quota);
+      refreshUsage();
+    } catch (e: any) {
+      setUsageError(e.message);
+    }
   };
 
   const handleLogout = () => {
-    setUser(null);
-    localStorage.removeItem(USER_KEY);
-    setChatMessages([{ role: 'model', text: 'Hello! I am your FlipArt Assistant. How can I help you today?' }]);
+    authService.signOut();
+    endSession();
   };
 
+  const renderGalleryItem = (img: GeneratedImage) => (
+    <div key={img.id} className="relative group">
+      <ImageCard
+        image={img}
+        onDelete={() => handleDeleteImage(img.id)}
+        onEdit={() => openEditor(img)}
+        onCanvasEdit={() => setCanvasTarget(img)}
+        onReuseLook={img.preset ? () => { handleApplyPreset(img.preset!); window.scrollTo({ top: 0, behavior: 'smooth' }); } : undefined}
+        onToggleFavorite={() => handleUpdateLabels([img.id], () => ({ favorite: !img.favorite }))}
+        onNarrate={() => openVoice({ text: '', source: 'description', image: img })}
+        onRegenerate={img.parentId ? undefined : () => handleGenerateAgain(img)}
+        onOpen={() => navigate({ name: 'image', imageId: img.id })}
+      />
+      {selectMode && (
+        <button
+          onClick={() => toggleSelected(img.id)}
+          className={`absolute inset-0 z-20 rounded-2xl transition-all ${selectedIds.has(img.id) ? 'ring-4 ring-indigo-500 bg-indigo-600/20' : 'hover:bg-white/5'}`}
+          title={selectedIds.has(img.id) ? 'Deselect' : 'Select'}
+        >
+          <span className={`absolute top-4 right-4 w-6 h-6 rounded-full border-2 flex items-center justify-center ${selectedIds.has(img.id) ? 'bg-indigo-600 border-indigo-500' : 'bg-black/40 border-white/60'}`}>
+            {selectedIds.has(img.id) && <CheckIcon className="w-4 h-4 text-white" />}
+          </span>
+        </button>
+      )}
+      <button 
+        onClick={() => { if (!chatAttachments.some(attachment => attachment.imageId === img.id)) toggleChatAttachment(img); openTab('assistant'); }}
+        className="absolute top-4 left-4 z-10 bg-black/50 hover:bg-indigo-600 text-white p-2 rounded-lg opacity-0 group-hover:opacity-100 transition-all backdrop-blur-md border border-white/10"
+        title="Analyze with AI Assistant"
+      >
+        <BrainIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-50 selection:bg-indigo-500/30 flex flex-col">
       {/* Auth Modal */}
@@ -269,30 +1640,45 @@ const App: React.FC = () => {
               <p className="text-slate-400 text-sm mt-1">Unlock your creativity with AI power</p>
             </div>
             <form onSubmit={handleAuthSubmit} className="space-y-4">
+              {authError && <p className="bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-xl text-sm">{authError}</p>}
               {authMode === 'signup' && (
+                <div>
+                  <input 
+                    type="text" required placeholder="Full Name" value={authData.name} autoComplete="name"
+                    onChange={e => setAuthData({...authData, name: e.target.value})}
+                    className={`w-full bg-slate-900 border rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500/50 outline-none ${authFieldErrors.name ? 'border-red-500/50' : 'border-white/10'}`}
+                  />
+                  {authFieldErrors.name && <p className="text-xs text-red-400 mt-1 ml-1">{authFieldErrors.name}</p>}
+                </div>
+              )}
+              <div>
                 <input 
-                  type="text" required placeholder="Full Name" value={authData.name}
-                  onChange={e => setAuthData({...authData, name: e.target.value})}
-                  className="w-full bg-slate-900 border border-white/10 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500/50 outline-none"
+                  type="email" required placeholder="Email" value={authData.email} autoComplete="email"
+                  onChange={e => setAuthData({...authData, email: e.target.value})}
+                  className={`w-full bg-slate-900 border rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500/50 outline-none ${authFieldErrors.email ? 'border-red-500/50' : 'border-white/10'}`}
                 />
-              )}
-              <input 
-                type="email" required placeholder="Email" value={authData.email}
-                onChange={e => setAuthData({...authData, email: e.target.value})}
-                className="w-full bg-slate-900 border border-white/10 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500/50 outline-none"
-              />
-              <input 
-                type="password" required placeholder="Password" value={authData.password}
-                onChange={e => setAuthData({...authData, password: e.target.value})}
-                className="w-full bg-slate-900 border border-white/10 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500/50 outline-none"
-              />
-              <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3.5 rounded-xl transition-all">
+                {authFieldErrors.email && <p className="text-xs text-red-400 mt-1 ml-1">{authFieldErrors.email}</p>}
+              </div>
+              <div>
+                <input 
+                  type="password" required placeholder="Password" value={authData.password}
+                  minLength={authMode === 'signup' ? 8 : undefined}
+                  autoComplete={authMode === 'signup' ? 'new-password' : 'current-password'}
+                  onChange={e => setAuthData({...authData, password: e.target.value})}
+                  className={`w-full bg-slate-900 border rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500/50 outline-none ${authFieldErrors.password ? 'border-red-500/50' : 'border-white/10'}`}
+                />
+                {authFieldErrors.password
+                  ? <p className="text-xs text-red-400 mt-1 ml-1">{authFieldErrors.password}</p>
+                  : authMode === 'signup' && <p className="text-xs text-slate-500 mt-1 ml-1">At least 8 characters.</p>}
+              </div>
+              <button type="submit" disabled={authBusy} className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center gap-2">
+                {authBusy && <LoaderIcon className="w-4 h-4" />}
                 {authMode === 'login' ? 'Sign In' : 'Create Account'}
               </button>
             </form>
             <p className="mt-6 text-center text-sm text-slate-500">
               {authMode === 'login' ? "Don't have an account?" : "Already have account?"}
-              <button onClick={() => setAuthMode(authMode === 'login' ? 'signup' : 'login')} className="ml-2 text-indigo-400 font-semibold hover:text-indigo-300 transition-colors">
+              <button onClick={switchAuthMode} className="ml-2 text-indigo-400 font-semibold hover:text-indigo-300 transition-colors">
                 {authMode === 'login' ? 'Sign Up' : 'Log In'}
               </button>
             </p>
@@ -300,10 +1686,30 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {editTarget && (
+        <EditImageModal
+          image={editTarget}
+          versions={editVersions}
+          onSelectVersion={setEditTarget}
+          onSubmit={handleEditImage}
+          onClose={() => setEditTarget(null)}
+        />
+      )}
+
+      {canvasTarget && (
+        <CanvasEditor
+          image={canvasTarget}
+          aspectRatios={ASPECT_RATIOS}
+          onSave={handleSaveCanvasEdit}
+          onDownload={handleDownloadCanvasEdit}
+          onClose={() => setCanvasTarget(null)}
+        />
+      )}
+
       {/* Header */}
       <nav className="sticky top-0 z-50 glass-panel border-b border-white/5">
         <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-2 cursor-pointer" onClick={() => setActiveTab('generator')}>
+          <div className="flex items-center gap-2 cursor-pointer" onClick={() => openTab('generator')}>
             <div className="w-8 h-8 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg flex items-center justify-center shadow-lg shadow-indigo-500/20">
               <SparklesIcon className="w-5 h-5 text-white" />
             </div>
@@ -313,34 +1719,55 @@ const App: React.FC = () => {
           <div className="flex gap-2 sm:gap-6 items-center">
             <div className="flex gap-1 bg-slate-900/50 p-1 rounded-xl border border-white/5">
               <button 
-                onClick={() => setActiveTab('generator')}
+                onClick={() => openTab('generator')}
                 className={`flex items-center gap-2 px-3 sm:px-4 py-1.5 rounded-lg transition-all text-xs sm:text-sm font-medium ${activeTab === 'generator' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}
               >
                 <ImageIcon className="w-4 h-4" />
                 <span className="hidden md:inline">Lab</span>
               </button>
               <button 
-                onClick={() => setActiveTab('audio')}
+                onClick={() => openTab('audio')}
                 className={`flex items-center gap-2 px-3 sm:px-4 py-1.5 rounded-lg transition-all text-xs sm:text-sm font-medium ${activeTab === 'audio' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}
               >
                 <MicIcon className="w-4 h-4" />
                 <span className="hidden md:inline">Audio</span>
               </button>
               <button 
-                onClick={() => setActiveTab('assistant')}
+                onClick={() => openTab('voice')}
+                className={`flex items-center gap-2 px-3 sm:px-4 py-1.5 rounded-lg transition-all text-xs sm:text-sm font-medium ${activeTab === 'voice' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}
+              >
+                <SpeakerIcon className="w-4 h-4" />
+                <span className="hidden md:inline">Voice</span>
+              </button>
+              <button 
+                onClick={() => openTab('storyboard')}
+                className={`flex items-center gap-2 px-3 sm:px-4 py-1.5 rounded-lg transition-all text-xs sm:text-sm font-medium ${activeTab === 'storyboard' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}
+              >
+                <ClapperboardIcon className="w-4 h-4" />
+                <span className="hidden md:inline">Storyboard</span>
+              </button>
+              <button 
+                onClick={() => openTab('assistant')}
                 className={`flex items-center gap-2 px-3 sm:px-4 py-1.5 rounded-lg transition-all text-xs sm:text-sm font-medium ${activeTab === 'assistant' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}
               >
                 <BrainIcon className="w-4 h-4" />
                 <span className="hidden md:inline">Assistant</span>
               </button>
+              <button 
+                onClick={handleOpenUsage}
+                className={`flex items-center gap-2 px-3 sm:px-4 py-1.5 rounded-lg transition-all text-xs sm:text-sm font-medium ${activeTab === 'usage' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}
+              >
+                <ChartIcon className="w-4 h-4" />
+                <span className="hidden md:inline">Usage</span>
+              </button>
             </div>
 
             {user ? (
               <div className="flex items-center gap-3">
-                <button onClick={handleLogout} className="p-2 text-slate-400 hover:text-red-400 transition-colors">
+                <button onClick={handleLogout} className="p-2 text-slate-400 hover:text-red-400 transition-colors" title="Sign out">
                   <LogOutIcon className="w-5 h-5" />
                 </button>
-                <div className="w-10 h-10 rounded-full bg-slate-800 border border-white/10 flex items-center justify-center overflow-hidden">
+                <div className="w-10 h-10 rounded-full bg-slate-800 border border-white/10 flex items-center justify-center overflow-hidden" title={`${user.name} (${user.email})`}>
                   <UserIcon className="w-5 h-5 text-slate-400" />
                 </div>
               </div>
@@ -354,8 +1781,55 @@ const App: React.FC = () => {
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 py-8 md:py-12 w-full flex-grow flex flex-col">
-        {activeTab === 'generator' && (
-          <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+        {activeTab !== 'usage' && usage && usage.warnings.length > 0 && (
+          <button
+            onClick={handleOpenUsage}
+            className="mb-6 w-full text-left text-sm text-amber-300 bg-amber-500/10 border border-amber-500/20 rounded-xl px-4 py-3 hover:bg-amber-500/20 transition-colors"
+          >
+            {usage.warnings.join(' ')} <span className="underline">See usage</span>
+          </button>
+        )}
+
+        {activeTab === 'usage' && !user && (
+          <div className="text-center py-24 text-slate-500">Sign in to see usage.</div>
+        )}
+
+        {activeTab === 'usage' && user && (
+          <UsagePanel
+            summary={usage}
+            loading={usageLoading}
+            error={usageError}
+            metered={providerId === 'gemini'}
+            onRefresh={refreshUsage}
+            onSetQuota={handleSetQuota}
+          />
+        )}
+
+        {route.name === 'image' && (user && galleryReady ? (
+          <ImageDetail
+            key={route.imageId}
+            imageId={route.imageId}
+            onBack={() => navigate({ name: 'generator' })}
+            onOpenImage={(id) => navigate({ name: 'image', imageId: id })}
+            onOpenInLab={(img) => navigate({ name: 'generator', share: { prompt: img.prompt, settings: img.settings } })}
+            onGenerateAgain={(img) => { handleGenerateAgain(img); navigate({ name: 'generator' }); }}
+          />
+        ) : (
+          <div className="text-center py-24 text-slate-500">{user ? <LoaderIcon className="w-8 h-8 mx-auto" /> : 'Sign in to see this image.'}</div>
+        ))}
+
+        {route.name === 'generator' && (
+          <div
+            className="relative animate-in fade-in slide-in-from-bottom-4 duration-500"
+            onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setIsDraggingFile(true); } }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false); }}
+            onDrop={handleDropFile}
+          >
+            {isDraggingFile && (
+              <div className="pointer-events-none fixed inset-4 z-40 rounded-3xl border-2 border-dashed border-indigo-400 bg-indigo-500/10 backdrop-blur-sm flex items-center justify-center text-lg font-bold text-indigo-200">
+                Drop images to use as references, or a FlipArt image to read its settings
+              </div>
+            )}
             <section className="text-center mb-16 max-w-3xl mx-auto">
               <h1 className="text-4xl md:text-6xl font-extrabold mb-6 leading-tight">
                 AI Powered <span className="gradient-text">Art Studio</span>
@@ -364,31 +1838,63 @@ const App: React.FC = () => {
                 <div className="relative group">
                   <div className="p-1 rounded-3xl bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 transition-all duration-500 group-focus-within:shadow-[0_0_30px_rgba(99,102,241,0.3)]">
                     <div className="flex flex-col md:flex-row gap-2 bg-slate-900 rounded-[22px] p-2">
-                      <input
-                        type="text"
-                        value={prompt}
-                        onChange={(e) => setPrompt(e.target.value)}
-                        placeholder="Describe your vision... e.g., 'Portrait of a cyber-samurai in rain'"
-                        className="flex-1 bg-transparent border-none focus:ring-0 text-lg px-4 py-4 text-white outline-none"
-                        disabled={isGenerating}
+                      {batchMode ? (
+                        <textarea
+                          value={batchPrompts}
+                          onChange={(e) => setBatchPrompts(e.target.value)}
+                          onPaste={handleLabPaste}
+                          placeholder={"One prompt per line...\nA lighthouse in a storm\nThe same lighthouse at dawn"}
+                          rows={4}
+                          className="flex-1 bg-transparent border-none focus:ring-0 text-base px-4 py-3 text-white outline-none resize-none"
+                        />
+                      ) : (
+                        <input
+                          type="text"
+                          value={prompt}
+                          onChange={(e) => setPrompt(e.target.value)}
+                          onPaste={handleLabPaste}
+                          placeholder={composerOpen ? "Subject... e.g., 'a cyber-samurai in the rain'" : "Describe your vision... e.g., 'Portrait of a cyber-samurai in rain'"}
+                          className="flex-1 bg-transparent border-none focus:ring-0 text-lg px-4 py-4 text-white outline-none"
+                        />
+                      )}
+                      <ImageUploadButton
+                        onFiles={addReferences}
+                        disabled={references.length >= MAX_REFERENCES}
+                        className="flex items-center justify-center px-4 py-3 rounded-xl border border-white/10 text-slate-400 hover:text-white hover:border-indigo-500/50 disabled:opacity-50 transition-all"
+                        title="Add reference images for style or subject"
                       />
+                      {!batchMode && (
+                        <PushToTalkButton
+                          onRecorded={handleVoiceRecorded}
+                          onError={(message) => setError(message)}
+                          disabled={spokenPrompt?.busy != null}
+                        />
+                      )}
                       <button
                         type="submit"
-                        disabled={isGenerating || !prompt.trim()}
+                        disabled={(batchMode ? !batchPrompts.trim() : !prompt.trim()) || !settingsValid}
                         className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold py-3 px-8 rounded-xl transition-all flex items-center justify-center gap-2"
                       >
                         {isGenerating ? <LoaderIcon className="w-5 h-5" /> : <SparklesIcon className="w-5 h-5" />}
-                        {isGenerating ? 'Creating...' : 'Generate'}
+                        {isGenerating ? 'Queue' : 'Generate'}
                       </button>
                     </div>
                   </div>
                 </div>
+                {references.length > 0 && (
+                  <ReferenceTray
+                    references={references}
+                    max={MAX_REFERENCES}
+                    onRoleChange={(id, role) => setReferences(prev => prev.map(reference => reference.upload.id === id ? { ...reference, role } : reference))}
+                    onRemove={(id) => setReferences(prev => prev.filter(reference => reference.upload.id !== id))}
+                  />
+                )}
                 <div className="mt-6 flex flex-wrap justify-center gap-3">
                   {ASPECT_RATIOS.map((ratio) => (
                     <button
                       key={ratio.value}
                       type="button"
-                      onClick={() => setSettings({ aspectRatio: ratio.value })}
+                      onClick={() => updateSettings({ aspectRatio: ratio.value })}
                       className={`text-xs px-4 py-2 rounded-full border transition-all ${
                         settings.aspectRatio === ratio.value 
                           ? 'bg-indigo-600 border-indigo-500 text-white' 
@@ -399,39 +1905,206 @@ const App: React.FC = () => {
                     </button>
                   ))}
                 </div>
+                <div className="mt-4 flex flex-wrap justify-center items-center gap-3 text-xs text-slate-500">
+                  <span>Variations</span>
+                  {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => (
+                    <button
+                      key={n}
+                      type="button"
+                      onClick={() => setVariations(n)}
+                      className={`w-8 h-8 rounded-full border transition-all ${variations === n ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 hover:border-white/20'}`}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setBatchMode(!batchMode)}
+                    className={`ml-2 px-4 py-2 rounded-full border transition-all ${batchMode ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 hover:border-white/20'}`}
+                  >
+                    Prompt list
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setComposerOpen(!composerOpen)}
+                    className={`px-4 py-2 rounded-full border transition-all ${composerOpen ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 hover:border-white/20'}`}
+                  >
+                    Composer{activePreset && composerOpen ? `: ${activePreset.name}` : ''}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSettingsOpen(!settingsOpen)}
+                    className={`px-4 py-2 rounded-full border transition-all ${settingsOpen ? 'bg-indigo-600 border-indigo-500 text-white' : settingsValid ? 'bg-slate-900/50 border-white/5 hover:border-white/20' : 'bg-red-500/10 border-red-500/40 text-red-300'}`}
+                    title={imageModels.find(m => m.id === settings.model)?.label ?? settings.model}
+                  >
+                    Settings
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => openVoice({ text: composerOpen && hasModifiers(modifiers) ? compilePrompt(composerSubject, modifiers) : composerSubject, source: 'prompt' })}
+                    disabled={!composerSubject.trim()}
+                    className="flex items-center gap-1 px-4 py-2 rounded-full border bg-slate-900/50 border-white/5 hover:border-white/20 disabled:opacity-50 transition-all"
+                    title="Read the prompt aloud in the Voice studio"
+                  >
+                    <SpeakerIcon className="w-3 h-3" />Narrate
+                  </button>
+                  <CopyLinkButton
+                    getUrl={() => shareUrl({ prompt: composerOpen && hasModifiers(modifiers) ? compilePrompt(composerSubject, modifiers) : composerSubject, settings })}
+                    disabled={!composerSubject.trim()}
+                    className="flex items-center gap-1 px-4 py-2 rounded-full border bg-slate-900/50 border-white/5 hover:border-white/20 disabled:opacity-50 transition-all"
+                  />
+                </div>
               </form>
+              {spokenPrompt && (
+                <VoicePromptReview
+                  audioUrl={spokenPrompt.url}
+                  duration={spokenPrompt.duration}
+                  transcript={spokenPrompt.transcript}
+                  text={spokenPrompt.text}
+                  onTextChange={(text) => updateSpokenPrompt(spokenPrompt.id, { text })}
+                  expand={expandVoice}
+                  onExpandChange={handleExpandVoiceChange}
+                  busy={spokenPrompt.busy}
+                  error={spokenPrompt.error}
+                  onGenerate={handleGenerateSpoken}
+                  onDiscard={discardSpokenPrompt}
+                />
+              )}
+              {usingSharedSettings && (
+                <div className="mt-6 text-left flex flex-wrap items-center justify-between gap-3 bg-indigo-500/10 border border-indigo-500/20 text-indigo-200 p-4 rounded-xl text-sm">
+                  <span>Using the shared settings for this visit, with a random seed. Your saved settings are unchanged.</span>
+                  <div className="flex gap-3">
+                    <button onClick={keepSharedSettings} className="font-bold text-indigo-300 hover:text-white">Keep them</button>
+                    <button onClick={restoreSavedSettings} className="text-slate-400 hover:text-white">Use mine</button>
+                  </div>
+                </div>
+              )}
+              {settingsOpen && (
+                <GenerationSettingsPanel
+                  settings={settings}
+                  models={imageModels}
+                  errors={settingsErrors}
+                  onChange={updateSettings}
+                  onClose={() => setSettingsOpen(false)}
+                />
+              )}
+              {composerOpen && (
+                <PromptComposer
+                  key={user?.id ?? 'signed-out'}
+                  modifiers={modifiers}
+                  onModifiersChange={handleModifiersChange}
+                  activePresetId={activePreset?.id ?? null}
+                  onApplyPreset={handleApplyPreset}
+                  onApplyTemplate={handleApplyTemplate}
+                  subject={composerSubject}
+                  preview={composerSubject.trim() ? compilePrompt(composerSubject, modifiers) : ''}
+                />
+              )}
+              {droppedImage && (
+                <DroppedImagePanel
+                  fileName={droppedImage.file.name}
+                  previewUrl={droppedImage.url}
+                  metadata={droppedImage.metadata}
+                  onRecreate={handleRecreate}
+                  onAddToGallery={handleAddDroppedImage}
+                  onUseAsReference={handleUseDroppedAsReference}
+                  onClose={closeDroppedImage}
+                />
+              )}
             </section>
             {error && <div className="max-w-xl mx-auto mb-8 bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-center">{error}</div>}
-            {isGenerating && (
-              <div className="max-w-2xl mx-auto mb-16 animate-pulse">
-                <div className="bg-slate-900 aspect-square rounded-3xl border border-white/5 flex items-center justify-center">
-                  <LoaderIcon className="w-12 h-12 text-indigo-500" />
-                </div>
-              </div>
-            )}
+            <QueuePanel
+              queue={queueState}
+              onCancelJob={queue.cancelJob}
+              onCancelBatch={queue.cancelBatch}
+              onRetryJob={queue.retryJob}
+              onClearFinished={queue.clearFinished}
+            />
             <section id="history">
-              <div className="flex items-center gap-2 mb-8 text-xl font-bold">
-                <HistoryIcon className="text-indigo-400" />
-                <h2>Recent Works</h2>
+              <div className="flex items-center justify-between mb-8">
+                <div className="flex items-center gap-2 text-xl font-bold">
+                  <HistoryIcon className="text-indigo-400" />
+                  <h2>{galleryQuery.collectionId ? collections.find(c => c.id === galleryQuery.collectionId)?.name ?? 'Collection' : 'Recent Works'}</h2>
+                  {galleryTotal > 0 && <span className="text-sm font-medium text-slate-500">({galleryTotal})</span>}
+                </div>
+                {user && <div className="flex items-center gap-4 text-xs">
+                  <button onClick={handleExportGallery} disabled={archiveBusy !== null} className="flex items-center gap-1 text-slate-500 hover:text-white disabled:opacity-50 transition-colors" title="Download as a ZIP with a metadata manifest">
+                    {archiveBusy === 'export' ? <LoaderIcon className="w-3 h-3" /> : <DownloadIcon className="w-3 h-3" />}
+                    Export {galleryQuery.collectionId ? 'collection' : 'gallery'}
+                  </button>
+                  <button onClick={() => archiveInputRef.current?.click()} disabled={archiveBusy !== null} className="flex items-center gap-1 text-slate-500 hover:text-white disabled:opacity-50 transition-colors">
+                    {archiveBusy === 'import' && <LoaderIcon className="w-3 h-3" />}
+                    Import
+                  </button>
+                  <input
+                    ref={archiveInputRef} type="file" accept=".zip,application/zip" className="hidden"
+                    onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportArchive(file); }}
+                  />
+                  <button onClick={() => { setShowStorage(!showStorage); refreshStorageUsage(); }} className="text-slate-500 hover:text-white transition-colors">
+                    Storage{storageUsage ? ` · ${formatBytes(storageUsage.galleryBytes)}` : ''}
+                  </button>
+                </div>}
               </div>
+              {galleryNotice && (
+                <div className="mb-6 flex items-start justify-between gap-4 bg-indigo-500/10 border border-indigo-500/20 text-indigo-200 p-4 rounded-xl text-sm">
+                  <span>{galleryNotice}</span>
+                  <button onClick={() => setGalleryNotice(null)} className="text-indigo-300 hover:text-white"><XIcon className="w-4 h-4" /></button>
+                </div>
+              )}
+              {showStorage && <StoragePanel usage={storageUsage} onEvict={handleEvict} onClose={() => setShowStorage(false)} />}
+              <GalleryToolbar
+                query={galleryQuery}
+                onQueryChange={setGalleryQuery}
+                tags={tags}
+                collections={collections}
+                onCreateCollection={handleCreateCollection}
+                onRenameCollection={handleRenameCollection}
+                onDeleteCollection={handleDeleteCollection}
+                selectMode={selectMode}
+                onToggleSelectMode={() => { setSelectMode(!selectMode); setSelectedIds(new Set()); }}
+              />
+              {selectMode && (
+                <SelectionBar
+                  count={selectedIds.size}
+                  collections={collections}
+                  currentCollectionId={galleryQuery.collectionId}
+                  onSelectAll={() => setSelectedIds(new Set(history.map(img => img.id)))}
+                  onClear={() => setSelectedIds(new Set())}
+                  onFavorite={(favorite) => handleUpdateLabels(selected, () => ({ favorite }))}
+                  onAddTag={(tag) => handleUpdateLabels(selected, img => ({ tags: [...new Set([...(img.tags ?? []), tag])] }))}
+                  onRemoveTag={(tag) => handleUpdateLabels(selected, img => ({ tags: img.tags?.filter(t => t !== tag) }))}
+                  onMoveToCollection={handleMoveToCollection}
+                  onRemoveFromCollection={() => handleUpdateLabels(selected, img => ({ collectionIds: img.collectionIds?.filter(id => id !== galleryQuery.collectionId) }))}
+                  onDownload={handleDownloadSelected}
+                  onExport={() => downloadArchive(history.filter(img => selectedIds.has(img.id)), `flipart-selection-${new Date().toISOString().slice(0, 10)}`)}
+                  onDelete={handleDeleteSelected}
+                />
+              )}
               {history.length === 0 ? (
                 <div className="text-center py-20 border-2 border-dashed border-white/5 rounded-3xl">
-                   <p className="text-slate-500">Your gallery is empty. Start generating!</p>
+                   <p className="text-slate-500">{!user ? 'Sign in to see your gallery.' : isFiltered ? 'No images match these filters.' : 'Your gallery is empty. Start generating!'}</p>
                 </div>
               ) : (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                  {history.map(img => (
-                    <div key={img.id} className="relative group">
-                      <ImageCard image={img} />
-                      <button 
-                        onClick={() => { setAttachedImage(img); setActiveTab('assistant'); }}
-                        className="absolute top-4 left-4 z-10 bg-black/50 hover:bg-indigo-600 text-white p-2 rounded-lg opacity-0 group-hover:opacity-100 transition-all backdrop-blur-md border border-white/10"
-                        title="Analyze with AI Assistant"
-                      >
-                        <BrainIcon className="w-4 h-4" />
-                      </button>
-                    </div>
-                  ))}
+                  {/* Batches are grouped only in the default order; other sorts would split them anyway */}
+                  {(galleryQuery.sort === 'newest' ? groupByBatch(history) : history.map(img => ({ batchId: undefined, images: [img] }))).map(group => group.images.length > 1 ? (
+                    <React.Fragment key={group.batchId}>
+                      <div className="col-span-full flex items-center gap-3 text-sm text-slate-400 border-b border-white/5 pb-2 mt-2">
+                        <span className="font-semibold text-slate-300 truncate">
+                          {group.images.every(img => img.prompt === group.images[0].prompt) ? group.images[0].prompt : 'Batch'}
+                        </span>
+                        <span className="text-xs text-slate-500 flex-shrink-0">{group.images.length} images · {new Date(group.images[0].timestamp).toLocaleDateString()}</span>
+                      </div>
+                      {group.images.map(renderGalleryItem)}
+                    </React.Fragment>
+                  ) : group.images.map(renderGalleryItem))}
+                </div>
+              )}
+              {nextOffset !== null && (
+                <div className="mt-8 flex justify-center">
+                  <button onClick={() => loadGalleryPage(nextOffset).catch(e => setError("Could not load more images: " + e.message))} className="text-sm px-6 py-3 rounded-xl border border-white/10 bg-slate-900/50 text-slate-300 hover:border-white/20 transition-all">
+                    Load more ({galleryTotal - history.length} remaining)
+                  </button>
                 </div>
               )}
             </section>
@@ -446,18 +2119,40 @@ const App: React.FC = () => {
             </section>
             <div className="glass-panel rounded-3xl p-8 border border-white/10 flex flex-col items-center gap-6">
               <input type="file" accept="audio/*" className="hidden" ref={audioInputRef} onChange={onAudioFileChange} />
-              {!audioFile ? (
-                <button onClick={() => audioInputRef.current?.click()} className="w-full max-w-md aspect-video border-2 border-dashed border-white/10 rounded-2xl flex flex-col items-center justify-center gap-4 hover:border-indigo-500/50 transition-all group">
-                  <div className="w-16 h-16 rounded-full bg-indigo-600/10 flex items-center justify-center group-hover:scale-110 transition-transform"><MicIcon className="w-8 h-8 text-indigo-400" /></div>
-                  <div className="text-center"><p className="font-bold">Click to Upload Audio</p><p className="text-xs text-slate-500 mt-1">WAV, MP3, M4A up to 25MB</p></div>
-                </button>
+              {isRecording ? (
+                <AudioRecorderPanel
+                  onRecorded={onRecorded}
+                  onCancel={() => setIsRecording(false)}
+                  onError={(message) => { setIsRecording(false); setAudioError(message); }}
+                />
+              ) : isAudioLoading ? (
+                <div className="w-full max-w-md aspect-video rounded-2xl border border-white/5 flex flex-col items-center justify-center gap-3 text-slate-400">
+                  <LoaderIcon className="w-8 h-8" /><p className="text-sm">Reading audio...</p>
+                </div>
+              ) : !audioClip ? (
+                <div className="w-full max-w-md flex flex-col gap-3">
+                  <button onClick={() => audioInputRef.current?.click()} className="w-full aspect-video border-2 border-dashed border-white/10 rounded-2xl flex flex-col items-center justify-center gap-4 hover:border-indigo-500/50 transition-all group">
+                    <div className="w-16 h-16 rounded-full bg-indigo-600/10 flex items-center justify-center group-hover:scale-110 transition-transform"><MusicIcon className="w-8 h-8 text-indigo-400" /></div>
+                    <div className="text-center"><p className="font-bold">Click to Upload Audio</p><p className="text-xs text-slate-500 mt-1">WAV, MP3, M4A up to 25 MB and 7 minutes</p></div>
+                  </button>
+                  <button onClick={() => { setAudioError(null); setIsRecording(true); }} className="w-full flex items-center justify-center gap-2 py-3 rounded-2xl border border-white/10 hover:border-indigo-500/50 text-sm font-bold text-slate-300 transition-all">
+                    <MicIcon className="w-5 h-5 text-indigo-400" />Record from Microphone
+                  </button>
+                </div>
               ) : (
                 <div className="w-full space-y-6">
                   <div className="flex items-center justify-between p-4 bg-slate-900/50 rounded-2xl border border-white/5">
-                    <div className="flex items-center gap-4"><MusicIcon className="text-indigo-400 w-6 h-6" /><div className="overflow-hidden"><p className="text-sm font-bold truncate max-w-[200px]">{audioFile.name}</p><p className="text-xs text-slate-500">{(audioFile.size / 1024 / 1024).toFixed(2)} MB</p></div></div>
-                    <button onClick={() => setAudioFile(null)} className="text-slate-500 hover:text-red-400 transition-colors"><XIcon className="w-5 h-5" /></button>
+                    <div className="flex items-center gap-4"><MusicIcon className="text-indigo-400 w-6 h-6" /><div className="overflow-hidden"><p className="text-sm font-bold truncate max-w-[200px]">{audioClip.file.name}</p><p className="text-xs text-slate-500">{(audioClip.file.size / 1024 / 1024).toFixed(2)} MB · {formatDuration(audioClip.buffer.duration)}</p></div></div>
+                    <button onClick={clearAudio} className="text-slate-500 hover:text-red-400 transition-colors"><XIcon className="w-5 h-5" /></button>
                   </div>
-                  <div className="flex justify-center">
+                  <WaveformTrimmer peaks={audioClip.peaks} duration={audioClip.buffer.duration} range={trim} onChange={onTrimChange} disabled={isAudioProcessing} />
+                  <EnhancementControls settings={enhancementSettings} onChange={setEnhancementSettings} disabled={isAudioProcessing} />
+                  <div className="flex justify-center gap-3">
+                    {audioResult?.enhancement && (
+                      <button onClick={handleReapplyEnhancement} disabled={isAudioProcessing} className="border border-white/10 hover:border-indigo-500/50 disabled:opacity-50 text-slate-300 font-bold py-4 px-8 rounded-2xl transition-all">
+                        Re-apply Settings
+                      </button>
+                    )}
                     <button onClick={handleAudioEnhance} disabled={isAudioProcessing} className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold py-4 px-12 rounded-2xl transition-all shadow-lg shadow-indigo-600/20 flex items-center gap-3">
                       {isAudioProcessing ? <LoaderIcon className="w-6 h-6" /> : <SparklesIcon className="w-6 h-6" />}
                       {isAudioProcessing ? 'Processing Audio...' : 'Enhance Voice & Remove Noise'}
@@ -465,83 +2160,218 @@ const App: React.FC = () => {
                   </div>
                 </div>
               )}
+              {audioError && <div className="w-full bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-center text-sm">{audioError}</div>}
               {audioResult && (
                 <div className="w-full space-y-6 animate-in fade-in slide-in-from-top-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div className="bg-slate-900/80 p-6 rounded-2xl border border-white/5">
                       <h3 className="text-sm font-bold mb-4 flex items-center gap-2"><span className="w-2 h-2 bg-slate-500 rounded-full"></span>Original Recording</h3>
-                      <audio controls src={audioResult.original} className="w-full h-10" />
+                      <audio ref={originalPlayerRef} controls src={audioResult.original} className="w-full h-10" {...trackPlayer} />
                     </div>
                     <div className="bg-indigo-600/5 p-6 rounded-2xl border border-indigo-500/20">
-                      <h3 className="text-sm font-bold mb-4 flex items-center gap-2 text-indigo-400"><span className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse"></span>AI Enhanced Voice</h3>
-                      <audio controls src={audioResult.enhanced} className="w-full h-10" />
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-sm font-bold flex items-center gap-2 text-indigo-400"><span className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse"></span>Enhanced Voice</h3>
+                        {audioResult.enhancement && (
+                          <a href={audioResult.enhancement.url} download={`${audioFile?.name.replace(/\.[^.]+$/, '') ?? 'flipart-audio'}-enhanced.wav`} className="text-indigo-400 hover:text-indigo-300 transition-colors" title="Download Enhanced WAV">
+                            <DownloadIcon className="w-4 h-4" />
+                          </a>
+                        )}
+                      </div>
+                      {audioResult.enhancement
+                        ? <audio ref={enhancedPlayerRef} controls src={audioResult.enhancement.url} className="w-full h-10" {...trackPlayer} />
+                        : <p className="text-xs text-slate-500">Enhancement unavailable for this file.</p>}
                     </div>
                   </div>
-                  <div className="bg-slate-900/50 p-6 rounded-2xl border border-white/5">
-                    <h3 className="text-sm font-bold mb-4 flex items-center gap-2"><BrainIcon className="w-4 h-4 text-indigo-400" />AI Analysis & Transcription</h3>
-                    <div className="text-sm text-slate-300 leading-relaxed whitespace-pre-wrap">{audioResult.transcription}</div>
-                  </div>
+                  {audioResult.enhancement && (
+                    <div className="bg-slate-900/50 p-6 rounded-2xl border border-white/5 grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <SpectrogramView spectrogram={audioResult.enhancement.before} label="Before" />
+                      <SpectrogramView spectrogram={audioResult.enhancement.after} label="After" />
+                    </div>
+                  )}
+                  {audioResult.analysis ? (
+                    <TranscriptView
+                      analysis={audioResult.analysis}
+                      currentTime={audioTime}
+                      onSeek={seekAudio}
+                      fileName={audioFile?.name.replace(/\.[^.]+$/, '') ?? 'flipart-transcript'}
+                    />
+                  ) : (
+                    <div className="bg-slate-900/50 p-6 rounded-2xl border border-white/5">
+                      <h3 className="text-sm font-bold mb-4 flex items-center gap-2"><BrainIcon className="w-4 h-4 text-indigo-400" />AI Analysis & Transcription</h3>
+                      <p className="text-sm text-slate-400">{audioResult.analysisError ?? "Analysis unavailable: no response from the model."}</p>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           </div>
         )}
 
+        {activeTab === 'voice' && (
+          <VoiceStudio
+            key={user?.id ?? 'signed-out'}
+            draft={voiceDraft}
+            clips={speechClips}
+            onNarrate={handleNarrate}
+            onDescribe={handleDescribeImage}
+            onDeleteClip={handleDeleteClip}
+          />
+        )}
+
+        {activeTab === 'storyboard' && (user && galleryReady ? (
+          <StoryboardStudio key={user.id} aspectRatios={ASPECT_RATIOS} onGeneratePanel={handleGeneratePanel} />
+        ) : (
+          <div className="text-center py-24 text-slate-500">{user ? <LoaderIcon className="w-8 h-8 mx-auto" /> : 'Sign in to build storyboards.'}</div>
+        ))}
+
         {activeTab === 'assistant' && (
           <div className="flex-grow flex flex-col md:flex-row gap-6 h-[70vh] animate-in slide-in-from-right-4 duration-500">
-            <div className="hidden lg:flex flex-col w-64 glass-panel rounded-3xl border border-white/5 overflow-hidden">
-              <div className="p-4 border-b border-white/5 font-bold text-sm text-slate-400">Context Gallery</div>
-              <div className="flex-grow overflow-y-auto p-4 space-y-4">
-                {history.map(img => (
-                  <button key={img.id} onClick={() => setAttachedImage(img)} className={`relative w-full aspect-square rounded-xl overflow-hidden border-2 transition-all ${attachedImage?.id === img.id ? 'border-indigo-500 ring-2 ring-indigo-500/20' : 'border-transparent hover:border-white/20'}`}><img src={img.url} className="w-full h-full object-cover" /></button>
-                ))}
-              </div>
-            </div>
-            <div className="flex-grow flex flex-col glass-panel rounded-3xl border border-white/5 overflow-hidden shadow-2xl relative">
+            <ConversationSidebar
+              conversations={sortConversations(conversations)}
+              activeId={activeConversationId}
+              busyId={chattingId}
+              onSelect={(id) => { showConversation(id); setEditingMessage(null); }}
+              onCreate={handleNewConversation}
+              onRename={(id, title) => updateConversation(id, () => ({ title }))}
+              onTogglePin={(id) => updateConversation(id, c => ({ pinned: !c.pinned }))}
+              onDelete={handleDeleteConversation}
+            />
+            <div
+              className="flex-grow flex flex-col glass-panel rounded-3xl border border-white/5 overflow-hidden shadow-2xl relative"
+              onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setIsDraggingChatFile(true); } }}
+              onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingChatFile(false); }}
+              onDrop={handleChatDrop}
+            >
+              {isDraggingChatFile && (
+                <div className="pointer-events-none absolute inset-2 z-30 rounded-3xl border-2 border-dashed border-indigo-400 bg-indigo-500/10 backdrop-blur-sm flex items-center justify-center text-lg font-bold text-indigo-200">
+                  Drop images to attach them
+                </div>
+              )}
               <div className="bg-slate-900/80 p-6 border-b border-white/5 flex items-center justify-between backdrop-blur-xl">
                 <div className="flex items-center gap-3">
                   <div className="w-10 h-10 rounded-xl bg-indigo-600 flex items-center justify-center"><BrainIcon className="w-6 h-6 text-white" /></div>
-                  <div><h2 className="font-bold">AI Assistant</h2><p className="text-xs text-indigo-400 font-medium">Expert in Art & Prompts</p></div>
+                  <div className="min-w-0"><h2 className="font-bold truncate">{activeConversation?.title ?? 'AI Assistant'}</h2><p className="text-xs text-indigo-400 font-medium">Expert in Art & Prompts</p></div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer" title="Ask before the assistant generates or edits an image">
+                    <input type="checkbox" checked={confirmTools} onChange={(e) => handleConfirmToolsChange(e.target.checked)} className="accent-indigo-500" />
+                    Confirm generations
+                  </label>
+                  <button onClick={handleClearConversation} className="text-xs text-slate-500 hover:text-white transition-colors">Clear History</button>
                 </div>
-                <button onClick={() => setChatMessages([])} className="text-xs text-slate-500 hover:text-white transition-colors">Clear History</button>
               </div>
               <div className="flex-grow overflow-y-auto p-6 space-y-6 scrollbar-hide">
                 {chatMessages.map((msg, i) => (
-                  <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in duration-300`}>
+                  <div key={msg.id} className={`group flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in duration-300`}>
                     <div className={`flex gap-3 max-w-[85%] ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
                       <div className={`w-8 h-8 rounded-lg flex-shrink-0 flex items-center justify-center ${msg.role === 'user' ? 'bg-slate-800' : 'bg-indigo-600/20 border border-indigo-500/30'}`}>{msg.role === 'user' ? <UserIcon className="w-4 h-4" /> : <BrainIcon className="w-4 h-4 text-indigo-400" />}</div>
                       <div className="space-y-2">
-                        {msg.image && <div className="w-48 rounded-xl overflow-hidden border border-white/10 shadow-lg"><img src={msg.image} className="w-full h-auto" /></div>}
-                        <div className={`rounded-2xl px-4 py-3 text-sm leading-relaxed ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-900 border border-white/5 text-slate-200 shadow-inner'}`}>{msg.text}</div>
+                        {msg.attachments && msg.attachments.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {msg.attachments.map((attachment, i) => (
+                              <div key={i} className={`${msg.attachments!.length > 1 ? 'w-32' : 'w-48'} rounded-xl overflow-hidden border border-white/10 shadow-lg`}><img src={attachment.url} alt={attachment.name} className="w-full h-auto" /></div>
+                            ))}
+                          </div>
+                        )}
+                        {editingMessage?.id === msg.id ? (
+                          <form onSubmit={handleEditResend} className="space-y-2">
+                            <textarea
+                              autoFocus value={editingMessage.text} rows={3}
+                              onChange={e => setEditingMessage({ id: msg.id, text: e.target.value })}
+                              className="w-72 bg-slate-950 border border-indigo-500/50 rounded-2xl px-4 py-3 text-sm text-white outline-none resize-none"
+                            />
+                            <div className="flex justify-end gap-2 text-xs">
+                              <button type="button" onClick={() => setEditingMessage(null)} className="px-3 py-1.5 text-slate-400 hover:text-white transition-colors">Cancel</button>
+                              <button type="submit" className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-bold transition-all">Send</button>
+                            </div>
+                          </form>
+                        ) : (msg.text || (!msg.toolCalls && !msg.error)) && (
+                          <div className={`rounded-2xl px-4 py-3 text-sm leading-relaxed whitespace-pre-wrap ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-900 border border-white/5 text-slate-200 shadow-inner'}`}>
+                            {msg.status === 'streaming' && !msg.text
+                              ? <span className="flex items-center gap-2 text-xs text-slate-400"><LoaderIcon className="w-4 h-4 text-indigo-500" />Analyzing...</span>
+                              : msg.text}
+                            {msg.status === 'streaming' && msg.text && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-indigo-400 animate-pulse" />}
+                          </div>
+                        )}
+                        {msg.toolCalls?.map(call => (
+                          <ToolCallCard key={call.id} call={call} onDecide={(approved) => handleToolDecision(call.id, approved)} />
+                        ))}
+                        {msg.status === 'stopped' && <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Stopped</p>}
+                        {msg.status === 'error' && msg.error && <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl px-3 py-2">{msg.error}</p>}
+                        {msg.role === 'model' && msg.text && !msg.status && (
+                          <div className="flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => openVoice({ text: msg.text, source: 'assistant' })} className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-400 transition-colors" title="Read this answer aloud">
+                              <SpeakerIcon className="w-3 h-3" />Listen
+                            </button>
+                          </div>
+                        )}
+                        {msg.role === 'user' && !isChatting && editingMessage?.id !== msg.id && (
+                          <div className="flex justify-end gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => handleRegenerate(i)} className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-400 transition-colors" title="Regenerate the reply from here">
+                              <RefreshIcon className="w-3 h-3" />Regenerate
+                            </button>
+                            <button onClick={() => setEditingMessage({ id: msg.id, text: msg.text })} className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-400 transition-colors" title="Edit and resend">
+                              <PencilIcon className="w-3 h-3" />Edit
+                            </button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
                 ))}
-                {isChatting && <div className="flex justify-start animate-pulse"><div className="flex gap-3 items-center bg-slate-900/50 px-4 py-3 rounded-2xl border border-white/5"><LoaderIcon className="w-4 h-4 text-indigo-500" /><span className="text-xs text-slate-400">Analyzing...</span></div></div>}
                 <div ref={chatEndRef} />
               </div>
               <div className="p-4 bg-slate-900/50 border-t border-white/5 backdrop-blur-xl">
-                {attachedImage && (
-                  <div className="mb-4 flex items-center gap-3 animate-in slide-in-from-bottom-2">
-                    <div className="relative w-16 h-16 rounded-lg overflow-hidden border border-indigo-500 ring-2 ring-indigo-500/20"><img src={attachedImage.url} className="w-full h-full object-cover" /><button onClick={() => setAttachedImage(null)} className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5"><XIcon className="w-3 h-3" /></button></div>
-                    <span className="text-xs text-indigo-400 font-bold uppercase tracking-wider">Image Attached</span>
+                {chatAttachments.length > 0 && (
+                  <div className="mb-4 flex flex-wrap items-center gap-3 animate-in slide-in-from-bottom-2">
+                    {chatAttachments.map((attachment, i) => (
+                      <div key={attachment.imageId ?? `${i}-${attachment.name}`} className="relative w-16 h-16 rounded-lg overflow-hidden border border-indigo-500 ring-2 ring-indigo-500/20" title={attachment.name ?? 'From your gallery'}>
+                        <img src={attachment.url} className="w-full h-full object-cover" />
+                        <button onClick={() => setChatAttachments(prev => prev.filter(other => other !== attachment))} className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5"><XIcon className="w-3 h-3" /></button>
+                      </div>
+                    ))}
+                    <span className="text-xs text-indigo-400 font-bold uppercase tracking-wider">{chatAttachments.length === 1 ? 'Image Attached' : `${chatAttachments.length} Images Attached`}</span>
                   </div>
                 )}
+                {attachmentError && <p className="mb-3 text-xs text-red-400">{attachmentError}</p>}
                 <form onSubmit={handleSendMessage} className="relative flex gap-2">
                   <div className="flex-grow relative">
-                    <input type="text" value={chatInput} onChange={(e) => setChatInput(e.target.value)} placeholder={user ? "Ask me to help refine a prompt or analyze an image..." : "Sign in to use Assistant"} className="w-full bg-slate-950 border border-white/10 rounded-2xl py-4 pl-6 pr-12 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 placeholder:text-slate-600 text-white" disabled={isChatting} />
-                    <button type="button" onClick={() => setActiveTab('generator')} className="absolute right-4 top-1/2 -translate-y-1/2 p-1 text-slate-600 hover:text-indigo-400 transition-colors" title="Browse Images"><PaperclipIcon className="w-5 h-5" /></button>
+                    <input type="text" value={chatInput} onChange={(e) => setChatInput(e.target.value)} onPaste={handleChatPaste} placeholder={user ? "Ask me to help refine a prompt or analyze an image..." : "Sign in to use Assistant"} className="w-full bg-slate-950 border border-white/10 rounded-2xl py-4 pl-6 pr-12 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 placeholder:text-slate-600 text-white" disabled={isChatting} />
+                    <ImageUploadButton
+                      onFiles={attachChatUploads}
+                      disabled={chatAttachments.length >= MAX_CHAT_ATTACHMENTS}
+                      className="absolute right-4 top-1/2 -translate-y-1/2 p-1 text-slate-600 hover:text-indigo-400 disabled:opacity-50 transition-colors"
+                      title="Attach images from your device"
+                    />
                   </div>
-                  <button type="submit" disabled={isChatting || (!chatInput.trim() && !attachedImage)} className="bg-indigo-600 hover:bg-indigo-500 text-white p-4 rounded-2xl disabled:opacity-50 transition-all shadow-lg shadow-indigo-600/20"><SendIcon className="w-5 h-5" /></button>
+                  {isChatting ? (
+                    <button type="button" onClick={handleStopChat} className="bg-slate-800 hover:bg-red-600 text-white p-4 rounded-2xl transition-all" title="Stop generating"><StopIcon className="w-5 h-5" /></button>
+                  ) : (
+                    <button type="submit" disabled={!chatInput.trim() && chatAttachments.length === 0} className="bg-indigo-600 hover:bg-indigo-500 text-white p-4 rounded-2xl disabled:opacity-50 transition-all shadow-lg shadow-indigo-600/20"><SendIcon className="w-5 h-5" /></button>
+                  )}
                 </form>
               </div>
             </div>
+            <div className="hidden lg:flex flex-col w-64 glass-panel rounded-3xl border border-white/5 overflow-hidden">
+              <div className="p-4 border-b border-white/5 font-bold text-sm text-slate-400">Context Gallery</div>
+              <div className="flex-grow overflow-y-auto p-4 space-y-4">
+                {history.map(img => (
+                  <button key={img.id} onClick={() => toggleChatAttachment(img)} className={`relative w-full aspect-square rounded-xl overflow-hidden border-2 transition-all ${chatAttachments.some(attachment => attachment.imageId === img.id) ? 'border-indigo-500 ring-2 ring-indigo-500/20' : 'border-transparent hover:border-white/20'}`}><img src={img.thumbnailUrl ?? img.url} className="w-full h-full object-cover" /></button>
+                ))}
+              </div>
+            </div>
           </div>
         )}
       </main>
       <footer className="border-t border-white/5 py-8 px-4 bg-slate-900/20">
         <div className="max-w-7xl mx-auto flex flex-col md:flex-row justify-between items-center gap-4 text-slate-500 text-sm">
            <div className="flex items-center gap-2"><SparklesIcon className="w-4 h-4 text-indigo-500" /><span className="font-bold text-slate-400 tracking-widest uppercase text-[10px]">FlipArt Studio v2.6</span></div>
+          <label className="flex items-center gap-2 text-xs">
+            <span className="uppercase tracking-widest text-[10px] font-bold">Backend</span>
+            <select value={providerId} onChange={(e) => handleProviderChange(e.target.value as ProviderId)} className="bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500/50">
+              {PROVIDER_IDS.map(id => <option key={id} value={id}>{getProvider(id).label}</option>)}
+            </select>
+          </label>
           <p>&copy; 2025 Creative Intelligence Lab</p>
         </div>
       </footer>
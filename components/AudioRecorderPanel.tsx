@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioRecorder, RecorderState, startRecording } from '../services/audioRecorder';
+import { MAX_AUDIO_SECONDS, formatDuration } from '../services/audioClip';
+import { LoaderIcon, PauseIcon, PlayIcon, StopIcon, XIcon } from './Icons';
+
+interface AudioRecorderPanelProps {
+  /** Called with the finished clip, including when the time limit stops it. */
+  onRecorded: (file: File) => void;
+  onCancel: () => void;
+  onError: (message: string) => void;
+}
+
+// Bars in the live waveform: the last ten seconds at one per 50 ms
+const VISIBLE_PEAKS = 200;
+
+const AudioRecorderPanel: React.FC<AudioRecorderPanelProps> = ({ onRecorded, onCancel, onError }) => {
+  const recorderRef = useRef<AudioRecorder | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [state, setState] = useState<RecorderState | 'starting'>('starting');
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [finishing, setFinishing] = useState(false);
+
+  const finish = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.getState() === 'stopped') return;
+    setFinishing(true);
+    try {
+      onRecorded(await recorder.stop());
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+  const finishRef = useRef(finish);
+  finishRef.current = finish;
+
+  useEffect(() => {
+    let cancelled = false;
+    let frame = 0;
+    startRecording()
+      .then(recorder => {
+        if (cancelled) { recorder.cancel(); return; }
+        recorderRef.current = recorder;
+        setState('recording');
+        const draw = () => {
+          setElapsed(recorder.getElapsed());
+          setLevel(recorder.getLevel());
+          setState(recorder.getState());
+          drawWaveform(canvasRef.current, recorder.getPeaks());
+          if (recorder.getElapsed() >= MAX_AUDIO_SECONDS) finishRef.current();
+          if (recorder.getState() !== 'stopped') frame = requestAnimationFrame(draw);
+        };
+        frame = requestAnimationFrame(draw);
+      })
+      .catch(err => { if (!cancelled) onError(err.message); });
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      // Leaving without stopping discards the take
+      if (recorderRef.current?.getState() !== 'stopped') recorderRef.current?.cancel();
+    };
+  }, []);
+
+  const recorder = recorderRef.current;
+
+  return (
+    <div className="w-full max-w-md space-y-4 p-6 bg-slate-900/50 rounded-2xl border border-white/5">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-bold flex items-center gap-2">
+          <span className={`w-2 h-2 rounded-full ${state === 'recording' ? 'bg-red-500 animate-pulse' : 'bg-slate-500'}`} />
+          {state === 'starting' ? 'Waiting for the microphone...' : state === 'paused' ? 'Paused' : 'Recording'}
+        </p>
+        <span className="text-xs font-mono text-slate-400">{formatDuration(elapsed)} / {formatDuration(MAX_AUDIO_SECONDS)}</span>
+      </div>
+      <canvas ref={canvasRef} width={VISIBLE_PEAKS * 2} height={80} className="w-full h-20 rounded-lg bg-slate-950" />
+      <div className="h-1.5 bg-slate-950 rounded-full overflow-hidden" title="Input level">
+        <div
+          className={`h-full transition-[width] duration-75 ${level > 0.9 ? 'bg-red-500' : level > 0.6 ? 'bg-amber-400' : 'bg-emerald-400'}`}
+          style={{ width: `${Math.round(level * 100)}%` }}
+        />
+      </div>
+      <div className="flex justify-center gap-3">
+        {state === 'paused' ? (
+          <button onClick={() => recorder?.resume()} disabled={finishing} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-sm text-slate-300 hover:border-indigo-500/50 disabled:opacity-50 transition-all">
+            <PlayIcon className="w-4 h-4" />Resume
+          </button>
+        ) : (
+          <button onClick={() => recorder?.pause()} disabled={state !== 'recording' || finishing} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-sm text-slate-300 hover:border-indigo-500/50 disabled:opacity-50 transition-all">
+            <PauseIcon className="w-4 h-4" />Pause
+          </button>
+        )}
+        <button onClick={finish} disabled={state === 'starting' || finishing} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-sm font-bold disabled:opacity-50 transition-all">
+          {finishing ? <LoaderIcon className="w-4 h-4" /> : <StopIcon className="w-4 h-4" />}Stop
+        </button>
+        <button onClick={onCancel} disabled={finishing} className="p-2 text-slate-500 hover:text-red-400 disabled:opacity-50 transition-colors" title="Discard recording">
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/** Draws the latest peaks as mirrored bars, newest on the right. */
+const drawWaveform = (canvas: HTMLCanvasElement | null, peaks: number[]) => {
+  const ctx = canvas?.getContext('2d');
+  if (!canvas || !ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#818cf8';
+  const visible = peaks.slice(-VISIBLE_PEAKS);
+  const barWidth = canvas.width / VISIBLE_PEAKS;
+  const middle = canvas.height / 2;
+  visible.forEach((peak, i) => {
+    const height = Math.max(1, peak * middle);
+    ctx.fillRect(canvas.width - (visible.length - i) * barWidth, middle - height, barWidth - 0.5, height * 2);
+  });
+};
+
+export default AudioRecorderPanel;
@@ -0,0 +1,355 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AspectRatio, GeneratedImage } from '../types';
+import {
+  CanvasEdit, EXPORT_FORMATS, EXPORT_SIZES, ExportFormat, FILTERS, MAX_ZOOM, OverlayFont, TextOverlay,
+  applyEdit, cropRect, exportCanvas, newOverlay, orient, outputSize, redoEdit, renderEdit, startHistory, undoEdit
+} from '../services/canvasEdit';
+import { CropIcon, DownloadIcon, FlipIcon, LoaderIcon, PlusIcon, RedoIcon, RefreshIcon, RotateIcon, TrashIcon, UndoIcon, XIcon } from './Icons';
+
+interface CanvasEditorProps {
+  image: GeneratedImage;
+  /** Frames offered for cropping, as used for generation. */
+  aspectRatios: { label: string; value: AspectRatio }[];
+  /** Stores the result as a new version of `image`. */
+  onSave: (blob: Blob, edit: CanvasEdit) => Promise<void>;
+  /** Saves the result to disk without keeping it. */
+  onDownload: (blob: Blob, edit: CanvasEdit) => Promise<void>;
+  onClose: () => void;
+}
+
+type Panel = 'frame' | 'adjust' | 'text' | 'export';
+
+const PANELS: { value: Panel; label: string }[] = [
+  { value: 'frame', label: 'Frame' },
+  { value: 'adjust', label: 'Adjust' },
+  { value: 'text', label: 'Text' },
+  { value: 'export', label: 'Export' }
+];
+
+// The preview is rendered small so sliders stay responsive; exports use full size
+const PREVIEW_EDGE = 1024;
+
+const FONTS: { value: OverlayFont; label: string }[] = [
+  { value: 'sans', label: 'Sans' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'mono', label: 'Mono' }
+];
+
+const chipClass = (active: boolean) =>
+  `text-xs px-3 py-1.5 rounded-full border transition-all ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 text-slate-400 hover:border-white/20'}`;
+const labelClass = "text-[10px] uppercase tracking-widest font-bold text-slate-500";
+const toolClass = "p-2 rounded-lg border border-white/10 text-slate-300 hover:text-white hover:border-indigo-500/50 disabled:opacity-30 transition-all";
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step?: number; format?: (value: number) => string; onChange: (value: number) => void }> = ({ label, value, min, max, step = 1, format, onChange }) => (
+  <label className="block">
+    <span className="flex justify-between">
+      <span className={labelClass}>{label}</span>
+      <span className="text-xs font-mono text-slate-400">{format ? format(value) : value}</span>
+    </span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full accent-indigo-500 mt-2" />
+  </label>
+);
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+const CanvasEditor: React.FC<CanvasEditorProps> = ({ image, aspectRatios, onSave, onDownload, onClose }) => {
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [history, setHistory] = useState(startHistory);
+  const [panel, setPanel] = useState<Panel>('frame');
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  const [format, setFormat] = useState<ExportFormat>('image/png');
+  const [quality, setQuality] = useState(0.92);
+  const [longEdge, setLongEdge] = useState<number | null>(null);
+  const [busy, setBusy] = useState<'save' | 'download' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const edit = history.present;
+  const selectedOverlay = edit.overlays.find(o => o.id === selectedOverlayId) ?? null;
+
+  useEffect(() => {
+    const img = new Image();
+    img.src = image.url;
+    img.decode()
+      .then(() => setSource(img))
+      .catch(() => setLoadError("This image could not be opened for editing."));
+  }, [image.url]);
+
+  const oriented = useMemo(
+    () => source ? orient(source, edit.rotation, edit.flipH, edit.flipV) : null,
+    [source, edit.rotation, edit.flipH, edit.flipV]
+  );
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas || !oriented) return;
+    const rendered = renderEdit(oriented, edit, Math.min(PREVIEW_EDGE, Math.max(oriented.width, oriented.height)));
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.getContext('2d')!.drawImage(rendered, 0, 0);
+  }, [oriented, edit]);
+
+  const update = (patch: Partial<CanvasEdit>, group?: string) => {
+    setHistory(prev => applyEdit(prev, { ...prev.present, ...patch }, group));
+    setSaved(false);
+  };
+
+  const updateOverlay = (id: string, patch: Partial<TextOverlay>, group?: string) => {
+    setHistory(prev => applyEdit(prev, {
+      ...prev.present,
+      overlays: prev.present.overlays.map(o => o.id === id ? { ...o, ...patch } : o)
+    }, group && `${group}-${id}`));
+    setSaved(false);
+  };
+
+  const undo = () => setHistory(undoEdit);
+  const redo = () => setHistory(redoEdit);
+
+  // Text fields keep the browser's own undo while they have focus
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const addOverlay = (kind: TextOverlay['kind']) => {
+    const overlay = newOverlay(kind);
+    update({ overlays: [...edit.overlays, overlay] });
+    setSelectedOverlayId(overlay.id);
+  };
+
+  const removeOverlay = (id: string) => {
+    update({ overlays: edit.overlays.filter(o => o.id !== id) });
+    if (selectedOverlayId === id) setSelectedOverlayId(null);
+  };
+
+  // Dragging moves the selected text, or otherwise slides the crop frame over the image
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    if (selectedOverlay && panel === 'text') onPointerMove(e);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = dragRef.current;
+    if (!last || !oriented) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (selectedOverlay && panel === 'text') {
+      const clamp = (value: number) => Math.min(1, Math.max(0, value));
+      updateOverlay(selectedOverlay.id, { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) }, 'move');
+    } else {
+      const crop = cropRect(oriented.width, oriented.height, edit);
+      const slackX = (oriented.width - crop.w) / 2;
+      const slackY = (oriented.height - crop.h) / 2;
+      if (slackX < 1 && slackY < 1) return;
+      const clamp = (value: number) => Math.min(1, Math.max(-1, value));
+      const dx = (e.clientX - last.x) / rect.width * crop.w;
+      const dy = (e.clientY - last.y) / rect.height * crop.h;
+      setHistory(prev => applyEdit(prev, {
+        ...prev.present,
+        panX: slackX < 1 ? prev.present.panX : clamp(prev.present.panX - dx / slackX),
+        panY: slackY < 1 ? prev.present.panY : clamp(prev.present.panY - dy / slackY)
+      }, 'pan'));
+      setSaved(false);
+    }
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const onPointerUp = () => { dragRef.current = null; };
+
+  const renderOutput = async (): Promise<Blob> => {
+    if (!oriented) throw new Error("The image is still loading.");
+    return exportCanvas(renderEdit(oriented, edit, longEdge), format, quality);
+  };
+
+  const run = async (action: 'save' | 'download') => {
+    if (busy) return;
+    setBusy(action);
+    setError(null);
+    try {
+      const blob = await renderOutput();
+      if (action === 'save') {
+        await onSave(blob, edit);
+        setSaved(true);
+      } else {
+        await onDownload(blob, edit);
+      }
+    } catch (err: any) {
+      setError(err.message || "Export failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const crop = oriented ? cropRect(oriented.width, oriented.height, edit) : null;
+  const size = oriented ? outputSize(oriented.width, oriented.height, edit, longEdge) : null;
+  const lossy = EXPORT_FORMATS.find(f => f.value === format)?.lossy;
+  const canPan = panel !== 'text' || !selectedOverlay;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-6xl max-h-[92vh] glass-panel rounded-3xl border border-white/10 shadow-2xl flex flex-col md:flex-row overflow-hidden animate-in zoom-in-95 duration-200">
+        <button onClick={onClose} className="absolute right-6 top-6 z-10 text-slate-400 hover:text-white transition-colors">
+          <XIcon className="w-5 h-5" />
+        </button>
+        <div className="flex-grow flex flex-col p-6 gap-4 min-w-0">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-lg font-bold flex items-center gap-2"><CropIcon className="w-5 h-5 text-indigo-400" />Canvas Editor</h2>
+            <div className="flex gap-2">
+              <button onClick={undo} disabled={history.past.length === 0} className={toolClass} title="Undo (Ctrl+Z)"><UndoIcon className="w-4 h-4" /></button>
+              <button onClick={redo} disabled={history.future.length === 0} className={toolClass} title="Redo (Ctrl+Shift+Z)"><RedoIcon className="w-4 h-4" /></button>
+              <button onClick={() => { setHistory(prev => applyEdit(prev, startHistory().present)); setSelectedOverlayId(null); }} className={toolClass} title="Start over"><RefreshIcon className="w-4 h-4" /></button>
+            </div>
+          </div>
+          <div className="flex-grow min-h-0 flex items-center justify-center bg-slate-900/50 rounded-2xl overflow-hidden relative p-4">
+            {loadError ? (
+              <p className="text-sm text-red-400">{loadError}</p>
+            ) : !source ? (
+              <LoaderIcon className="w-10 h-10 text-indigo-400" />
+            ) : (
+              <canvas
+                ref={previewRef}
+                onPointerDown={onPointerDown}
+                onPointerMove={onPointerMove}
+                onPointerUp={onPointerUp}
+                onPointerCancel={onPointerUp}
+                className={`max-h-[60vh] max-w-full object-contain touch-none ${canPan ? 'cursor-move' : 'cursor-crosshair'}`}
+              />
+            )}
+          </div>
+          <p className="text-xs text-slate-500">
+            {canPan ? 'Drag the picture to reframe it.' : 'Drag on the picture to place the selected text.'}
+            {size && ` Output ${size.width} × ${size.height}px.`}
+          </p>
+        </div>
+        <div className="md:w-80 border-t md:border-t-0 md:border-l border-white/5 flex flex-col min-h-0">
+          <div className="flex gap-1 p-3 pr-14 border-b border-white/5">
+            {PANELS.map(p => (
+              <button key={p.value} onClick={() => setPanel(p.value)} className={`flex-1 text-xs font-bold py-2 rounded-lg transition-all ${panel === p.value ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>{p.label}</button>
+            ))}
+          </div>
+          <div className="flex-grow overflow-y-auto p-5 space-y-6">
+            {panel === 'frame' && (
+              <>
+                <div className="space-y-2">
+                  <span className={labelClass}>Aspect ratio</span>
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={() => update({ aspectRatio: null, panX: 0, panY: 0 })} className={chipClass(edit.aspectRatio === null)}>Original</button>
+                    {aspectRatios.map(r => (
+                      <button key={r.value} onClick={() => update({ aspectRatio: r.value, panX: 0, panY: 0 })} className={chipClass(edit.aspectRatio === r.value)}>{r.label}</button>
+                    ))}
+                  </div>
+                </div>
+                <Slider label="Zoom" value={edit.zoom} min={1} max={MAX_ZOOM} step={0.05} format={v => `${v.toFixed(2)}×`} onChange={zoom => update({ zoom }, 'zoom')} />
+                <div className="space-y-2">
+                  <span className={labelClass}>Orientation</span>
+                  <div className="flex gap-2">
+                    <button onClick={() => update({ rotation: ((edit.rotation + 270) % 360) as CanvasEdit['rotation'], panX: 0, panY: 0 })} className={toolClass} title="Rotate left"><RotateIcon className="w-4 h-4 -scale-x-100" /></button>
+                    <button onClick={() => update({ rotation: ((edit.rotation + 90) % 360) as CanvasEdit['rotation'], panX: 0, panY: 0 })} className={toolClass} title="Rotate right"><RotateIcon className="w-4 h-4" /></button>
+                    <button onClick={() => update({ flipH: !edit.flipH })} className={`${toolClass} ${edit.flipH ? 'bg-indigo-600/30' : ''}`} title="Flip horizontally"><FlipIcon className="w-4 h-4" /></button>
+                    <button onClick={() => update({ flipV: !edit.flipV })} className={`${toolClass} ${edit.flipV ? 'bg-indigo-600/30' : ''}`} title="Flip vertically"><FlipIcon className="w-4 h-4 rotate-90" /></button>
+                  </div>
+                </div>
+              </>
+            )}
+            {panel === 'adjust' && (
+              <>
+                <Slider label="Brightness" value={edit.brightness} min={0} max={200} onChange={brightness => update({ brightness }, 'brightness')} />
+                <Slider label="Contrast" value={edit.contrast} min={0} max={200} onChange={contrast => update({ contrast }, 'contrast')} />
+                <Slider label="Saturation" value={edit.saturation} min={0} max={200} onChange={saturation => update({ saturation }, 'saturation')} />
+                <div className="space-y-2">
+                  <span className={labelClass}>Filter</span>
+                  <div className="flex flex-wrap gap-2">
+                    {FILTERS.map(f => <button key={f.value} onClick={() => update({ filter: f.value })} className={chipClass(edit.filter === f.value)}>{f.label}</button>)}
+                  </div>
+                </div>
+              </>
+            )}
+            {panel === 'text' && (
+              <>
+                <div className="flex gap-2">
+                  <button onClick={() => addOverlay('text')} className="flex-1 flex items-center justify-center gap-1 text-xs font-bold py-2 rounded-xl border border-white/10 text-slate-300 hover:border-indigo-500/50 transition-all"><PlusIcon className="w-3 h-3" />Text</button>
+                  <button onClick={() => addOverlay('watermark')} className="flex-1 flex items-center justify-center gap-1 text-xs font-bold py-2 rounded-xl border border-white/10 text-slate-300 hover:border-indigo-500/50 transition-all"><PlusIcon className="w-3 h-3" />Watermark</button>
+                </div>
+                {edit.overlays.length === 0 ? (
+                  <p className="text-xs text-slate-500 text-center">Add a caption or a tiled watermark.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {edit.overlays.map(o => (
+                      <li key={o.id} className={`flex items-center gap-2 px-3 py-2 rounded-xl ${o.id === selectedOverlayId ? 'bg-indigo-600/20 ring-1 ring-indigo-500/50' : 'hover:bg-white/5'}`}>
+                        <button onClick={() => setSelectedOverlayId(o.id === selectedOverlayId ? null : o.id)} className="flex-grow min-w-0 text-left text-xs text-slate-300 truncate">
+                          <span className="text-slate-500">{o.kind === 'watermark' ? 'Watermark' : 'Text'}:</span> {o.text || '(empty)'}
+                        </button>
+                        <button onClick={() => removeOverlay(o.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Remove"><TrashIcon className="w-3 h-3" /></button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {selectedOverlay && (
+                  <div className="space-y-4 pt-2 border-t border-white/5">
+                    <textarea
+                      value={selectedOverlay.text}
+                      onChange={(e) => updateOverlay(selectedOverlay.id, { text: e.target.value }, 'text')}
+                      rows={2}
+                      className="w-full bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-sm text-white outline-none resize-none focus:ring-2 focus:ring-indigo-500/50"
+                    />
+                    <div className="flex items-center gap-3">
+                      <input type="color" value={selectedOverlay.color} onChange={(e) => updateOverlay(selectedOverlay.id, { color: e.target.value }, 'color')} className="w-10 h-8 rounded bg-transparent cursor-pointer" title="Color" />
+                      <div className="flex gap-1">
+                        {FONTS.map(f => <button key={f.value} onClick={() => updateOverlay(selectedOverlay.id, { font: f.value })} className={chipClass(selectedOverlay.font === f.value)}>{f.label}</button>)}
+                      </div>
+                    </div>
+                    <Slider label="Size" value={Math.round(selectedOverlay.size * 100)} min={1} max={25} format={v => `${v}%`} onChange={v => updateOverlay(selectedOverlay.id, { size: v / 100 }, 'size')} />
+                    <Slider label="Opacity" value={Math.round(selectedOverlay.opacity * 100)} min={5} max={100} format={v => `${v}%`} onChange={v => updateOverlay(selectedOverlay.id, { opacity: v / 100 }, 'opacity')} />
+                  </div>
+                )}
+              </>
+            )}
+            {panel === 'export' && (
+              <>
+                <div className="space-y-2">
+                  <span className={labelClass}>Format</span>
+                  <div className="flex gap-2">
+                    {EXPORT_FORMATS.map(f => <button key={f.value} onClick={() => setFormat(f.value)} className={chipClass(format === f.value)}>{f.label}</button>)}
+                  </div>
+                </div>
+                {lossy && <Slider label="Quality" value={Math.round(quality * 100)} min={40} max={100} format={v => `${v}%`} onChange={v => setQuality(v / 100)} />}
+                <div className="space-y-2">
+                  <span className={labelClass}>Resolution (longest side)</span>
+                  <div className="flex flex-wrap gap-2">
+                    {EXPORT_SIZES.map(s => <button key={s ?? 'native'} onClick={() => setLongEdge(s)} className={chipClass(longEdge === s)}>{s ? `${s}px` : 'Native'}</button>)}
+                  </div>
+                </div>
+                {size && <p className="text-xs text-slate-500">{size.width} × {size.height}px{longEdge && crop && longEdge > Math.max(crop.w, crop.h) ? ', upscaled' : ''}</p>}
+              </>
+            )}
+          </div>
+          <div className="p-5 border-t border-white/5 space-y-3">
+            {error && <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-xs">{error}</div>}
+            {saved && <p className="text-xs text-emerald-400 text-center">Saved to the gallery as a new version.</p>}
+            <div className="flex gap-2">
+              <button onClick={() => run('download')} disabled={!oriented || busy !== null} className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl border border-white/10 text-sm font-bold text-slate-300 hover:border-indigo-500/50 disabled:opacity-50 transition-all">
+                {busy === 'download' ? <LoaderIcon className="w-4 h-4" /> : <DownloadIcon className="w-4 h-4" />}Download
+              </button>
+              <button onClick={() => run('save')} disabled={!oriented || busy !== null} className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-sm font-bold text-white disabled:opacity-50 transition-all">
+                {busy === 'save' && <LoaderIcon className="w-4 h-4" />}Save copy
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CanvasEditor;
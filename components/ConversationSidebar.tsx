@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import { exportConversation } from '../services/conversationStore';
+import { DownloadIcon, PencilIcon, PinIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  /** Id of the thread with a reply in flight; it cannot be deleted meanwhile. */
+  busyId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const fileNameFor = (conversation: Conversation) =>
+  conversation.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'conversation';
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations, activeId, busyId, onSelect, onCreate, onRename, onTogglePin, onDelete
+}) => {
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+  const download = (conversation: Conversation, format: 'md' | 'json') => {
+    const url = URL.createObjectURL(exportConversation(conversation, format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileNameFor(conversation)}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const commitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renaming?.title.trim()) onRename(renaming.id, renaming.title.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="hidden md:flex flex-col w-64 glass-panel rounded-3xl border border-white/5 overflow-hidden">
+      <div className="p-4 border-b border-white/5 flex items-center justify-between">
+        <span className="font-bold text-sm text-slate-400">Conversations</span>
+        <button onClick={onCreate} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-all" title="New conversation">
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && <p className="text-xs text-slate-600 p-3">Sign in to keep your conversations.</p>}
+        {conversations.map(conversation => {
+          const active = conversation.id === activeId;
+          return (
+            <div key={conversation.id} className={`group rounded-xl transition-all ${active ? 'bg-indigo-600/20 ring-1 ring-indigo-500/40' : 'hover:bg-white/5'}`}>
+              {renaming?.id === conversation.id ? (
+                <form onSubmit={commitRename} className="p-2">
+                  <input
+                    autoFocus value={renaming.title}
+                    onChange={e => setRenaming({ id: conversation.id, title: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={e => { if (e.key === 'Escape') setRenaming(null); }}
+                    className="w-full bg-slate-950 border border-indigo-500/50 rounded-lg px-2 py-1 text-sm text-white outline-none"
+                  />
+                </form>
+              ) : (
+                <button onClick={() => onSelect(conversation.id)} className="w-full text-left px-3 pt-2 pb-1 flex items-center gap-2">
+                  {conversation.pinned && <PinIcon className="w-3 h-3 text-indigo-400 flex-shrink-0" />}
+                  <span className={`text-sm truncate ${active ? 'text-white font-medium' : 'text-slate-300'}`}>{conversation.title}</span>
+                </button>
+              )}
+              <div className={`flex items-center gap-1 px-2 pb-2 ${active ? '' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
+                <button onClick={() => onTogglePin(conversation.id)} className={`p-1 rounded transition-colors ${conversation.pinned ? 'text-indigo-400' : 'text-slate-500 hover:text-white'}`} title={conversation.pinned ? 'Unpin' : 'Pin'}><PinIcon className="w-3 h-3" /></button>
+                <button onClick={() => setRenaming({ id: conversation.id, title: conversation.title })} className="p-1 rounded text-slate-500 hover:text-white transition-colors" title="Rename"><PencilIcon className="w-3 h-3" /></button>
+                <button onClick={() => download(conversation, 'md')} className="flex items-center gap-0.5 p-1 rounded text-[10px] font-bold text-slate-500 hover:text-white transition-colors" title="Export as Markdown"><DownloadIcon className="w-3 h-3" />MD</button>
+                <button onClick={() => download(conversation, 'json')} className="flex items-center gap-0.5 p-1 rounded text-[10px] font-bold text-slate-500 hover:text-white transition-colors" title="Export as JSON"><DownloadIcon className="w-3 h-3" />JSON</button>
+                <button
+                  onClick={() => { if (confirm(`Delete "${conversation.title}"?`)) onDelete(conversation.id); }}
+                  disabled={busyId === conversation.id}
+                  className="ml-auto p-1 rounded text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors" title="Delete"
+                ><TrashIcon className="w-3 h-3" /></button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { CheckIcon, LinkIcon } from './Icons';
+
+interface CopyLinkButtonProps {
+  /** Built on click, so the link reflects the latest prompt and settings. */
+  getUrl: () => string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const CONFIRM_MS = 2000;
+
+/** Copies a link to the clipboard and confirms it for a moment. */
+const CopyLinkButton: React.FC<CopyLinkButtonProps> = ({ getUrl, disabled, className }) => {
+  const [state, setState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  useEffect(() => {
+    if (state === 'idle') return;
+    const timer = setTimeout(() => setState('idle'), CONFIRM_MS);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  const handleClick = () => {
+    navigator.clipboard.writeText(getUrl())
+      .then(() => setState('copied'))
+      .catch(() => setState('failed'));
+  };
+
+  return (
+    <button type="button" onClick={handleClick} disabled={disabled} className={className} title="Copy a link that opens the Lab with this prompt and settings">
+      {state === 'copied' ? <CheckIcon className="w-4 h-4 text-emerald-400" /> : <LinkIcon className="w-4 h-4" />}
+      {state === 'copied' ? 'Link copied' : state === 'failed' ? 'Copy failed' : 'Copy link'}
+    </button>
+  );
+};
+
+export default CopyLinkButton;
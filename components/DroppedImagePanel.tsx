@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ImageMetadata } from '../services/imageMetadata';
+import { ImageIcon, LoaderIcon, PaperclipIcon, RefreshIcon, XIcon } from './Icons';
+
+interface DroppedImagePanelProps {
+  fileName: string;
+  previewUrl: string;
+  /** Settings read from the file; images without them go straight to the references. */
+  metadata: ImageMetadata;
+  onRecreate: () => void;
+  onAddToGallery: () => Promise<void>;
+  /** Adds the file to the Lab's reference images instead. */
+  onUseAsReference: () => void;
+  onClose: () => void;
+}
+
+const DroppedImagePanel: React.FC<DroppedImagePanelProps> = ({ fileName, previewUrl, metadata, onRecreate, onAddToGallery, onUseAsReference, onClose }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [added, setAdded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    setError(null);
+    try {
+      await onAddToGallery();
+      setAdded(true);
+    } catch (err: any) {
+      setError(err.message || "Could not add the image.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="relative mt-8 glass-panel rounded-2xl border border-white/10 p-4 flex gap-4 text-left animate-in fade-in duration-300">
+      <button onClick={onClose} className="absolute right-4 top-4 text-slate-500 hover:text-white transition-colors"><XIcon className="w-4 h-4" /></button>
+      <img src={previewUrl} alt={metadata.prompt} className="w-28 h-28 object-cover rounded-xl flex-shrink-0" />
+      <div className="min-w-0 flex-1 pr-6">
+        <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-1 truncate">{fileName}</p>
+        <p className="text-sm text-white line-clamp-3 mb-2">{metadata.prompt}</p>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-400 mb-4">
+          <span>{metadata.aspectRatio}</span>
+          {metadata.model && <span>{metadata.model}</span>}
+          {metadata.preset && <span className="text-purple-300">Preset: {metadata.preset.name}</span>}
+          {metadata.editInstruction && <span className="text-indigo-300">Edit: {metadata.editInstruction}</span>}
+          {metadata.createdAt && <span>{new Date(metadata.createdAt).toLocaleDateString()}</span>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onRecreate} className="flex items-center gap-2 text-xs px-4 py-2 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white transition-colors">
+            <RefreshIcon className="w-3 h-3" />Re-create with these settings
+          </button>
+          <button onClick={handleAdd} disabled={isAdding || added} className="flex items-center gap-2 text-xs px-4 py-2 rounded-full border border-white/10 text-slate-300 hover:text-white hover:border-white/20 disabled:opacity-50 transition-all">
+            {isAdding ? <LoaderIcon className="w-3 h-3" /> : <ImageIcon className="w-3 h-3" />}
+            {added ? 'Added to gallery' : 'Add to gallery'}
+          </button>
+          <button onClick={onUseAsReference} className="flex items-center gap-2 text-xs px-4 py-2 rounded-full border border-white/10 text-slate-300 hover:text-white hover:border-white/20 transition-all">
+            <PaperclipIcon className="w-3 h-3" />Use as reference
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default DroppedImagePanel;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { LoaderIcon, PencilIcon, XIcon } from './Icons';
+
+interface EditImageModalProps {
+  /** The version edits are applied to. */
+  image: GeneratedImage;
+  /** Every version sharing the same original, oldest first. */
+  versions: GeneratedImage[];
+  onSelectVersion: (image: GeneratedImage) => void;
+  onSubmit: (instruction: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const EDIT_SUGGESTIONS = ["Make it night time", "Remove the background clutter", "Turn it into a watercolor painting"];
+
+export interface VersionNode {
+  image: GeneratedImage;
+  depth: number;
+}
+
+/** Versions in tree order, each with its depth below the original. */
+export const flattenTree = (versions: GeneratedImage[]): VersionNode[] => {
+  const ids = new Set(versions.map(v => v.id));
+  const nodes: VersionNode[] = [];
+  const visit = (image: GeneratedImage, depth: number) => {
+    nodes.push({ image, depth });
+    versions.filter(v => v.parentId === image.id).forEach(child => visit(child, depth + 1));
+  };
+  versions.filter(v => !v.parentId || !ids.has(v.parentId)).forEach(root => visit(root, 0));
+  return nodes;
+};
+
+const EditImageModal: React.FC<EditImageModalProps> = ({ image, versions, onSelectVersion, onSubmit, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || isEditing) return;
+    setIsEditing(true);
+    setError(null);
+    try {
+      await onSubmit(instruction.trim());
+      setInstruction('');
+    } catch (err: any) {
+      setError(err.message || "Failed to edit image.");
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  const tree = flattenTree(versions.some(v => v.id === image.id) ? versions : [...versions, image]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-5xl max-h-[90vh] glass-panel rounded-3xl border border-white/10 shadow-2xl flex flex-col md:flex-row overflow-hidden animate-in zoom-in-95 duration-200">
+        <button onClick={onClose} className="absolute right-6 top-6 z-10 text-slate-400 hover:text-white transition-colors">
+          <XIcon className="w-5 h-5" />
+        </button>
+        <div className="flex-grow flex flex-col p-6 gap-4 min-w-0">
+          <h2 className="text-lg font-bold flex items-center gap-2"><PencilIcon className="w-5 h-5 text-indigo-400" />Edit Image</h2>
+          <div className="flex-grow min-h-0 flex items-center justify-center bg-slate-900/50 rounded-2xl overflow-hidden relative">
+            <img src={image.url} alt={image.prompt} className="max-h-[50vh] w-auto object-contain" />
+            {isEditing && (
+              <div className="absolute inset-0 bg-slate-950/60 flex items-center justify-center">
+                <LoaderIcon className="w-10 h-10 text-indigo-400" />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-slate-400 line-clamp-2">{image.editInstruction ? `Edit: ${image.editInstruction}` : image.prompt}</p>
+          {error && <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-sm">{error}</div>}
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Describe the change... e.g., 'make it night time'"
+              className="flex-grow bg-slate-950 border border-white/10 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500/50 outline-none"
+              disabled={isEditing}
+            />
+            <button type="submit" disabled={isEditing || !instruction.trim()} className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold px-6 rounded-xl transition-all">
+              {isEditing ? 'Editing...' : 'Apply'}
+            </button>
+          </form>
+          <div className="flex flex-wrap gap-2">
+            {EDIT_SUGGESTIONS.map(s => (
+              <button key={s} type="button" onClick={() => setInstruction(s)} className="text-xs px-3 py-1.5 rounded-full border border-white/5 bg-slate-900/50 text-slate-400 hover:border-white/20 transition-all">{s}</button>
+            ))}
+          </div>
+        </div>
+        <div className="md:w-72 border-t md:border-t-0 md:border-l border-white/5 flex flex-col">
+          <div className="p-4 border-b border-white/5 font-bold text-sm text-slate-400">Versions ({tree.length})</div>
+          <ul className="flex-grow overflow-y-auto p-3 space-y-1">
+            {tree.map(({ image: version, depth }) => (
+              <li key={version.id}>
+                <button
+                  onClick={() => onSelectVersion(version)}
+                  style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+                  className={`w-full flex items-center gap-3 pr-2 py-2 rounded-xl text-left transition-all ${version.id === image.id ? 'bg-indigo-600/20 ring-1 ring-indigo-500/50' : 'hover:bg-white/5'}`}
+                >
+                  <img src={version.thumbnailUrl ?? version.url} className="w-10 h-10 rounded-lg object-cover flex-shrink-0" />
+                  <span className="text-xs text-slate-300 line-clamp-2">{version.editInstruction ?? 'Original'}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditImageModal;
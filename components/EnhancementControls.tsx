@@ -0,0 +1,47 @@
+import React from 'react';
+import { EnhancementSettings } from '../services/audioEnhancer';
+
+interface EnhancementControlsProps {
+  settings: EnhancementSettings;
+  onChange: (settings: EnhancementSettings) => void;
+  disabled?: boolean;
+}
+
+const Slider = ({ label, value, onChange, disabled }: { label: string; value: number; onChange: (value: number) => void; disabled?: boolean }) => (
+  <label className="flex flex-col gap-2">
+    <span className="flex justify-between text-xs text-slate-400">
+      <span>{label}</span>
+      <span className="font-bold text-slate-300">{Math.round(value * 100)}%</span>
+    </span>
+    <input
+      type="range" min={0} max={1} step={0.05} value={value} disabled={disabled}
+      onChange={e => onChange(Number(e.target.value))}
+      className="accent-indigo-500"
+    />
+  </label>
+);
+
+const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onChange, disabled }) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-4 bg-slate-900/50 rounded-2xl border border-white/5">
+    <Slider label="Noise reduction" value={settings.noiseReduction} disabled={disabled} onChange={noiseReduction => onChange({ ...settings, noiseReduction })} />
+    <Slider label="Voice EQ" value={settings.voiceEq} disabled={disabled} onChange={voiceEq => onChange({ ...settings, voiceEq })} />
+    <div className="flex flex-col gap-2">
+      <label className="flex items-center justify-between text-xs text-slate-400">
+        <span>Normalize loudness</span>
+        <input type="checkbox" checked={settings.normalize} disabled={disabled} onChange={e => onChange({ ...settings, normalize: e.target.checked })} className="accent-indigo-500" />
+      </label>
+      <select
+        value={settings.targetLoudness}
+        disabled={disabled || !settings.normalize}
+        onChange={e => onChange({ ...settings, targetLoudness: Number(e.target.value) })}
+        className="bg-slate-950 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none disabled:opacity-50"
+      >
+        <option value={-14}>-14 dB (loud, streaming)</option>
+        <option value={-18}>-18 dB (podcast voice)</option>
+        <option value={-23}>-23 dB (broadcast)</option>
+      </select>
+    </div>
+  </div>
+);
+
+export default EnhancementControls;
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { AspectRatio, GalleryCollection } from '../types';
+import { GalleryQuery, GallerySort } from '../services/galleryStore';
+import { PencilIcon, PlusIcon, SearchIcon, StarIcon, TrashIcon } from './Icons';
+
+interface GalleryToolbarProps {
+  query: GalleryQuery;
+  onQueryChange: (query: GalleryQuery) => void;
+  /** Tags in use across the gallery, for the tag filter. */
+  tags: string[];
+  collections: GalleryCollection[];
+  onCreateCollection: (name: string) => void;
+  onRenameCollection: (id: string, name: string) => void;
+  onDeleteCollection: (id: string) => void;
+  selectMode: boolean;
+  onToggleSelectMode: () => void;
+}
+
+const RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16'];
+
+const SORT_LABELS: Record<GallerySort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  prompt: 'Prompt A–Z'
+};
+
+const SEARCH_DELAY_MS = 250;
+
+const toDateInput = (timestamp?: number) => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Date inputs give local calendar days; the range covers them whole
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime() : undefined;
+
+const fieldClass = "bg-slate-900/50 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500/50";
+const chipClass = (active: boolean) =>
+  `text-xs px-3 py-1.5 rounded-full border transition-all ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 text-slate-500 hover:border-white/20'}`;
+
+const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
+  query, onQueryChange, tags, collections, onCreateCollection, onRenameCollection, onDeleteCollection, selectMode, onToggleSelectMode
+}) => {
+  const [text, setText] = useState(query.text ?? '');
+  const [newCollection, setNewCollection] = useState<string | null>(null);
+
+  // Search as the user types, without querying on every keystroke
+  useEffect(() => {
+    if (text === (query.text ?? '')) return;
+    const timer = setTimeout(() => onQueryChange({ ...query, text: text || undefined }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const update = (patch: Partial<GalleryQuery>) => onQueryChange({ ...query, ...patch });
+
+  const toggleRatio = (ratio: AspectRatio) => {
+    const current = query.aspectRatios ?? [];
+    update({ aspectRatios: current.includes(ratio) ? current.filter(r => r !== ratio) : [...current, ratio] });
+  };
+
+  const activeCollection = collections.find(c => c.id === query.collectionId);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newCollection?.trim()) onCreateCollection(newCollection.trim());
+    setNewCollection(null);
+  };
+
+  const handleRename = () => {
+    if (!activeCollection) return;
+    const name = prompt('Rename collection', activeCollection.name)?.trim();
+    if (name) onRenameCollection(activeCollection.id, name);
+  };
+
+  return (
+    <div className="mb-8 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-grow min-w-[200px]">
+          <SearchIcon className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search" value={text} onChange={(e) => setText(e.target.value)}
+            placeholder="Search prompts and tags..."
+            className={`w-full pl-9 ${fieldClass} text-sm`}
+          />
+        </div>
+        <select value={query.sort ?? 'newest'} onChange={(e) => update({ sort: e.target.value as GallerySort })} className={fieldClass}>
+          {(Object.keys(SORT_LABELS) as GallerySort[]).map(sort => <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>)}
+        </select>
+        <button onClick={() => update({ favoritesOnly: !query.favoritesOnly })} className={`${chipClass(!!query.favoritesOnly)} flex items-center gap-1`}>
+          <StarIcon filled={query.favoritesOnly} className="w-3 h-3" />Favorites
+        </button>
+        <button onClick={onToggleSelectMode} className={chipClass(selectMode)}>{selectMode ? 'Done selecting' : 'Select'}</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {RATIOS.map(ratio => (
+          <button key={ratio} onClick={() => toggleRatio(ratio)} className={chipClass(!!query.aspectRatios?.includes(ratio))}>{ratio}</button>
+        ))}
+        <label className="flex items-center gap-1 text-xs text-slate-500 ml-2">
+          From
+          <input type="date" value={toDateInput(query.from)} onChange={(e) => update({ from: fromDateInput(e.target.value, false) })} className={fieldClass} />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-slate-500">
+          To
+          <input type="date" value={toDateInput(query.to)} onChange={(e) => update({ to: fromDateInput(e.target.value, true) })} className={fieldClass} />
+        </label>
+        {tags.length > 0 && (
+          <select value={query.tag ?? ''} onChange={(e) => update({ tag: e.target.value || undefined })} className={fieldClass}>
+            <option value="">All tags</option>
+            {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mr-1">Collections</span>
+        <button onClick={() => update({ collectionId: undefined })} className={chipClass(!query.collectionId)}>All images</button>
+        {collections.map(collection => (
+          <button key={collection.id} onClick={() => update({ collectionId: collection.id })} className={chipClass(collection.id === query.collectionId)}>
+            {collection.name}
+          </button>
+        ))}
+        {newCollection === null ? (
+          <button onClick={() => setNewCollection('')} className="p-1.5 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-all" title="New collection">
+            <PlusIcon className="w-4 h-4" />
+          </button>
+        ) : (
+          <form onSubmit={handleCreate}>
+            <input
+              autoFocus value={newCollection} onChange={(e) => setNewCollection(e.target.value)}
+              onBlur={handleCreate} onKeyDown={(e) => { if (e.key === 'Escape') setNewCollection(null); }}
+              placeholder="Collection name" className={fieldClass}
+            />
+          </form>
+        )}
+        {activeCollection && (
+          <>
+            <button onClick={handleRename} className="p-1.5 rounded-full text-slate-500 hover:text-white transition-colors" title="Rename collection"><PencilIcon className="w-3 h-3" /></button>
+            <button
+              onClick={() => { if (confirm(`Delete the collection "${activeCollection.name}"? Its images stay in the gallery.`)) onDeleteCollection(activeCollection.id); }}
+              className="p-1.5 rounded-full text-slate-500 hover:text-red-400 transition-colors" title="Delete collection"
+            ><TrashIcon className="w-3 h-3" /></button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GalleryToolbar;
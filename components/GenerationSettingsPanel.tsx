@@ -0,0 +1,172 @@
+import React from 'react';
+import { GenerationSettings, SafetyThreshold } from '../types';
+import { ImageModelInfo } from '../services/providers';
+import { MAX_SEED, SAFETY_CATEGORIES, SAFETY_THRESHOLDS, defaultSettings, randomSeed } from '../services/generationSettings';
+import { RefreshIcon, XIcon } from './Icons';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  /** Models the active backend offers. */
+  models: ImageModelInfo[];
+  /** Problems found by validateSettings, shown next to their field. */
+  errors: Partial<Record<keyof GenerationSettings, string>>;
+  onChange: (patch: Partial<GenerationSettings>) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_TEMPERATURE = 1;
+
+const labelClass = "text-[10px] uppercase tracking-widest font-bold text-slate-500";
+const inputClass = "bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-40";
+const chipClass = (active: boolean) =>
+  `text-xs px-3 py-1.5 rounded-full border transition-all disabled:opacity-40 ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 text-slate-400 hover:border-white/20'}`;
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-xs text-red-400 mt-2">{message}</p> : null;
+
+const capabilities = (model: ImageModelInfo) => [
+  model.maxCandidates > 1 ? `up to ${model.maxCandidates} images per request` : 'one image per request',
+  model.supportsSeed ? 'seed' : 'no seed',
+  model.temperature ? 'temperature' : null,
+  model.supportsSafety ? 'safety thresholds' : 'built-in safety filter',
+  model.supportsReferences ? 'reference images' : null
+].filter(Boolean).join(' · ');
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, models, errors, onChange, onClose }) => {
+  const model = models.find(m => m.id === settings.model);
+
+  const changeModel = (id: string) => {
+    const next = models.find(m => m.id === id)!;
+    // Drop whatever the new model cannot take instead of leaving it flagged
+    onChange({
+      model: id,
+      candidateCount: Math.min(settings.candidateCount, next.maxCandidates),
+      seed: next.supportsSeed ? settings.seed : null,
+      temperature: next.temperature ? settings.temperature : null,
+      safety: next.supportsSafety ? settings.safety : {}
+    });
+  };
+
+  const changeSafety = (key: string, value: string) => {
+    const safety = { ...settings.safety };
+    if (value) safety[key as keyof typeof safety] = value as SafetyThreshold;
+    else delete safety[key as keyof typeof safety];
+    onChange({ safety });
+  };
+
+  return (
+    <div className="mt-6 text-left glass-panel rounded-2xl border border-white/10 p-5 space-y-5 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-sm font-bold">Generation settings</h3>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => onChange({ ...defaultSettings(models[0].id), aspectRatio: settings.aspectRatio })}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-white transition-colors"
+          >
+            <RefreshIcon className="w-3 h-3" />Defaults
+          </button>
+          <button type="button" onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close"><XIcon className="w-5 h-5" /></button>
+        </div>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>Model</span>
+        <select value={settings.model} onChange={(e) => changeModel(e.target.value)} className={`${inputClass} w-full mt-2`}>
+          {!model && <option value={settings.model}>{settings.model} (unavailable)</option>}
+          {models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+        {model && <p className="text-xs text-slate-500 mt-2">{capabilities(model)}</p>}
+        <FieldError message={errors.model} />
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div>
+          <span className={labelClass}>Images per request</span>
+          <div className="flex gap-2 mt-2">
+            {Array.from({ length: Math.max(model?.maxCandidates ?? 1, settings.candidateCount) }, (_, i) => i + 1).map(n => (
+              <button key={n} type="button" onClick={() => onChange({ candidateCount: n })} disabled={!model || n > model.maxCandidates} className={chipClass(settings.candidateCount === n)}>{n}</button>
+            ))}
+          </div>
+          <FieldError message={errors.candidateCount} />
+        </div>
+
+        <div>
+          <span className={labelClass}>Seed</span>
+          <div className="flex items-center gap-2 mt-2">
+            <button type="button" onClick={() => onChange({ seed: null })} disabled={!model?.supportsSeed} className={chipClass(settings.seed === null)}>Random</button>
+            <input
+              type="number"
+              min={0}
+              max={MAX_SEED}
+              step={1}
+              value={settings.seed ?? ''}
+              placeholder="Fixed seed"
+              disabled={!model?.supportsSeed}
+              onChange={(e) => onChange({ seed: e.target.value === '' ? null : Number(e.target.value) })}
+              className={`${inputClass} w-32 font-mono`}
+            />
+            <button type="button" onClick={() => onChange({ seed: randomSeed() })} disabled={!model?.supportsSeed} className="text-xs text-slate-400 hover:text-white disabled:opacity-40 transition-colors" title="Pick a new fixed seed">
+              <RefreshIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <FieldError message={errors.seed} />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Temperature</span>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={settings.temperature === null}
+              disabled={!model?.temperature}
+              onChange={(e) => onChange({ temperature: e.target.checked ? null : DEFAULT_TEMPERATURE })}
+              className="accent-indigo-500"
+            />
+            Model default
+          </label>
+        </div>
+        {model?.temperature && settings.temperature !== null && (
+          <div className="flex items-center gap-3 mt-2">
+            <input
+              type="range"
+              min={model.temperature.min}
+              max={model.temperature.max}
+              step={0.05}
+              value={settings.temperature}
+              onChange={(e) => onChange({ temperature: Number(e.target.value) })}
+              className="flex-grow accent-indigo-500"
+            />
+            <span className="text-xs font-mono text-slate-400 w-10 text-right">{settings.temperature.toFixed(2)}</span>
+          </div>
+        )}
+        <FieldError message={errors.temperature} />
+      </div>
+
+      <div>
+        <span className={labelClass}>Safety thresholds</span>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-2">
+          {SAFETY_CATEGORIES.map(category => (
+            <label key={category.key} className="flex items-center justify-between gap-3 text-xs text-slate-400">
+              {category.label}
+              <select
+                value={settings.safety[category.key] ?? ''}
+                disabled={!model?.supportsSafety}
+                onChange={(e) => changeSafety(category.key, e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Default</option>
+                {SAFETY_THRESHOLDS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+        <FieldError message={errors.safety} />
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
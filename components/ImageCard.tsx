@@ -1,20 +1,38 @@
 
 import React from 'react';
 import { GeneratedImage } from '../types';
-import { DownloadIcon } from './Icons';
+import { downloadImage } from '../services/download';
+import { getRecording } from '../services/galleryStore';
+import { CropIcon, DownloadIcon, ExpandIcon, MicIcon, PencilIcon, RefreshIcon, SparklesIcon, SpeakerIcon, StarIcon, TrashIcon } from './Icons';
 
 interface ImageCardProps {
   image: GeneratedImage;
+  onDelete?: () => void;
+  onEdit?: () => void;
+  /** Opens the canvas editor for crops, adjustments and overlays. */
+  onCanvasEdit?: () => void;
+  /** Loads the image's composer preset; only offered when it has one. */
+  onReuseLook?: () => void;
+  onToggleFavorite?: () => void;
+  /** Opens the Voice studio to narrate a description of the image. */
+  onNarrate?: () => void;
+  /** Queues the prompt again with the settings recorded on the image. */
+  onRegenerate?: () => void;
+  /** Opens the image's own page with its full-size art, settings and lineage. */
+  onOpen?: () => void;
 }
 
-const ImageCard: React.FC<ImageCardProps> = ({ image }) => {
-  const downloadImage = () => {
-    const link = document.createElement('a');
-    link.href = image.url;
-    link.download = `flipart-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+const ImageCard: React.FC<ImageCardProps> = ({ image, onDelete, onEdit, onCanvasEdit, onReuseLook, onToggleFavorite, onNarrate, onRegenerate, onOpen }) => {
+  const handleDownload = () => downloadImage(image).catch(e => console.error("Download failed:", e));
+
+  // Recordings are only read from storage when someone asks to hear them
+  const playRecording = async () => {
+    const blob = image.voicePrompt && await getRecording(image.voicePrompt.recordingId);
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.onended = () => URL.revokeObjectURL(url);
+    audio.play().catch(e => { URL.revokeObjectURL(url); console.error("Playback failed:", e); });
   };
 
   const getAspectClass = (ratio: string) => {
@@ -32,28 +50,126 @@ const ImageCard: React.FC<ImageCardProps> = ({ image }) => {
     <div className="group relative overflow-hidden rounded-2xl glass-panel hover:ring-2 hover:ring-indigo-500 transition-all duration-300">
       <div className={`${getAspectClass(image.aspectRatio)} overflow-hidden`}>
         <img 
-          src={image.url} 
+          src={image.thumbnailUrl ?? image.url} 
           alt={image.prompt} 
           className="w-full h-full object-cover transform group-hover:scale-110 transition-transform duration-700 ease-in-out"
           loading="lazy"
         />
       </div>
+      {image.favorite && (
+        <StarIcon filled className="absolute top-4 right-4 w-5 h-5 text-amber-400 drop-shadow group-hover:opacity-0 transition-opacity" />
+      )}
       
       <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col justify-end p-6">
         <p className="text-sm font-medium text-white line-clamp-2 mb-4">
           {image.prompt}
         </p>
+        {image.editInstruction && (
+          <p className="text-xs text-indigo-300 line-clamp-1 -mt-3 mb-4">Edit: {image.editInstruction}</p>
+        )}
+        {image.voicePrompt && (
+          <button onClick={playRecording} className="flex items-center gap-1 max-w-full text-left text-xs text-sky-300 hover:text-white -mt-3 mb-4 transition-colors" title="Play the recording">
+            <MicIcon className="w-3 h-3 flex-shrink-0" /><span className="truncate">Spoken: "{image.voicePrompt.transcript}"{image.voicePrompt.expanded ? ' (expanded)' : ''}</span>
+          </button>
+        )}
+        {image.tags && image.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 -mt-2 mb-4">
+            {image.tags.map(tag => <span key={tag} className="text-[10px] px-2 py-0.5 rounded-full bg-white/10 text-slate-200">#{tag}</span>)}
+          </div>
+        )}
+        {image.preset && (
+          <p className="text-xs text-purple-300 line-clamp-1 -mt-3 mb-4">Preset: {image.preset.name}</p>
+        )}
+        {image.settings && !image.parentId && (
+          <p className="text-[10px] font-mono text-slate-400 line-clamp-1 -mt-3 mb-4">
+            {image.settings.model}{image.settings.seed !== null ? ` · seed ${image.settings.seed}` : ''}{image.settings.temperature !== null ? ` · temp ${image.settings.temperature}` : ''}{image.references?.length ? ` · ${image.references.length} reference${image.references.length > 1 ? 's' : ''}` : ''}
+          </p>
+        )}
         <div className="flex justify-between items-center">
           <span className="text-xs text-slate-300">
             {new Date(image.timestamp).toLocaleDateString()}
           </span>
-          <button 
-            onClick={downloadImage}
-            className="p-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white transition-colors"
-            title="Download Image"
-          >
-            <DownloadIcon className="w-5 h-5" />
-          </button>
+          <div className="flex gap-2">
+            {onOpen && (
+              <button
+                onClick={onOpen}
+                className="p-2 bg-black/50 hover:bg-indigo-600 rounded-full text-white transition-colors"
+                title="Open details"
+              >
+                <ExpandIcon className="w-5 h-5" />
+              </button>
+            )}
+            {onToggleFavorite && (
+              <button
+                onClick={onToggleFavorite}
+                className={`p-2 bg-black/50 hover:bg-amber-500 rounded-full transition-colors ${image.favorite ? 'text-amber-400 hover:text-white' : 'text-white'}`}
+                title={image.favorite ? "Remove from favorites" : "Add to favorites"}
+              >
+                <StarIcon filled={image.favorite} className="w-5 h-5" />
+              </button>
+            )}
+            {onReuseLook && (
+              <button
+                onClick={onReuseLook}
+                className="p-2 bg-black/50 hover:bg-purple-600 rounded-full text-white transition-colors"
+                title="Reuse this look"
+              >
+                <SparklesIcon className="w-5 h-5" />
+              </button>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                className="p-2 bg-black/50 hover:bg-indigo-600 rounded-full text-white transition-colors"
+                title="Generate again with same settings"
+              >
+                <RefreshIcon className="w-5 h-5" />
+              </button>
+            )}
+            {onNarrate && (
+              <button
+                onClick={onNarrate}
+                className="p-2 bg-black/50 hover:bg-indigo-600 rounded-full text-white transition-colors"
+                title="Narrate"
+              >
+                <SpeakerIcon className="w-5 h-5" />
+              </button>
+            )}
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                className="p-2 bg-black/50 hover:bg-indigo-600 rounded-full text-white transition-colors"
+                title="Edit Image"
+              >
+                <PencilIcon className="w-5 h-5" />
+              </button>
+            )}
+            {onCanvasEdit && (
+              <button
+                onClick={onCanvasEdit}
+                className="p-2 bg-black/50 hover:bg-indigo-600 rounded-full text-white transition-colors"
+                title="Crop & Adjust"
+              >
+                <CropIcon className="w-5 h-5" />
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={onDelete}
+                className="p-2 bg-black/50 hover:bg-red-600 rounded-full text-white transition-colors"
+                title="Delete Image"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            )}
+            <button 
+              onClick={handleDownload}
+              className="p-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white transition-colors"
+              title="Download Image"
+            >
+              <DownloadIcon className="w-5 h-5" />
+            </button>
+          </div>
         </div>
       </div>
     </div>
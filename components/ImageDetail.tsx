@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage, ImageReference } from '../types';
+import { getImage, getReference, getVersionFamily } from '../services/galleryStore';
+import { SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from '../services/generationSettings';
+import { downloadImage } from '../services/download';
+import { shareUrl } from '../services/router';
+import { flattenTree } from './EditImageModal';
+import CopyLinkButton from './CopyLinkButton';
+import { ArrowLeftIcon, DownloadIcon, LoaderIcon, MicIcon, RefreshIcon, SparklesIcon } from './Icons';
+
+interface ImageDetailProps {
+  imageId: string;
+  onBack: () => void;
+  /** Shows another version of the image. */
+  onOpenImage: (id: string) => void;
+  /** Fills the Lab with the image's prompt and settings. */
+  onOpenInLab: (image: GeneratedImage) => void;
+  onGenerateAgain: (image: GeneratedImage) => void;
+}
+
+interface LoadedReference extends ImageReference {
+  /** Object URL of the stored upload, or null once it is gone. */
+  url: string | null;
+}
+
+const buttonClass = "flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-xs font-bold text-slate-300 hover:border-indigo-500/50 disabled:opacity-50 transition-all";
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 py-2 border-b border-white/5 last:border-0 text-sm">
+    <span className="text-slate-500">{label}</span>
+    <span className="text-slate-200 text-right font-mono break-all">{children}</span>
+  </div>
+);
+
+const safetyLabel = (image: GeneratedImage) => {
+  const entries = SAFETY_CATEGORIES
+    .filter(({ key }) => image.settings?.safety[key])
+    .map(({ key, label }) => `${label}: ${SAFETY_THRESHOLDS.find(t => t.value === image.settings!.safety[key])?.label}`);
+  return entries.length > 0 ? entries.join(', ') : 'Default';
+};
+
+/** Full-size view of one gallery image with its prompt, settings and lineage. */
+const ImageDetail: React.FC<ImageDetailProps> = ({ imageId, onBack, onOpenImage, onOpenInLab, onGenerateAgain }) => {
+  const [image, setImage] = useState<GeneratedImage | null | undefined>(undefined);
+  const [versions, setVersions] = useState<GeneratedImage[]>([]);
+  const [references, setReferences] = useState<LoadedReference[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getImage(imageId)
+      .then(found => { if (!cancelled) setImage(found); })
+      .catch(err => { console.error("Could not load the image:", err); if (!cancelled) setImage(null); });
+    getVersionFamily(imageId)
+      .then(family => { if (!cancelled) setVersions(family); })
+      .catch(err => console.error("Could not load versions:", err));
+    return () => { cancelled = true; };
+  }, [imageId]);
+
+  // References are only read from storage for the image on screen
+  useEffect(() => {
+    if (!image?.references?.length) return;
+    let cancelled = false;
+    const urls: string[] = [];
+    Promise.all(image.references.map(async (reference): Promise<LoadedReference> => {
+      const blob = await getReference(reference.id);
+      const url = blob ? URL.createObjectURL(blob) : null;
+      if (url) urls.push(url);
+      return { ...reference, url };
+    }))
+      .then(loaded => { if (cancelled) urls.forEach(url => URL.revokeObjectURL(url)); else setReferences(loaded); })
+      .catch(err => console.error("Could not load references:", err));
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [image]);
+
+  if (image === undefined) {
+    return <div className="flex justify-center py-24"><LoaderIcon className="w-8 h-8 text-indigo-400" /></div>;
+  }
+
+  if (image === null) {
+    return (
+      <div className="text-center py-24 space-y-6">
+        <p className="text-slate-400">This image is not in your gallery. It may have been deleted, or the link was made on another browser or account.</p>
+        <button onClick={onBack} className={`${buttonClass} mx-auto`}><ArrowLeftIcon className="w-4 h-4" />Back to the Lab</button>
+      </div>
+    );
+  }
+
+  const tree = flattenTree(versions.some(v => v.id === image.id) ? versions : [...versions, image]);
+  const { settings } = image;
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 flex flex-col gap-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={onBack} className={buttonClass}><ArrowLeftIcon className="w-4 h-4" />Gallery</button>
+        <div className="flex-grow" />
+        <button onClick={() => downloadImage(image).catch(e => console.error("Download failed:", e))} className={buttonClass}><DownloadIcon className="w-4 h-4" />Download</button>
+        <button onClick={() => onOpenInLab(image)} className={buttonClass}><SparklesIcon className="w-4 h-4" />Open in Lab</button>
+        <CopyLinkButton getUrl={() => shareUrl({ prompt: image.prompt, settings })} className={buttonClass} />
+        {!image.parentId && (
+          <button onClick={() => onGenerateAgain(image)} className={buttonClass}><RefreshIcon className="w-4 h-4" />Generate again</button>
+        )}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <div className="flex-grow min-w-0 flex items-center justify-center bg-slate-900/50 rounded-3xl border border-white/5 p-4">
+          <img src={image.url} alt={image.prompt} className="max-h-[75vh] w-auto max-w-full object-contain rounded-xl" />
+        </div>
+
+        <aside className="lg:w-96 flex-shrink-0 space-y-6">
+          <section className="glass-panel rounded-2xl border border-white/10 p-5 space-y-3">
+            <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Prompt</h2>
+            <p className="text-sm text-slate-200 whitespace-pre-wrap">{image.prompt}</p>
+            {image.editInstruction && <p className="text-xs text-indigo-300">Edit: {image.editInstruction}</p>}
+            {image.preset && <p className="text-xs text-purple-300">Preset: {image.preset.name}</p>}
+            {image.voicePrompt && (
+              <p className="text-xs text-sky-300 flex items-start gap-1">
+                <MicIcon className="w-3 h-3 flex-shrink-0 mt-0.5" />Spoken: "{image.voicePrompt.transcript}"{image.voicePrompt.expanded ? ' (expanded)' : ''}
+              </p>
+            )}
+          </section>
+
+          <section className="glass-panel rounded-2xl border border-white/10 p-5">
+            <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-2">Settings</h2>
+            <Row label="Model">{settings?.model ?? image.model ?? 'Unknown'}</Row>
+            <Row label="Aspect ratio">{image.aspectRatio}</Row>
+            {settings && (
+              <>
+                <Row label="Seed">{settings.seed ?? 'Random'}</Row>
+                <Row label="Temperature">{settings.temperature ?? 'Model default'}</Row>
+                <Row label="Images per request">{settings.candidateCount}</Row>
+                <Row label="Safety">{safetyLabel(image)}</Row>
+              </>
+            )}
+            <Row label="Created">{new Date(image.timestamp).toLocaleString()}</Row>
+          </section>
+
+          {references.length > 0 && (
+            <section className="glass-panel rounded-2xl border border-white/10 p-5">
+              <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-3">References</h2>
+              <div className="flex flex-wrap gap-3">
+                {references.map(reference => (
+                  <div key={reference.id} className="w-20">
+                    {reference.url
+                      ? <img src={reference.url} alt={reference.name} className="w-20 h-20 rounded-xl object-cover border border-white/10" />
+                      : <div className="w-20 h-20 rounded-xl border border-dashed border-white/10 flex items-center justify-center text-[10px] text-slate-600 text-center p-1">No longer stored</div>}
+                    <p className="text-[10px] text-slate-400 mt-1 truncate" title={reference.name}>{reference.role === 'style' ? 'Style' : 'Subject'} · {reference.name}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {tree.length > 1 && (
+            <section className="glass-panel rounded-2xl border border-white/10 p-5">
+              <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-3">Lineage ({tree.length} versions)</h2>
+              <ul className="space-y-1">
+                {tree.map(({ image: version, depth }) => (
+                  <li key={version.id}>
+                    <button
+                      onClick={() => onOpenImage(version.id)}
+                      disabled={version.id === image.id}
+                      style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+                      className={`w-full flex items-center gap-3 pr-2 py-2 rounded-xl text-left transition-all ${version.id === image.id ? 'bg-indigo-600/20 ring-1 ring-indigo-500/50' : 'hover:bg-white/5'}`}
+                    >
+                      <img src={version.thumbnailUrl ?? version.url} className="w-10 h-10 rounded-lg object-cover flex-shrink-0" />
+                      <span className="text-xs text-slate-300 line-clamp-2">{version.editInstruction ?? 'Original'}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default ImageDetail;
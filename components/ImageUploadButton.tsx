@@ -0,0 +1,32 @@
+import React, { useRef } from 'react';
+import { PaperclipIcon } from './Icons';
+
+interface ImageUploadButtonProps {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+  title: string;
+  className?: string;
+}
+
+/** Paperclip button that opens the file picker for one or more images. */
+const ImageUploadButton: React.FC<ImageUploadButtonProps> = ({ onFiles, disabled, title, className }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Cleared so picking the same file again still fires a change
+    e.target.value = '';
+    if (files.length) onFiles(files);
+  };
+
+  return (
+    <>
+      <button type="button" onClick={() => inputRef.current?.click()} disabled={disabled} className={className} title={title}>
+        <PaperclipIcon className="w-5 h-5" />
+      </button>
+      <input ref={inputRef} type="file" accept="image/*" multiple onChange={handleChange} className="hidden" />
+    </>
+  );
+};
+
+export default ImageUploadButton;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { PromptModifiers, PromptPreset, PromptTemplate } from '../types';
+import {
+  MODIFIER_FIELDS,
+  createPreset,
+  createTemplate,
+  fillTemplate,
+  hasModifiers,
+  loadPresets,
+  loadTemplates,
+  savePresets,
+  saveTemplates,
+  templateVariables
+} from '../services/promptComposer';
+import { TrashIcon, XIcon } from './Icons';
+
+interface PromptComposerProps {
+  modifiers: PromptModifiers;
+  onModifiersChange: (modifiers: PromptModifiers) => void;
+  activePresetId: string | null;
+  onApplyPreset: (preset: PromptPreset) => void;
+  /** Receives the template text with its variables filled in. */
+  onApplyTemplate: (text: string) => void;
+  /** Current subject text, offered for saving as a template. */
+  subject: string;
+  /** Final prompt for the current subject, shown as a preview. */
+  preview: string;
+}
+
+const selectClass = "w-full bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/50";
+const inputClass = "bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500/50 placeholder:text-slate-600";
+const chipClass = (active: boolean) =>
+  `text-xs px-3 py-1.5 rounded-full border transition-all ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 text-slate-400 hover:border-white/20'}`;
+
+const PromptComposer: React.FC<PromptComposerProps> = ({
+  modifiers, onModifiersChange, activePresetId, onApplyPreset, onApplyTemplate, subject, preview
+}) => {
+  const [presets, setPresets] = useState<PromptPreset[]>(loadPresets);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const [presetName, setPresetName] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [openTemplate, setOpenTemplate] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const setModifier = (key: keyof PromptModifiers, value: string) =>
+    onModifiersChange({ ...modifiers, [key]: value || undefined });
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim() || !hasModifiers(modifiers)) return;
+    const preset = createPreset(presetName, modifiers);
+    const next = [...presets.filter(p => p.name !== preset.name), preset];
+    setPresets(next);
+    savePresets(next);
+    setPresetName('');
+    onApplyPreset(preset);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    const next = presets.filter(p => p.id !== id);
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const handleSaveTemplate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!templateName.trim() || !subject.trim()) return;
+    const next = [...templates, createTemplate(templateName, subject)];
+    setTemplates(next);
+    saveTemplates(next);
+    setTemplateName('');
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    const next = templates.filter(t => t.id !== id);
+    setTemplates(next);
+    saveTemplates(next);
+    if (openTemplate?.id === id) setOpenTemplate(null);
+  };
+
+  const handleOpenTemplate = (template: PromptTemplate) => {
+    setValues({});
+    if (templateVariables(template.text).length === 0) {
+      onApplyTemplate(template.text);
+      setOpenTemplate(null);
+    } else {
+      setOpenTemplate(template);
+    }
+  };
+
+  const handleUseTemplate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!openTemplate) return;
+    onApplyTemplate(fillTemplate(openTemplate.text, values));
+    setOpenTemplate(null);
+  };
+
+  return (
+    <div className="mt-6 text-left glass-panel rounded-3xl border border-white/5 p-6 space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {MODIFIER_FIELDS.map(field => (
+          <label key={field.key} className="space-y-1">
+            <span className="text-[10px] uppercase tracking-widest font-bold text-slate-500">{field.label}</span>
+            <select value={modifiers[field.key] ?? ''} onChange={(e) => setModifier(field.key, e.target.value)} className={selectClass}>
+              <option value="">None</option>
+              {/* Keep values from presets that are no longer in the option list */}
+              {modifiers[field.key] && !field.options.includes(modifiers[field.key]!) && <option value={modifiers[field.key]}>{modifiers[field.key]}</option>}
+              {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </label>
+        ))}
+        <label className="space-y-1">
+          <span className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Avoid</span>
+          <input
+            type="text" value={modifiers.avoid ?? ''} onChange={(e) => setModifier('avoid', e.target.value)}
+            placeholder="text, watermark, blur" className={`w-full ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      <div className="bg-slate-950/60 rounded-2xl border border-white/5 px-4 py-3">
+        <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-1">Final prompt</p>
+        <p className="text-sm text-slate-300 break-words">{preview || <span className="text-slate-600">Describe a subject above to see the final prompt.</span>}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h3 className="text-sm font-bold">Presets</h3>
+          <div className="flex flex-wrap gap-2">
+            {presets.length === 0 && <p className="text-xs text-slate-600">Save the current modifiers to reuse a look.</p>}
+            {presets.map(preset => (
+              <span key={preset.id} className="inline-flex items-center">
+                <button type="button" onClick={() => onApplyPreset(preset)} className={chipClass(preset.id === activePresetId)}>{preset.name}</button>
+                <button type="button" onClick={() => handleDeletePreset(preset.id)} className="p-1 text-slate-600 hover:text-red-400 transition-colors" title={`Delete ${preset.name}`}><XIcon className="w-3 h-3" /></button>
+              </span>
+            ))}
+          </div>
+          <form onSubmit={handleSavePreset} className="flex gap-2">
+            <input type="text" value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" className={`flex-1 ${inputClass}`} />
+            <button type="submit" disabled={!presetName.trim() || !hasModifiers(modifiers)} className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-indigo-600 disabled:opacity-50 text-sm font-bold transition-all">Save</button>
+          </form>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-bold">Templates</h3>
+          <div className="flex flex-wrap gap-2">
+            {templates.map(template => (
+              <span key={template.id} className="inline-flex items-center">
+                <button type="button" onClick={() => handleOpenTemplate(template)} className={chipClass(template.id === openTemplate?.id)} title={template.text}>{template.name}</button>
+                {!template.builtIn && (
+                  <button type="button" onClick={() => handleDeleteTemplate(template.id)} className="p-1 text-slate-600 hover:text-red-400 transition-colors" title={`Delete ${template.name}`}><TrashIcon className="w-3 h-3" /></button>
+                )}
+              </span>
+            ))}
+          </div>
+          {openTemplate ? (
+            <form onSubmit={handleUseTemplate} className="space-y-2">
+              <p className="text-xs text-slate-400">{openTemplate.text}</p>
+              {templateVariables(openTemplate.text).map(name => (
+                <input
+                  key={name} type="text" value={values[name] ?? ''} placeholder={name}
+                  onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                  className={`w-full ${inputClass}`}
+                />
+              ))}
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => setOpenTemplate(null)} className="px-3 py-1.5 text-xs text-slate-400 hover:text-white transition-colors">Cancel</button>
+                <button type="submit" className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-sm font-bold transition-all">Use template</button>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={handleSaveTemplate} className="flex gap-2">
+              <input type="text" value={templateName} onChange={(e) => setTemplateName(e.target.value)} placeholder="Save subject as template, use {variables}" className={`flex-1 ${inputClass}`} />
+              <button type="submit" disabled={!templateName.trim() || !subject.trim()} className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-indigo-600 disabled:opacity-50 text-sm font-bold transition-all">Save</button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptComposer;
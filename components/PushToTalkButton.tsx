@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioRecorder, startRecording } from '../services/audioRecorder';
+import { formatDuration } from '../services/audioClip';
+import { LoaderIcon, MicIcon } from './Icons';
+
+interface PushToTalkButtonProps {
+  /** Called with the take once the button is released. */
+  onRecorded: (file: File) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+// Spoken prompts are short; a stuck button should not record forever
+const MAX_SECONDS = 60;
+const TICK_MS = 100;
+
+const PushToTalkButton: React.FC<PushToTalkButtonProps> = ({ onRecorded, onError, disabled }) => {
+  const recorderRef = useRef<AudioRecorder | null>(null);
+  // Set when the button is let go before the microphone has started
+  const releasedRef = useRef(false);
+  const [state, setState] = useState<'idle' | 'starting' | 'recording'>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+
+  const finish = async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setState('idle');
+    if (!recorder) return;
+    try {
+      onRecorded(await recorder.stop());
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+  const finishRef = useRef(finish);
+  finishRef.current = finish;
+
+  const begin = async () => {
+    if (disabled || state !== 'idle') return;
+    releasedRef.current = false;
+    setState('starting');
+    setElapsed(0);
+    try {
+      recorderRef.current = await startRecording();
+    } catch (err: any) {
+      setState('idle');
+      onError(err.message);
+      return;
+    }
+    setState('recording');
+    if (releasedRef.current) finishRef.current();
+  };
+
+  const release = () => {
+    releasedRef.current = true;
+    if (recorderRef.current) finish();
+  };
+
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const timer = setInterval(() => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      setElapsed(recorder.getElapsed());
+      setLevel(recorder.getLevel());
+      if (recorder.getElapsed() >= MAX_SECONDS) finishRef.current();
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  // Unmounting mid-take throws the audio away
+  useEffect(() => () => recorderRef.current?.cancel(), []);
+
+  const active = state !== 'idle';
+
+  return (
+    <button
+      type="button"
+      disabled={disabled}
+      onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); begin(); }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onKeyDown={(e) => { if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) { e.preventDefault(); begin(); } }}
+      onKeyUp={(e) => { if (e.key === ' ' || e.key === 'Enter') release(); }}
+      className={`relative flex items-center justify-center gap-2 px-4 rounded-xl border transition-all select-none touch-none disabled:opacity-50 ${active ? 'bg-red-600 border-red-500 text-white' : 'border-white/10 text-slate-400 hover:text-white hover:border-indigo-500/50'}`}
+      style={state === 'recording' ? { boxShadow: `0 0 0 ${Math.round(2 + level * 10)}px rgba(239, 68, 68, 0.3)` } : undefined}
+      title="Hold to speak your prompt"
+    >
+      {state === 'starting' ? <LoaderIcon className="w-5 h-5" /> : <MicIcon className="w-5 h-5" />}
+      {state === 'recording' && <span className="text-xs font-mono">{formatDuration(elapsed)}</span>}
+    </button>
+  );
+};
+
+export default PushToTalkButton;
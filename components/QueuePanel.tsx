@@ -0,0 +1,81 @@
+import React from 'react';
+import { GenerationJob } from '../types';
+import { QueueSnapshot, isTerminal } from '../services/generationQueue';
+import { LoaderIcon, XIcon } from './Icons';
+
+interface QueuePanelProps {
+  queue: QueueSnapshot;
+  onCancelJob: (jobId: string) => void;
+  onCancelBatch: (batchId: string) => void;
+  onRetryJob: (jobId: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<GenerationJob['status'], string> = {
+  queued: 'text-slate-400',
+  running: 'text-indigo-400',
+  done: 'text-emerald-400',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500 line-through'
+};
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ queue, onCancelJob, onCancelBatch, onRetryJob, onClearFinished }) => {
+  if (queue.batches.length === 0) return null;
+
+  const hasFinished = queue.batches.some(batch =>
+    queue.jobs.filter(job => job.batchId === batch.id).every(job => isTerminal(job.status))
+  );
+
+  return (
+    <section className="max-w-3xl mx-auto mb-16 glass-panel rounded-3xl border border-white/10 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold">Generation Queue</h2>
+        {hasFinished && (
+          <button onClick={onClearFinished} className="text-xs text-slate-500 hover:text-white transition-colors">Clear finished</button>
+        )}
+      </div>
+      {[...queue.batches].reverse().map(batch => {
+        const jobs = queue.jobs.filter(job => job.batchId === batch.id);
+        const settled = jobs.filter(job => isTerminal(job.status)).length;
+        const active = settled < jobs.length;
+        return (
+          <div key={batch.id} className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm font-semibold truncate">{batch.label}</p>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <span className="text-xs text-slate-500">{settled}/{jobs.length}</span>
+                {active && (
+                  <button onClick={() => onCancelBatch(batch.id)} className="text-xs text-slate-500 hover:text-red-400 transition-colors">Cancel all</button>
+                )}
+              </div>
+            </div>
+            <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(settled / jobs.length) * 100}%` }} />
+            </div>
+            <ul className="space-y-1">
+              {jobs.map(job => (
+                <li key={job.id} className="flex items-center justify-between gap-4 text-xs bg-slate-900/50 rounded-lg px-3 py-2">
+                  <span className="truncate text-slate-300">
+                    {job.prompt}{jobs.some(j => j.prompt === job.prompt && j.variation > 1) && ` (#${job.variation})`}
+                  </span>
+                  <span className="flex items-center gap-2 flex-shrink-0">
+                    {job.status === 'running' && <LoaderIcon className="w-3 h-3 text-indigo-400" />}
+                    <span className={`${STATUS_STYLES[job.status]} truncate max-w-[240px]`} title={job.error}>{job.status === 'failed' ? `failed: ${job.error}` : job.status}</span>
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <button onClick={() => onRetryJob(job.id)} className="text-indigo-400 hover:text-indigo-300">Retry</button>
+                    )}
+                    {!isTerminal(job.status) && (
+                      <button onClick={() => onCancelJob(job.id)} className="text-slate-500 hover:text-red-400" title="Cancel"><XIcon className="w-3 h-3" /></button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </section>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ReferenceRole } from '../types';
+import { UploadedImage } from '../services/imageUpload';
+import { XIcon } from './Icons';
+
+export interface LabReference {
+  upload: UploadedImage;
+  role: ReferenceRole;
+  /** Set once the upload is kept in the gallery store, so later requests reuse it. */
+  storedId?: string;
+}
+
+interface ReferenceTrayProps {
+  references: LabReference[];
+  max: number;
+  onRoleChange: (id: string, role: ReferenceRole) => void;
+  onRemove: (id: string) => void;
+}
+
+const ROLES: { value: ReferenceRole; label: string; hint: string }[] = [
+  { value: 'style', label: 'Style', hint: "Borrow the look, palette and technique" },
+  { value: 'subject', label: 'Subject', hint: "Keep this subject in the new image" }
+];
+
+const ReferenceTray: React.FC<ReferenceTrayProps> = ({ references, max, onRoleChange, onRemove }) => (
+  <div className="mt-4 flex flex-wrap justify-center items-start gap-3 animate-in fade-in slide-in-from-top-2">
+    {references.map(({ upload, role }) => (
+      <div key={upload.id} className="w-28 text-left">
+        <div className="relative w-28 h-28 rounded-xl overflow-hidden border border-white/10">
+          <img src={upload.url} alt={upload.name} className="w-full h-full object-cover" />
+          <button type="button" onClick={() => onRemove(upload.id)} className="absolute top-1 right-1 bg-black/60 hover:bg-red-600 text-white rounded-full p-1 transition-colors" title="Remove reference">
+            <XIcon className="w-3 h-3" />
+          </button>
+        </div>
+        <div className="flex mt-2 rounded-full border border-white/10 overflow-hidden">
+          {ROLES.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onRoleChange(upload.id, option.value)}
+              className={`flex-1 text-[10px] py-1 transition-colors ${role === option.value ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              title={option.hint}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500 truncate mt-1" title={upload.name}>{upload.name}</p>
+      </div>
+    ))}
+    <p className="basis-full text-xs text-slate-500">
+      {references.length} of {max} references · drop, paste or attach more images
+    </p>
+  </div>
+);
+
+export default ReferenceTray;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { GalleryCollection } from '../types';
+import { normalizeTag } from '../services/galleryStore';
+import { DownloadIcon, StarIcon, TrashIcon, XIcon } from './Icons';
+
+interface SelectionBarProps {
+  count: number;
+  collections: GalleryCollection[];
+  /** Collection being browsed; moving takes images out of it. */
+  currentCollectionId?: string;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onFavorite: (favorite: boolean) => void;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onMoveToCollection: (collectionId: string) => void;
+  onRemoveFromCollection: () => void;
+  onDownload: () => void;
+  /** Downloads the selection as one ZIP archive with a manifest. */
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+const buttonClass = "flex items-center gap-1 text-xs px-3 py-1.5 rounded-full border border-white/10 text-slate-300 hover:text-white hover:border-white/20 disabled:opacity-40 transition-all";
+const fieldClass = "bg-slate-950 border border-white/10 rounded-xl px-3 py-1.5 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const SelectionBar: React.FC<SelectionBarProps> = ({
+  count, collections, currentCollectionId, onSelectAll, onClear, onFavorite, onAddTag, onRemoveTag,
+  onMoveToCollection, onRemoveFromCollection, onDownload, onExport, onDelete
+}) => {
+  const [tag, setTag] = useState('');
+  const none = count === 0;
+
+  const applyTag = (add: boolean) => {
+    const value = normalizeTag(tag);
+    if (!value) return;
+    if (add) onAddTag(value); else onRemoveTag(value);
+    setTag('');
+  };
+
+  return (
+    <div className="sticky top-20 z-30 mb-6 glass-panel rounded-2xl border border-indigo-500/30 px-4 py-3 flex flex-wrap items-center gap-2 shadow-2xl">
+      <span className="text-sm font-bold mr-2">{count} selected</span>
+      <button onClick={onSelectAll} className={buttonClass}>Select all loaded</button>
+      <button onClick={onClear} disabled={none} className={buttonClass}><XIcon className="w-3 h-3" />Clear</button>
+      <span className="w-px h-6 bg-white/10 mx-1" />
+      <button onClick={() => onFavorite(true)} disabled={none} className={buttonClass}><StarIcon filled className="w-3 h-3 text-amber-400" />Favorite</button>
+      <button onClick={() => onFavorite(false)} disabled={none} className={buttonClass}><StarIcon className="w-3 h-3" />Unfavorite</button>
+      <form onSubmit={(e) => { e.preventDefault(); applyTag(true); }} className="flex items-center gap-1">
+        <input value={tag} onChange={(e) => setTag(e.target.value)} placeholder="tag" className={`w-24 ${fieldClass}`} />
+        <button type="submit" disabled={none || !tag.trim()} className={buttonClass}>Add tag</button>
+        <button type="button" onClick={() => applyTag(false)} disabled={none || !tag.trim()} className={buttonClass}>Remove tag</button>
+      </form>
+      {collections.length > 0 && (
+        <select
+          value="" disabled={none}
+          onChange={(e) => { if (e.target.value) onMoveToCollection(e.target.value); }}
+          className={fieldClass}
+        >
+          <option value="">{currentCollectionId ? 'Move to collection…' : 'Add to collection…'}</option>
+          {collections.filter(c => c.id !== currentCollectionId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+      )}
+      {currentCollectionId && <button onClick={onRemoveFromCollection} disabled={none} className={buttonClass}>Remove from collection</button>}
+      <span className="ml-auto" />
+      <button onClick={onDownload} disabled={none} className={buttonClass}><DownloadIcon className="w-3 h-3" />Download</button>
+      <button onClick={onExport} disabled={none} className={buttonClass}><DownloadIcon className="w-3 h-3" />ZIP</button>
+      <button
+        onClick={() => { if (confirm(`Delete ${count} image${count === 1 ? '' : 's'}?`)) onDelete(); }}
+        disabled={none} className={`${buttonClass} hover:!border-red-500/50 hover:!text-red-400`}
+      ><TrashIcon className="w-3 h-3" />Delete</button>
+    </div>
+  );
+};
+
+export default SelectionBar;
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { Spectrogram } from '../services/audioDsp';
+
+interface SpectrogramViewProps {
+  spectrogram: Spectrogram;
+  label: string;
+  /** dB range mapped onto the color scale. */
+  minDb?: number;
+  maxDb?: number;
+}
+
+// Dark blue through indigo and pink to white, matching the app palette.
+const colorFor = (t: number): [number, number, number] => {
+  const stops: [number, number, number][] = [[15, 23, 42], [79, 70, 229], [236, 72, 153], [254, 240, 138]];
+  const scaled = Math.min(0.999, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.floor(scaled);
+  const f = scaled - i;
+  return [0, 1, 2].map(c => Math.round(stops[i][c] + (stops[i + 1][c] - stops[i][c]) * f)) as [number, number, number];
+};
+
+const SpectrogramView: React.FC<SpectrogramViewProps> = ({ spectrogram, label, minDb = -100, maxDb = -20 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { columns, bins, data } = spectrogram;
+    canvas.width = columns;
+    canvas.height = bins;
+    const image = ctx.createImageData(columns, bins);
+    for (let x = 0; x < columns; x++) {
+      for (let k = 0; k < bins; k++) {
+        const [r, g, b] = colorFor((data[x * bins + k] - minDb) / (maxDb - minDb));
+        // Low frequencies at the bottom
+        const offset = ((bins - 1 - k) * columns + x) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [spectrogram, minDb, maxDb]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-[10px] uppercase tracking-widest font-bold text-slate-500">
+        <span>{label}</span>
+        <span>0–{Math.round(spectrogram.sampleRate / 2000)} kHz</span>
+      </div>
+      <canvas ref={canvasRef} className="w-full h-32 rounded-xl border border-white/5 [image-rendering:pixelated]" />
+    </div>
+  );
+};
+
+export default SpectrogramView;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { EvictionOptions, StorageUsage } from '../services/galleryStore';
+import { XIcon } from './Icons';
+
+interface StoragePanelProps {
+  usage: StorageUsage | null;
+  onEvict: (options: EvictionOptions) => void;
+  onClose: () => void;
+}
+
+const KEEP_OPTIONS = [100, 50, 20];
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ usage, onEvict, onClose }) => {
+  const quotaPercent = usage?.quota && usage.usage !== undefined
+    ? Math.min(100, (usage.usage / usage.quota) * 100)
+    : null;
+
+  return (
+    <div className="mb-8 glass-panel rounded-2xl border border-white/10 p-6 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold">Gallery Storage</h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><XIcon className="w-4 h-4" /></button>
+      </div>
+      {!usage ? (
+        <p className="text-sm text-slate-500">Calculating usage...</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-300">
+            {usage.imageCount} images using <span className="font-bold">{formatBytes(usage.galleryBytes)}</span>
+            {usage.quota !== undefined && <> of {formatBytes(usage.quota)} available to this site</>}
+          </p>
+          {quotaPercent !== null && (
+            <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+              <div className={`h-full ${quotaPercent > 80 ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${quotaPercent}%` }} />
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {KEEP_OPTIONS.filter(n => n < usage.imageCount).map(n => (
+              <button
+                key={n}
+                onClick={() => onEvict({ keepNewest: n })}
+                className="text-xs px-4 py-2 rounded-full border border-white/10 bg-slate-900/50 text-slate-300 hover:border-red-500/50 hover:text-red-400 transition-all"
+              >
+                Keep newest {n}
+              </button>
+            ))}
+            {usage.imageCount > 0 && (
+              <button
+                onClick={() => { if (confirm('Delete every image in the gallery?')) onEvict({ keepNewest: 0 }); }}
+                className="text-xs px-4 py-2 rounded-full border border-red-500/20 bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-all"
+              >
+                Delete all
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoragePanel;
@@ -0,0 +1,435 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, GeneratedImage, StoryCharacter, StoryImage, StoryPanel, Storyboard } from '../types';
+import {
+  PanelRequest, boardFileName, charactersIn, createCharacter, createPanel, createStoryboard, deleteStoryboard,
+  listStoryboards, movePanel, panelRequest, renderContactSheet, renderPdf, saveStoryboard
+} from '../services/storyboard';
+import { getImage } from '../services/galleryStore';
+import { prepareUpload } from '../services/imageUpload';
+import { downloadUrl } from '../services/download';
+import {
+  ChevronDownIcon, ChevronUpIcon, ClapperboardIcon, DownloadIcon, ImageIcon, LoaderIcon, PlusIcon,
+  RefreshIcon, SparklesIcon, StopIcon, TrashIcon, UserIcon, XIcon
+} from './Icons';
+
+interface StoryboardStudioProps {
+  aspectRatios: { label: string; value: AspectRatio }[];
+  /** Generates one panel with the Lab's model settings and stores it; rejects with a readable message. */
+  onGeneratePanel: (request: PanelRequest, aspectRatio: AspectRatio, signal: AbortSignal) => Promise<GeneratedImage>;
+}
+
+/** Edits are written a moment after typing stops rather than on every keystroke. */
+const SAVE_DELAY_MS = 600;
+
+type PanelState = 'queued' | 'generating';
+
+const labelClass = "text-[10px] uppercase tracking-widest font-bold text-slate-500";
+const inputClass = "w-full bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/50 placeholder:text-slate-600";
+const chipClass = (active: boolean) =>
+  `text-xs px-3 py-1.5 rounded-full border transition-all ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 text-slate-400 hover:border-white/20'}`;
+const iconButtonClass = "text-slate-500 hover:text-white disabled:opacity-30 disabled:hover:text-slate-500 transition-colors";
+
+const toStoryImage = async (file: File): Promise<StoryImage> => {
+  const { id, name, url, mimeType } = await prepareUpload(file);
+  return { id, name, url, mimeType };
+};
+
+/** Thumbnail of an optional reference with buttons to pick or drop it. */
+const ReferenceSlot: React.FC<{ image?: StoryImage; label: string; onPick: (file: File) => void; onClear: () => void }> = ({ image, label, onPick, onClear }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  return (
+    <div className="relative w-20 h-20 flex-shrink-0">
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="w-full h-full rounded-xl border border-dashed border-white/15 hover:border-indigo-500/50 overflow-hidden flex flex-col items-center justify-center gap-1 text-[10px] text-slate-500 transition-colors"
+        title={image ? `Replace ${label.toLowerCase()}` : `Add ${label.toLowerCase()}`}
+      >
+        {image ? <img src={image.url} alt={image.name} className="w-full h-full object-cover" /> : <><PlusIcon className="w-4 h-4" />{label}</>}
+      </button>
+      {image && (
+        <button type="button" onClick={onClear} className="absolute top-1 right-1 bg-black/60 hover:bg-red-600 text-white rounded-full p-1 transition-colors" title={`Remove ${label.toLowerCase()}`}>
+          <XIcon className="w-3 h-3" />
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) onPick(file); }}
+      />
+    </div>
+  );
+};
+
+const StoryboardStudio: React.FC<StoryboardStudioProps> = ({ aspectRatios, onGeneratePanel }) => {
+  const [boards, setBoards] = useState<Storyboard[] | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [images, setImages] = useState<Record<string, GeneratedImage | null>>({});
+  const [panelStates, setPanelStates] = useState<Record<string, PanelState>>({});
+  const [panelErrors, setPanelErrors] = useState<Record<string, string>>({});
+  const [exporting, setExporting] = useState<'sheet' | 'pdf' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Generation runs across awaits, so the latest boards and images are also kept in refs
+  const boardsRef = useRef<Storyboard[]>([]);
+  const imagesRef = useRef<Record<string, GeneratedImage | null>>({});
+  const savedRef = useRef(new Map<string, Storyboard>());
+  const runRef = useRef<AbortController | null>(null);
+
+  const commitBoards = (next: Storyboard[]) => {
+    boardsRef.current = next;
+    setBoards(next);
+  };
+
+  const rememberImage = (id: string, image: GeneratedImage | null) => {
+    imagesRef.current = { ...imagesRef.current, [id]: image };
+    setImages(imagesRef.current);
+  };
+
+  useEffect(() => {
+    listStoryboards()
+      .then(saved => {
+        const list = saved.length > 0 ? saved : [createStoryboard()];
+        for (const board of saved) savedRef.current.set(board.id, board);
+        commitBoards(list);
+        setActiveId(list[0].id);
+      })
+      .catch(err => setError(`Could not load storyboards: ${err.message}`));
+    return () => runRef.current?.abort();
+  }, []);
+
+  const persist = (list: Storyboard[]) => {
+    for (const board of list) {
+      if (savedRef.current.get(board.id) === board) continue;
+      savedRef.current.set(board.id, board);
+      saveStoryboard(board).catch(err => setError(`Could not save "${board.title}": ${err.message}`));
+    }
+  };
+
+  useEffect(() => {
+    if (!boards) return;
+    const timer = setTimeout(() => persist(boards), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [boards]);
+
+  // Edits still waiting for the timer are written when the tab closes
+  useEffect(() => () => persist(boardsRef.current), []);
+
+  const board = boards?.find(b => b.id === activeId) ?? null;
+
+  useEffect(() => {
+    if (!board) return;
+    for (const { imageId } of board.panels) {
+      if (!imageId || imageId in imagesRef.current) continue;
+      getImage(imageId)
+        .then(image => rememberImage(imageId, image))
+        .catch(err => console.error("Could not load a storyboard panel:", err));
+    }
+  }, [board?.id, board?.panels]);
+
+  const updateBoard = (id: string, update: (board: Storyboard) => Partial<Storyboard>) => {
+    commitBoards(boardsRef.current.map(b => b.id === id ? { ...b, ...update(b), updatedAt: Date.now() } : b));
+  };
+
+  const updatePanel = (panelId: string, patch: Partial<StoryPanel>) => {
+    if (board) updateBoard(board.id, b => ({ panels: b.panels.map(p => p.id === panelId ? { ...p, ...patch } : p) }));
+  };
+
+  const updateCharacter = (characterId: string, patch: Partial<StoryCharacter>) => {
+    if (board) updateBoard(board.id, b => ({ characters: b.characters.map(c => c.id === characterId ? { ...c, ...patch } : c) }));
+  };
+
+  const handleNewBoard = () => {
+    const created = createStoryboard();
+    commitBoards([created, ...boardsRef.current]);
+    setActiveId(created.id);
+  };
+
+  const handleDeleteBoard = async () => {
+    if (!board || running) return;
+    if (!confirm(`Delete "${board.title}"? Its panel images stay in the gallery.`)) return;
+    try {
+      await deleteStoryboard(board.id);
+    } catch (err: any) {
+      setError(`Could not delete the storyboard: ${err.message}`);
+      return;
+    }
+    savedRef.current.delete(board.id);
+    const rest = boardsRef.current.filter(b => b.id !== board.id);
+    const next = rest.length > 0 ? rest : [createStoryboard()];
+    commitBoards(next);
+    setActiveId(next[0].id);
+  };
+
+  const pickReference = async (file: File, apply: (image: StoryImage) => void) => {
+    setError(null);
+    try {
+      apply(await toStoryImage(file));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  /** The first other finished panel, which sets the look when the board has no style reference. */
+  const anchorFor = (current: Storyboard, panelId: string): GeneratedImage | undefined => {
+    for (const panel of current.panels) {
+      const image = panel.id !== panelId && panel.imageId ? imagesRef.current[panel.imageId] : null;
+      if (image) return image;
+    }
+    return undefined;
+  };
+
+  const generatePanel = async (boardId: string, panelId: string, signal: AbortSignal) => {
+    const current = boardsRef.current.find(b => b.id === boardId);
+    const panel = current?.panels.find(p => p.id === panelId);
+    if (!current || !panel) return;
+    if (!panel.description.trim()) {
+      setPanelErrors(prev => ({ ...prev, [panelId]: "Describe what happens in the panel first." }));
+      return;
+    }
+    setPanelStates(prev => ({ ...prev, [panelId]: 'generating' }));
+    setPanelErrors(prev => { const { [panelId]: _, ...rest } = prev; return rest; });
+    try {
+      const request = panelRequest(current, panel, current.styleReference ? undefined : anchorFor(current, panelId));
+      const image = await onGeneratePanel(request, current.aspectRatio, signal);
+      rememberImage(image.id, image);
+      updateBoard(boardId, b => ({ panels: b.panels.map(p => p.id === panelId ? { ...p, imageId: image.id } : p) }));
+    } catch (err: any) {
+      if (!signal.aborted) setPanelErrors(prev => ({ ...prev, [panelId]: err.message }));
+    } finally {
+      setPanelStates(prev => { const { [panelId]: _, ...rest } = prev; return rest; });
+    }
+  };
+
+  /** Generates panels one after another, so each can follow the look of those before it. */
+  const runPanels = async (panelIds: string[]) => {
+    if (!board || runRef.current || panelIds.length === 0) return;
+    const controller = new AbortController();
+    runRef.current = controller;
+    setPanelStates(Object.fromEntries(panelIds.map(id => [id, 'queued' as const])));
+    try {
+      for (const id of panelIds) {
+        if (controller.signal.aborted) break;
+        await generatePanel(board.id, id, controller.signal);
+      }
+    } finally {
+      runRef.current = null;
+      setPanelStates({});
+    }
+  };
+
+  const handleExport = async (kind: 'sheet' | 'pdf') => {
+    if (!board || exporting) return;
+    setExporting(kind);
+    setError(null);
+    try {
+      const panelImages = board.panels.map(p => p.imageId ? imagesRef.current[p.imageId] ?? null : null);
+      const blob = kind === 'sheet' ? await renderContactSheet(board, panelImages) : await renderPdf(board, panelImages);
+      const url = URL.createObjectURL(blob);
+      downloadUrl(url, boardFileName(board, kind === 'sheet' ? 'png' : 'pdf'));
+      // Revoking right away can cancel the download in some browsers
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      setError(`Export failed: ${err.message}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const running = Object.keys(panelStates).length > 0;
+
+  if (!boards || !board) {
+    return (
+      <div className="max-w-5xl mx-auto w-full flex flex-col items-center gap-4 py-24 text-slate-500">
+        {error ? <p className="text-red-400 text-sm">{error}</p> : <LoaderIcon className="w-8 h-8" />}
+      </div>
+    );
+  }
+
+  const missing = board.panels.filter(p => p.description.trim() && !(p.imageId && images[p.imageId]));
+  const finished = board.panels.filter(p => p.imageId && images[p.imageId]).length;
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-in fade-in slide-in-from-bottom-4 duration-500 flex flex-col gap-8">
+      <section className="text-center">
+        <h1 className="text-4xl font-extrabold mb-4">Story<span className="gradient-text">board</span></h1>
+        <p className="text-slate-400">Define characters and a style once, then write the panels. Every panel carries them through.</p>
+      </section>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select value={board.id} onChange={(e) => setActiveId(e.target.value)} disabled={running} className={`${inputClass} w-auto flex-grow`}>
+          {boards.map(b => <option key={b.id} value={b.id}>{b.title || 'Untitled'} · {b.panels.length} panel{b.panels.length === 1 ? '' : 's'}</option>)}
+        </select>
+        <button type="button" onClick={handleNewBoard} disabled={running} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-xs font-bold text-slate-300 hover:border-indigo-500/50 disabled:opacity-50 transition-all">
+          <PlusIcon className="w-4 h-4" />New board
+        </button>
+        <button type="button" onClick={handleDeleteBoard} disabled={running} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-xs font-bold text-slate-400 hover:text-red-400 hover:border-red-500/50 disabled:opacity-50 transition-all">
+          <TrashIcon className="w-4 h-4" />Delete
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-sm flex items-start justify-between gap-4">
+          {error}
+          <button type="button" onClick={() => setError(null)} className="hover:text-white" title="Dismiss"><XIcon className="w-4 h-4" /></button>
+        </div>
+      )}
+
+      <section className="glass-panel rounded-3xl p-6 border border-white/10 space-y-5">
+        <label className="block">
+          <span className={labelClass}>Title</span>
+          <input value={board.title} onChange={(e) => updateBoard(board.id, () => ({ title: e.target.value }))} placeholder="Name the sequence" className={`${inputClass} mt-2`} />
+        </label>
+        <div>
+          <span className={labelClass}>Style</span>
+          <div className="flex gap-3 mt-2">
+            <textarea
+              value={board.style}
+              onChange={(e) => updateBoard(board.id, () => ({ style: e.target.value }))}
+              rows={3}
+              placeholder="e.g. ink and watercolour comic, muted palette, heavy shadows"
+              className={`${inputClass} resize-none`}
+            />
+            <ReferenceSlot
+              image={board.styleReference}
+              label="Style image"
+              onPick={(file) => pickReference(file, image => updateBoard(board.id, () => ({ styleReference: image })))}
+              onClear={() => updateBoard(board.id, () => ({ styleReference: undefined }))}
+            />
+          </div>
+          <p className="text-xs text-slate-500 mt-2">Without a style image, the first finished panel sets the look for the rest.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`${labelClass} mr-2`}>Aspect ratio</span>
+          {aspectRatios.map(ratio => (
+            <button key={ratio.value} type="button" onClick={() => updateBoard(board.id, () => ({ aspectRatio: ratio.value }))} disabled={running} className={chipClass(board.aspectRatio === ratio.value)}>{ratio.label}</button>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2"><UserIcon className="w-5 h-5 text-indigo-400" />Characters</h2>
+          <button type="button" onClick={() => updateBoard(board.id, b => ({ characters: [...b.characters, createCharacter()] }))} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors">
+            <PlusIcon className="w-4 h-4" />Add character
+          </button>
+        </div>
+        {board.characters.length === 0 ? (
+          <div className="text-center py-8 border-2 border-dashed border-white/5 rounded-3xl text-slate-500 text-sm">Add the people, creatures or objects that recur across panels.</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {board.characters.map(character => (
+              <div key={character.id} className="bg-slate-900/50 p-4 rounded-2xl border border-white/5 flex gap-3">
+                <ReferenceSlot
+                  image={character.reference}
+                  label="Look"
+                  onPick={(file) => pickReference(file, image => updateCharacter(character.id, { reference: image }))}
+                  onClear={() => updateCharacter(character.id, { reference: undefined })}
+                />
+                <div className="flex-grow space-y-2 min-w-0">
+                  <div className="flex gap-2">
+                    <input value={character.name} onChange={(e) => updateCharacter(character.id, { name: e.target.value })} placeholder="Name" className={inputClass} />
+                    <button type="button" onClick={() => updateBoard(board.id, b => ({ characters: b.characters.filter(c => c.id !== character.id) }))} className="text-slate-500 hover:text-red-400 transition-colors" title="Remove character">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <textarea
+                    value={character.description}
+                    onChange={(e) => updateCharacter(character.id, { description: e.target.value })}
+                    rows={2}
+                    placeholder="Appearance: age, build, hair, clothing..."
+                    className={`${inputClass} resize-none`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {board.characters.length > 0 && <p className="text-xs text-slate-500">Name a character in a panel description to carry their look into that panel.</p>}
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-bold flex items-center gap-2"><ClapperboardIcon className="w-5 h-5 text-indigo-400" />Panels <span className="text-sm font-normal text-slate-500">{finished} of {board.panels.length} done</span></h2>
+          <div className="flex flex-wrap items-center gap-2">
+            {running ? (
+              <button type="button" onClick={() => runRef.current?.abort()} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-red-600/20 border border-red-500/30 text-xs font-bold text-red-300 hover:bg-red-600/30 transition-all">
+                <StopIcon className="w-4 h-4" />Stop
+              </button>
+            ) : (
+              <button type="button" onClick={() => runPanels(missing.map(p => p.id))} disabled={missing.length === 0} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-xs font-bold text-white transition-all">
+                <SparklesIcon className="w-4 h-4" />Generate {missing.length > 0 ? `${missing.length} missing` : 'missing'}
+              </button>
+            )}
+            <button type="button" onClick={() => handleExport('sheet')} disabled={exporting !== null || finished === 0} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-xs font-bold text-slate-300 hover:border-indigo-500/50 disabled:opacity-50 transition-all">
+              {exporting === 'sheet' ? <LoaderIcon className="w-4 h-4" /> : <DownloadIcon className="w-4 h-4" />}Contact sheet
+            </button>
+            <button type="button" onClick={() => handleExport('pdf')} disabled={exporting !== null || finished === 0} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-xs font-bold text-slate-300 hover:border-indigo-500/50 disabled:opacity-50 transition-all">
+              {exporting === 'pdf' ? <LoaderIcon className="w-4 h-4" /> : <DownloadIcon className="w-4 h-4" />}PDF
+            </button>
+          </div>
+        </div>
+
+        {board.panels.map((panel, index) => {
+          const image = panel.imageId ? images[panel.imageId] : undefined;
+          const state = panelStates[panel.id];
+          const cast = charactersIn(board, panel);
+          return (
+            <div key={panel.id} className="bg-slate-900/50 p-4 rounded-2xl border border-white/5 flex flex-col md:flex-row gap-4">
+              <div className="md:w-72 flex-shrink-0">
+                <div className="relative w-full rounded-xl overflow-hidden bg-slate-950 border border-white/5 flex items-center justify-center" style={{ aspectRatio: board.aspectRatio.replace(':', ' / ') }}>
+                  {image ? (
+                    <img src={image.thumbnailUrl ?? image.url} alt={panel.description} className="w-full h-full object-cover" />
+                  ) : (
+                    <p className="text-xs text-slate-600 flex items-center gap-2 px-4 text-center">
+                      <ImageIcon className="w-4 h-4 flex-shrink-0" />{image === null ? 'The image was removed from the gallery.' : 'Not generated yet'}
+                    </p>
+                  )}
+                  {state && (
+                    <div className="absolute inset-0 bg-slate-950/70 flex flex-col items-center justify-center gap-2 text-xs text-slate-300">
+                      {state === 'generating' ? <><LoaderIcon className="w-6 h-6" />Generating...</> : 'Queued'}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex-grow space-y-2 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-bold text-slate-300">Panel {index + 1}</span>
+                  <div className="flex items-center gap-3">
+                    <button type="button" onClick={() => updateBoard(board.id, b => ({ panels: movePanel(b.panels, index, index - 1) }))} disabled={index === 0 || running} className={iconButtonClass} title="Move up"><ChevronUpIcon className="w-4 h-4" /></button>
+                    <button type="button" onClick={() => updateBoard(board.id, b => ({ panels: movePanel(b.panels, index, index + 1) }))} disabled={index === board.panels.length - 1 || running} className={iconButtonClass} title="Move down"><ChevronDownIcon className="w-4 h-4" /></button>
+                    <button type="button" onClick={() => runPanels([panel.id])} disabled={running || !panel.description.trim()} className={iconButtonClass} title={panel.imageId ? 'Regenerate' : 'Generate'}>
+                      {panel.imageId ? <RefreshIcon className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+                    </button>
+                    <button type="button" onClick={() => updateBoard(board.id, b => ({ panels: b.panels.filter(p => p.id !== panel.id) }))} disabled={running || board.panels.length === 1} className="text-slate-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors" title="Delete panel">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <textarea
+                  value={panel.description}
+                  onChange={(e) => updatePanel(panel.id, { description: e.target.value })}
+                  rows={3}
+                  placeholder="What happens: setting, action, framing..."
+                  className={`${inputClass} resize-none`}
+                />
+                <input value={panel.caption} onChange={(e) => updatePanel(panel.id, { caption: e.target.value })} placeholder="Caption or dialogue for exports" className={inputClass} />
+                {cast.length > 0 && <p className="text-xs text-slate-500">With {cast.map(c => c.name.trim()).join(', ')}</p>}
+                {panelErrors[panel.id] && <p className="text-xs text-red-400">{panelErrors[panel.id]}</p>}
+              </div>
+            </div>
+          );
+        })}
+
+        <button type="button" onClick={() => updateBoard(board.id, b => ({ panels: [...b.panels, createPanel()] }))} className="w-full py-4 border-2 border-dashed border-white/10 rounded-2xl text-sm text-slate-400 hover:text-white hover:border-indigo-500/50 flex items-center justify-center gap-2 transition-all">
+          <PlusIcon className="w-4 h-4" />Add panel
+        </button>
+        <p className="text-xs text-slate-500 text-center">Panels use the model and settings chosen in the Lab, with this board's aspect ratio. Every take is also kept in the gallery.</p>
+      </section>
+    </div>
+  );
+};
+
+export default StoryboardStudio;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ToolCall, ToolCallStatus } from '../types';
+import { TOOL_LABELS } from '../services/assistantTools';
+import { LoaderIcon, SparklesIcon } from './Icons';
+
+interface ToolCallCardProps {
+  call: ToolCall;
+  /** Answers a `pending` call. */
+  onDecide: (approved: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+  pending: 'Awaiting approval',
+  running: 'Running',
+  done: 'Done',
+  declined: 'Skipped',
+  error: 'Failed'
+};
+
+const STATUS_STYLES: Record<ToolCallStatus, string> = {
+  pending: 'text-amber-400',
+  running: 'text-indigo-400',
+  done: 'text-emerald-400',
+  declined: 'text-slate-500',
+  error: 'text-red-400'
+};
+
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call, onDecide }) => {
+  const details = Object.entries(call.args).map(([key, value]) => `${key}: ${String(value)}`).join(' · ');
+  const matches = Array.isArray(call.result?.matches) ? call.result.matches.length : null;
+
+  return (
+    <div className="w-72 rounded-2xl px-4 py-3 bg-slate-900/60 border border-indigo-500/20 text-xs space-y-2">
+      <div className="flex items-center gap-2">
+        {call.status === 'running'
+          ? <LoaderIcon className="w-3 h-3 text-indigo-400" />
+          : <SparklesIcon className="w-3 h-3 text-indigo-400" />}
+        <span className="font-bold text-slate-200">{TOOL_LABELS[call.name] ?? call.name}</span>
+        <span className={`ml-auto text-[10px] uppercase tracking-widest font-bold ${STATUS_STYLES[call.status]}`}>{STATUS_LABELS[call.status]}</span>
+      </div>
+      {details && <p className="text-slate-400 break-words">{details}</p>}
+      {matches !== null && <p className="text-slate-500">{matches === 1 ? '1 match' : `${matches} matches`}</p>}
+      {call.status === 'error' && typeof call.result?.error === 'string' && <p className="text-red-400">{call.result.error}</p>}
+      {call.status === 'pending' && (
+        <div className="flex justify-end gap-2 pt-1">
+          <button onClick={() => onDecide(false)} className="px-3 py-1.5 text-slate-400 hover:text-white transition-colors">Skip</button>
+          <button onClick={() => onDecide(true)} className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-bold transition-all">Run</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { AudioAnalysis } from '../types';
+import { TranscriptFormat, exportTranscript, formatClock } from '../services/transcript';
+import { BrainIcon, DownloadIcon } from './Icons';
+
+interface TranscriptViewProps {
+  analysis: AudioAnalysis;
+  /** Playback position of the active player, in seconds. */
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  /** Base name for exported files, without extension. */
+  fileName: string;
+}
+
+const EXPORT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'WebVTT' },
+  { format: 'txt', label: 'Text' },
+  { format: 'json', label: 'JSON' }
+];
+
+const NOISE_STYLES = {
+  low: 'text-emerald-400 bg-emerald-500/10',
+  moderate: 'text-amber-400 bg-amber-500/10',
+  high: 'text-red-400 bg-red-500/10'
+};
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({ analysis, currentTime, onSeek, fileName }) => {
+  const download = (format: TranscriptFormat) => {
+    const url = URL.createObjectURL(exportTranscript(analysis, format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const { quality } = analysis;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-slate-900/50 p-4 rounded-2xl border border-white/5">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-2">Noise Level</p>
+          <span className={`text-sm font-bold px-3 py-1 rounded-full capitalize ${NOISE_STYLES[quality.noiseLevel]}`}>{quality.noiseLevel}</span>
+        </div>
+        <div className="bg-slate-900/50 p-4 rounded-2xl border border-white/5">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-2">Clarity</p>
+          <p className="text-sm font-bold">{quality.clarity.toFixed(1)} / 10</p>
+        </div>
+        <div className="bg-slate-900/50 p-4 rounded-2xl border border-white/5">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-2">Language</p>
+          <p className="text-sm font-bold">{analysis.language ?? 'Unknown'}</p>
+        </div>
+      </div>
+      {(quality.description || quality.issues.length > 0) && (
+        <div className="text-sm text-slate-300 space-y-2">
+          {quality.description && <p>{quality.description}</p>}
+          {quality.issues.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {quality.issues.map(issue => <li key={issue} className="text-xs px-3 py-1 rounded-full bg-slate-900 border border-white/5 text-slate-400">{issue}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      {analysis.summary && (
+        <div className="bg-indigo-600/5 p-6 rounded-2xl border border-indigo-500/20">
+          <h3 className="text-sm font-bold mb-2 flex items-center gap-2 text-indigo-400"><BrainIcon className="w-4 h-4" />Summary</h3>
+          <p className="text-sm text-slate-300 leading-relaxed">{analysis.summary}</p>
+        </div>
+      )}
+      <div className="bg-slate-900/50 p-6 rounded-2xl border border-white/5">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-sm font-bold">Transcript</h3>
+          <div className="flex gap-2">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button key={format} onClick={() => download(format)} disabled={analysis.segments.length === 0} className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-full border border-white/10 text-slate-400 hover:text-white hover:border-white/20 disabled:opacity-50 transition-all">
+                <DownloadIcon className="w-3 h-3" />{label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {analysis.segments.length === 0 ? (
+          <p className="text-sm text-slate-500">No speech was detected.</p>
+        ) : (
+          <ol className="space-y-1 max-h-96 overflow-y-auto">
+            {analysis.segments.map((segment, i) => {
+              const active = currentTime >= segment.start && currentTime < segment.end;
+              return (
+                <li key={i}>
+                  <button
+                    onClick={() => onSeek(segment.start)}
+                    className={`w-full text-left flex gap-4 px-3 py-2 rounded-xl transition-all ${active ? 'bg-indigo-600/20 ring-1 ring-indigo-500/40' : 'hover:bg-white/5'}`}
+                  >
+                    <span className="text-xs font-mono text-indigo-400 pt-0.5 flex-shrink-0">{formatClock(segment.start)}</span>
+                    <span className="text-sm">
+                      <span className="font-bold text-slate-400 mr-2">{segment.speaker}</span>
+                      <span className="text-slate-200">{segment.text}</span>
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptView;
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { UsageCall, UsageKind, UsageQuota, UsageSummary, UsageTotals, UserUsage } from '../services/usageService';
+import { LoaderIcon, RefreshIcon } from './Icons';
+
+interface UsagePanelProps {
+  summary: UsageSummary | null;
+  loading: boolean;
+  error: string | null;
+  /** Whether the selected backend goes through the metered proxy. */
+  metered: boolean;
+  onRefresh: () => void;
+  onSetQuota: (userId: string, quota: Partial<UsageQuota> | null) => Promise<void>;
+}
+
+const KINDS: { kind: UsageKind; label: string; quota: keyof UsageQuota }[] = [
+  { kind: 'image', label: 'Images', quota: 'imagesPerDay' },
+  { kind: 'chat', label: 'Chat requests', quota: 'chatsPerDay' },
+  { kind: 'audio', label: 'Audio requests', quota: 'audioPerDay' }
+];
+
+const QUOTA_FIELDS: { field: keyof UsageQuota; label: string }[] = [
+  { field: 'imagesPerDay', label: 'Images / day' },
+  { field: 'chatsPerDay', label: 'Chats / day' },
+  { field: 'audioPerDay', label: 'Audio / day' },
+  { field: 'costPerMonth', label: '$ / month' }
+];
+
+const OUTCOME_STYLES: Record<UsageCall['outcome'], string> = {
+  ok: 'text-emerald-400',
+  error: 'text-red-400',
+  cancelled: 'text-slate-500',
+  blocked: 'text-amber-400'
+};
+
+const formatCost = (cost: number) => cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 1_000_000
+  ? `${(tokens / 1_000_000).toFixed(1)}M`
+  : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const requestsOf = (totals: UsageTotals) => totals.image + totals.chat + totals.audio;
+
+const Meter: React.FC<{ used: number; limit: number }> = ({ used, limit }) => {
+  if (!limit) return null;
+  const percent = Math.min(100, (used / limit) * 100);
+  return (
+    <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden mt-1">
+      <div className={`h-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${percent}%` }} />
+    </div>
+  );
+};
+
+const PeriodCard: React.FC<{ title: string; totals: UsageTotals; quota: UsageQuota; daily: boolean }> = ({ title, totals, quota, daily }) => (
+  <div className="bg-slate-900/50 rounded-2xl border border-white/5 p-5 space-y-4">
+    <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500">{title}</h3>
+    <div className="space-y-3">
+      {KINDS.map(({ kind, label, quota: field }) => (
+        <div key={kind}>
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-400">{label}</span>
+            <span className="font-semibold">{totals[kind]}{daily && quota[field] > 0 && <span className="text-slate-500"> / {quota[field]}</span>}</span>
+          </div>
+          {daily && <Meter used={totals[kind]} limit={quota[field]} />}
+        </div>
+      ))}
+    </div>
+    <div className="grid grid-cols-2 gap-3 text-xs text-slate-400 pt-3 border-t border-white/5">
+      <span>Tokens in <b className="text-slate-200">{formatTokens(totals.inputTokens)}</b></span>
+      <span>Tokens out <b className="text-slate-200">{formatTokens(totals.outputTokens)}</b></span>
+      <span>Avg latency <b className="text-slate-200">{(totals.averageLatencyMs / 1000).toFixed(1)} s</b></span>
+      <span>Errors <b className="text-slate-200">{totals.errors}</b>{totals.blocked > 0 && <>, blocked <b className="text-amber-400">{totals.blocked}</b></>}</span>
+    </div>
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="text-slate-400">Estimated cost</span>
+        <span className="font-semibold">{formatCost(totals.cost)}{!daily && quota.costPerMonth > 0 && <span className="text-slate-500"> / ${quota.costPerMonth.toFixed(2)}</span>}</span>
+      </div>
+      {!daily && <Meter used={totals.cost} limit={quota.costPerMonth} />}
+    </div>
+  </div>
+);
+
+const QuotaEditor: React.FC<{ entry: UserUsage; onSave: (quota: Partial<UsageQuota> | null) => Promise<void> }> = ({ entry, onSave }) => {
+  const [draft, setDraft] = useState(() => Object.fromEntries(QUOTA_FIELDS.map(({ field }) => [field, String(entry.quota[field])])));
+  const [saving, setSaving] = useState(false);
+
+  const save = async (quota: Partial<UsageQuota> | null) => {
+    setSaving(true);
+    try {
+      await onSave(quota);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const parsed = Object.fromEntries(QUOTA_FIELDS.map(({ field }) => [field, Number(draft[field])]));
+  const valid = Object.values(parsed).every(value => Number.isFinite(value) && value >= 0);
+
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      {QUOTA_FIELDS.map(({ field, label }) => (
+        <label key={field} className="flex flex-col gap-1 text-[10px] uppercase tracking-widest text-slate-500">
+          {label}
+          <input
+            type="number"
+            min={0}
+            step={field === 'costPerMonth' ? 0.5 : 1}
+            value={draft[field]}
+            onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+            className="w-20 bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/50"
+          />
+        </label>
+      ))}
+      <button disabled={!valid || saving} onClick={() => save(parsed)} className="text-xs px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 transition-all">Save</button>
+      {entry.custom && (
+        <button disabled={saving} onClick={() => save(null)} className="text-xs px-3 py-1.5 rounded-lg border border-white/10 text-slate-400 hover:text-white transition-all">Use default</button>
+      )}
+    </div>
+  );
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ summary, loading, error, metered, onRefresh, onSetQuota }) => {
+  const peak = summary ? Math.max(1, ...summary.days.map(requestsOf)) : 1;
+
+  return (
+    <div className="max-w-5xl mx-auto w-full space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold">Usage</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Calls to the Gemini backend, metered by the API proxy. Days end at midnight UTC; costs are estimates.
+          </p>
+        </div>
+        <button onClick={onRefresh} disabled={loading} className="p-2 text-slate-400 hover:text-white transition-colors disabled:opacity-50" title="Refresh">
+          {loading ? <LoaderIcon className="w-5 h-5" /> : <RefreshIcon className="w-5 h-5" />}
+        </button>
+      </div>
+
+      {!metered && (
+        <p className="text-sm text-slate-400 bg-slate-900/50 border border-white/5 rounded-xl px-4 py-3">
+          The selected backend is not metered. Switch to Gemini in the footer to use and track your allowance.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-3">{error}</p>}
+      {summary?.warnings.map(warning => (
+        <p key={warning} className="text-sm text-amber-300 bg-amber-500/10 border border-amber-500/20 rounded-xl px-4 py-3">{warning}</p>
+      ))}
+
+      {summary && (
+        <>
+          <div className="grid md:grid-cols-2 gap-4">
+            <PeriodCard title="Today" totals={summary.today} quota={summary.quota} daily />
+            <PeriodCard title="This month" totals={summary.month} quota={summary.quota} daily={false} />
+          </div>
+
+          <section className="glass-panel rounded-2xl border border-white/10 p-5">
+            <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-4">Last 30 days</h3>
+            <div className="flex items-end gap-1 h-32">
+              {summary.days.map(day => (
+                <div
+                  key={day.date}
+                  className="flex-1 bg-indigo-500/70 hover:bg-indigo-400 rounded-t transition-colors min-h-[2px]"
+                  style={{ height: `${(requestsOf(day) / peak) * 100}%` }}
+                  title={`${day.date}: ${day.image} images, ${day.chat} chats, ${day.audio} audio, ${formatCost(day.cost)}`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-[10px] text-slate-600 mt-2">
+              <span>{summary.days[0]?.date}</span>
+              <span>{summary.days[summary.days.length - 1]?.date}</span>
+            </div>
+          </section>
+
+          {summary.months.length > 0 && (
+            <section className="glass-panel rounded-2xl border border-white/10 p-5 overflow-x-auto">
+              <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-4">By month</h3>
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs text-slate-500">
+                  <tr><th className="py-1">Month</th><th>Images</th><th>Chats</th><th>Audio</th><th>Tokens</th><th className="text-right">Cost</th></tr>
+                </thead>
+                <tbody>
+                  {[...summary.months].reverse().map(month => (
+                    <tr key={month.month} className="border-t border-white/5">
+                      <td className="py-2">{month.month}</td>
+                      <td>{month.image}</td>
+                      <td>{month.chat}</td>
+                      <td>{month.audio}</td>
+                      <td>{formatTokens(month.inputTokens + month.outputTokens)}</td>
+                      <td className="text-right">{formatCost(month.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {summary.recent.length > 0 && (
+            <section className="glass-panel rounded-2xl border border-white/10 p-5 overflow-x-auto">
+              <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-4">Recent calls</h3>
+              <table className="w-full text-xs">
+                <thead className="text-left text-slate-500">
+                  <tr><th className="py-1">When</th><th>Type</th><th>Model</th><th>Tokens</th><th>Latency</th><th className="text-right">Outcome</th></tr>
+                </thead>
+                <tbody>
+                  {summary.recent.map(call => (
+                    <tr key={`${call.at}-${call.kind}`} className="border-t border-white/5 text-slate-300">
+                      <td className="py-2">{new Date(call.at).toLocaleString()}</td>
+                      <td>{call.kind}</td>
+                      <td className="text-slate-500">{call.model}</td>
+                      <td>{call.inputTokens} / {call.outputTokens}</td>
+                      <td>{call.outcome === 'blocked' ? '–' : `${(call.latencyMs / 1000).toFixed(1)} s`}</td>
+                      <td className={`text-right ${OUTCOME_STYLES[call.outcome]}`}>{call.outcome}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {summary.users && (
+            <section className="glass-panel rounded-2xl border border-white/10 p-5 space-y-4">
+              <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500">All users</h3>
+              {summary.users.map(entry => (
+                <div key={entry.id} className="bg-slate-900/50 rounded-xl border border-white/5 p-4 space-y-3">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <p className="text-sm font-semibold">{entry.name} <span className="text-slate-500 font-normal">{entry.email}</span></p>
+                    <p className="text-xs text-slate-400">
+                      Today {requestsOf(entry.today)} calls · This month {requestsOf(entry.month)} calls, {formatCost(entry.month.cost)}
+                    </p>
+                  </div>
+                  <QuotaEditor
+                    key={JSON.stringify(entry.quota)}
+                    entry={entry}
+                    onSave={(quota) => onSetQuota(entry.id, quota)}
+                  />
+                </div>
+              ))}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
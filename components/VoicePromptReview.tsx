@@ -0,0 +1,68 @@
+import React from 'react';
+import { formatDuration } from '../services/audioClip';
+import { BrainIcon, LoaderIcon, MicIcon, SparklesIcon, XIcon } from './Icons';
+
+interface VoicePromptReviewProps {
+  audioUrl: string;
+  duration: number;
+  /** What the audio model heard; null while it is still transcribing. */
+  transcript: string | null;
+  /** The prompt that will be sent, editable. */
+  text: string;
+  onTextChange: (text: string) => void;
+  expand: boolean;
+  onExpandChange: (expand: boolean) => void;
+  busy: 'transcribing' | 'expanding' | null;
+  error?: string;
+  onGenerate: () => void;
+  onDiscard: () => void;
+}
+
+const VoicePromptReview: React.FC<VoicePromptReviewProps> = ({
+  audioUrl, duration, transcript, text, onTextChange, expand, onExpandChange, busy, error, onGenerate, onDiscard
+}) => (
+  <div className="mt-6 text-left glass-panel rounded-2xl border border-white/10 p-5 space-y-4 animate-in fade-in slide-in-from-top-2">
+    <div className="flex items-center justify-between gap-4">
+      <h3 className="text-sm font-bold flex items-center gap-2"><MicIcon className="w-4 h-4 text-indigo-400" />Spoken prompt</h3>
+      <button type="button" onClick={onDiscard} className="text-slate-500 hover:text-red-400 transition-colors" title="Discard"><XIcon className="w-5 h-5" /></button>
+    </div>
+    <div className="flex items-center gap-3">
+      <audio controls src={audioUrl} className="flex-grow h-10" />
+      <span className="text-xs font-mono text-slate-500">{formatDuration(duration)}</span>
+    </div>
+    {busy === 'transcribing' ? (
+      <p className="flex items-center gap-2 text-sm text-slate-400"><LoaderIcon className="w-4 h-4 text-indigo-500" />Transcribing...</p>
+    ) : (
+      <>
+        {transcript !== null && transcript !== text && (
+          <p className="text-xs text-slate-500">Heard: <span className="text-slate-400">"{transcript}"</span></p>
+        )}
+        <textarea
+          value={text}
+          onChange={(e) => onTextChange(e.target.value)}
+          rows={3}
+          disabled={busy !== null}
+          className="w-full bg-slate-950 border border-white/10 rounded-xl px-4 py-3 text-sm text-white outline-none resize-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50"
+        />
+      </>
+    )}
+    {error && <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl px-3 py-2">{error}</p>}
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title="Have the assistant turn the spoken idea into a detailed prompt">
+        <input type="checkbox" checked={expand} onChange={(e) => onExpandChange(e.target.checked)} disabled={busy !== null} className="accent-indigo-500" />
+        {busy === 'expanding' ? <LoaderIcon className="w-3 h-3 text-indigo-500" /> : <BrainIcon className="w-3 h-3 text-indigo-400" />}
+        Expand with the assistant
+      </label>
+      <button
+        type="button"
+        onClick={onGenerate}
+        disabled={busy !== null || !text.trim()}
+        className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-sm font-bold py-2 px-6 rounded-xl transition-all flex items-center gap-2"
+      >
+        <SparklesIcon className="w-4 h-4" />Generate
+      </button>
+    </div>
+  </div>
+);
+
+export default VoicePromptReview;
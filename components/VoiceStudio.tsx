@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage, SpeechClip, SpeechSettings, SpeechSource } from '../types';
+import { MAX_SPEECH_CHARS, SPEECH_RATES, SPEECH_STYLES, VOICES, clipFileName, loadSpeechSettings, saveSpeechSettings } from '../services/speech';
+import { formatDuration } from '../services/audioClip';
+import { BrainIcon, DownloadIcon, ImageIcon, LoaderIcon, SpeakerIcon, TrashIcon, XIcon } from './Icons';
+
+/** Text handed over from another tab to be read aloud. */
+export interface VoiceDraft {
+  text: string;
+  source: SpeechSource;
+  /** Image being described; its clips are stored with it. */
+  image?: GeneratedImage;
+}
+
+interface VoiceStudioProps {
+  draft: VoiceDraft | null;
+  clips: SpeechClip[];
+  /** Speaks the text and stores the clip; rejects with a readable message. */
+  onNarrate: (text: string, settings: SpeechSettings, source: SpeechSource, imageId?: string) => Promise<void>;
+  /** Resolves to a spoken-word description of the image. */
+  onDescribe: (image: GeneratedImage) => Promise<string>;
+  onDeleteClip: (id: string) => void;
+}
+
+const SOURCE_LABELS: Record<SpeechSource, string> = {
+  prompt: 'Prompt',
+  assistant: 'Assistant answer',
+  description: 'Image description'
+};
+
+const selectClass = "w-full bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/50";
+const chipClass = (active: boolean) =>
+  `text-xs px-3 py-1.5 rounded-full border transition-all ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/50 border-white/5 text-slate-400 hover:border-white/20'}`;
+
+const VoiceStudio: React.FC<VoiceStudioProps> = ({ draft, clips, onNarrate, onDescribe, onDeleteClip }) => {
+  const [text, setText] = useState(draft?.text ?? '');
+  const [source, setSource] = useState<SpeechSource>(draft?.source ?? 'prompt');
+  const [image, setImage] = useState<GeneratedImage | undefined>(draft?.image);
+  const [settings, setSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [busy, setBusy] = useState<'describe' | 'narrate' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new hand-over replaces whatever was being worked on
+  useEffect(() => {
+    if (!draft) return;
+    setText(draft.text);
+    setSource(draft.source);
+    setImage(draft.image);
+    setError(null);
+  }, [draft]);
+
+  const updateSettings = (patch: Partial<SpeechSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSpeechSettings(next);
+  };
+
+  const handleDescribe = async () => {
+    if (!image || busy) return;
+    setBusy('describe');
+    setError(null);
+    try {
+      setText(await onDescribe(image));
+      setSource('description');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleNarrate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || busy) return;
+    setBusy('narrate');
+    setError(null);
+    try {
+      await onNarrate(text.trim(), settings, source, image?.id);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const tooLong = text.length > MAX_SPEECH_CHARS;
+
+  return (
+    <div className="max-w-4xl mx-auto w-full animate-in fade-in slide-in-from-bottom-4 duration-500 flex flex-col gap-8">
+      <section className="text-center">
+        <h1 className="text-4xl font-extrabold mb-4">Voice <span className="gradient-text">Studio</span></h1>
+        <p className="text-slate-400">Narrate prompts, assistant answers and descriptions of your art.</p>
+      </section>
+      <form onSubmit={handleNarrate} className="glass-panel rounded-3xl p-8 border border-white/10 space-y-6">
+        {image && (
+          <div className="flex items-center gap-4 p-3 bg-slate-900/50 rounded-2xl border border-white/5">
+            <img src={image.thumbnailUrl ?? image.url} alt={image.prompt} className="w-16 h-16 rounded-xl object-cover" />
+            <div className="min-w-0 flex-grow">
+              <p className="text-xs text-slate-500">Narrating image</p>
+              <p className="text-sm text-slate-200 truncate">{image.prompt}</p>
+            </div>
+            <button type="button" onClick={handleDescribe} disabled={busy !== null} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-xs font-bold text-slate-300 hover:border-indigo-500/50 disabled:opacity-50 transition-all">
+              {busy === 'describe' ? <LoaderIcon className="w-4 h-4" /> : <BrainIcon className="w-4 h-4 text-indigo-400" />}
+              Write description
+            </button>
+            <button type="button" onClick={() => { setImage(undefined); if (source === 'description') setSource('prompt'); }} className="text-slate-500 hover:text-red-400 transition-colors" title="Detach image">
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+        <div>
+          <div className="flex items-center justify-between mb-2 text-xs">
+            <span className="text-slate-500">{SOURCE_LABELS[source]}</span>
+            <span className={tooLong ? 'text-red-400' : 'text-slate-500'}>{text.length} / {MAX_SPEECH_CHARS}</span>
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={6}
+            placeholder="Type or paste text to read aloud..."
+            className="w-full bg-slate-950 border border-white/10 rounded-2xl px-4 py-3 text-sm text-white outline-none resize-none focus:ring-2 focus:ring-indigo-500/50 placeholder:text-slate-600"
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Voice</span>
+            <select value={settings.voice} onChange={(e) => updateSettings({ voice: e.target.value })} className={`${selectClass} mt-2`}>
+              {VOICES.map(v => <option key={v.name} value={v.name}>{v.name} · {v.description}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Style</span>
+            <select value={settings.style} onChange={(e) => updateSettings({ style: e.target.value })} className={`${selectClass} mt-2`}>
+              {SPEECH_STYLES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mr-2">Rate</span>
+          {SPEECH_RATES.map(rate => (
+            <button key={rate} type="button" onClick={() => updateSettings({ rate })} className={chipClass(settings.rate === rate)}>{rate}×</button>
+          ))}
+        </div>
+        {error && <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-center text-sm">{error}</div>}
+        <div className="flex justify-center">
+          <button type="submit" disabled={!text.trim() || tooLong || busy !== null} className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold py-4 px-12 rounded-2xl transition-all shadow-lg shadow-indigo-600/20 flex items-center gap-3">
+            {busy === 'narrate' ? <LoaderIcon className="w-6 h-6" /> : <SpeakerIcon className="w-6 h-6" />}
+            {busy === 'narrate' ? 'Speaking...' : 'Read Aloud'}
+          </button>
+        </div>
+      </form>
+      <section className="space-y-4">
+        <h2 className="text-xl font-bold flex items-center gap-2"><SpeakerIcon className="w-5 h-5 text-indigo-400" />Clips</h2>
+        {clips.length === 0 ? (
+          <div className="text-center py-12 border-2 border-dashed border-white/5 rounded-3xl text-slate-500 text-sm">Narrated clips appear here.</div>
+        ) : clips.map(clip => (
+          <div key={clip.id} className="bg-slate-900/50 p-4 rounded-2xl border border-white/5 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm text-slate-200 line-clamp-2">{clip.text}</p>
+                <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
+                  {clip.imageId && <ImageIcon className="w-3 h-3" />}
+                  {SOURCE_LABELS[clip.source]} · {clip.voice}{clip.style ? `, ${clip.style}` : ''} · {clip.rate}× · {formatDuration(clip.duration)} · {new Date(clip.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-3 flex-shrink-0">
+                <a href={clip.url} download={clipFileName(clip)} className="text-slate-500 hover:text-indigo-400 transition-colors" title="Download WAV">
+                  <DownloadIcon className="w-4 h-4" />
+                </a>
+                <button onClick={() => onDeleteClip(clip.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Delete clip">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <audio controls src={clip.url} className="w-full h-10" />
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+};
+
+export default VoiceStudio;
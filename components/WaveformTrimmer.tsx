@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MIN_AUDIO_SECONDS, TrimRange, formatDuration } from '../services/audioClip';
+
+interface WaveformTrimmerProps {
+  peaks: Float32Array;
+  /** Length of the whole clip in seconds. */
+  duration: number;
+  range: TrimRange;
+  onChange: (range: TrimRange) => void;
+  disabled?: boolean;
+}
+
+type Handle = 'start' | 'end';
+
+const WaveformTrimmer: React.FC<WaveformTrimmerProps> = ({ peaks, duration, range, onChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [dragging, setDragging] = useState<Handle | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = peaks.length;
+    canvas.height = 96;
+    const middle = canvas.height / 2;
+    const from = (range.start / duration) * peaks.length;
+    const to = (range.end / duration) * peaks.length;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    for (let x = 0; x < peaks.length; x++) {
+      const height = Math.max(1, peaks[x] * middle);
+      ctx.fillStyle = x >= from && x < to ? '#818cf8' : '#334155';
+      ctx.fillRect(x, middle - height, 1, height * 2);
+    }
+  }, [peaks, duration, range]);
+
+  const timeAt = (clientX: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  // Handles never cross and always leave the shortest clip we accept between them
+  const moveHandle = (handle: Handle, time: number) => {
+    const gap = Math.min(MIN_AUDIO_SECONDS, duration);
+    onChange(handle === 'start'
+      ? { start: Math.max(0, Math.min(time, range.end - gap)), end: range.end }
+      : { start: range.start, end: Math.min(duration, Math.max(time, range.start + gap)) });
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    const time = timeAt(e.clientX);
+    // Grab whichever handle is closer, so a click anywhere moves the nearest edge there
+    const handle: Handle = Math.abs(time - range.start) <= Math.abs(time - range.end) ? 'start' : 'end';
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+    moveHandle(handle, time);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragging) moveHandle(dragging, timeAt(e.clientX));
+  };
+
+  const onKeyDown = (handle: Handle) => (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 1 : 0.1;
+    const delta = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+    if (!delta || disabled) return;
+    e.preventDefault();
+    moveHandle(handle, range[handle] + delta);
+  };
+
+  const percent = (seconds: number) => `${(seconds / duration) * 100}%`;
+  const trimmed = range.start > 0 || range.end < duration;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-[10px] uppercase tracking-widest font-bold text-slate-500">
+        <span>Trim</span>
+        <span className="font-mono normal-case tracking-normal">
+          {formatDuration(range.start)} – {formatDuration(range.end)} ({formatDuration(range.end - range.start)} of {formatDuration(duration)})
+        </span>
+      </div>
+      <div
+        className={`relative select-none touch-none ${disabled ? 'opacity-50' : 'cursor-ew-resize'}`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+      >
+        <canvas ref={canvasRef} className="w-full h-24 rounded-xl border border-white/5 bg-slate-950" />
+        {(['start', 'end'] as Handle[]).map(handle => (
+          <div
+            key={handle}
+            role="slider"
+            tabIndex={disabled ? -1 : 0}
+            aria-label={handle === 'start' ? 'Trim start' : 'Trim end'}
+            aria-valuemin={0}
+            aria-valuemax={duration}
+            aria-valuenow={range[handle]}
+            aria-valuetext={formatDuration(range[handle])}
+            onKeyDown={onKeyDown(handle)}
+            className="absolute inset-y-0 w-1 -ml-0.5 bg-indigo-400 rounded-full focus:outline-none focus:ring-2 focus:ring-indigo-300"
+            style={{ left: percent(range[handle]) }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between items-center text-xs text-slate-500">
+        <span>Drag the edges, or use the arrow keys on a focused edge (Shift for whole seconds).</span>
+        {trimmed && (
+          <button onClick={() => onChange({ start: 0, end: duration })} disabled={disabled} className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50 transition-colors">
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTrimmer;
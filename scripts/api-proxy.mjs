@@ -0,0 +1,886 @@
+// Server-side proxy for the Gemini API. It holds the key, so the browser never
+// sees it, checks each request and limits how often each user may call it.
+//
+//   GEMINI_API_KEY=... node scripts/api-proxy.mjs [port]
+//
+// Callers authenticate with the session token from the auth server
+// (AUTH_SERVER_URL, default http://localhost:8788). GEMINI_API_URL points the
+// proxy at another upstream; the stand-in (`npm run standin`) works as a fake:
+//
+//   GEMINI_API_URL=http://localhost:8787 GEMINI_API_KEY=local node scripts/api-proxy.mjs
+//
+// Every model call is metered per user in USAGE_DATA_FILE (default
+// .flipart-usage.json) and checked against the user's quota first.
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8790);
+const API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY;
+const UPSTREAM = (process.env.GEMINI_API_URL || 'https://generativelanguage.googleapis.com').replace(/\/$/, '');
+const AUTH_SERVER = (process.env.AUTH_SERVER_URL || 'http://localhost:8788').replace(/\/$/, '');
+const IMAGE_MODEL = process.env.IMAGE_MODEL || 'gemini-2.5-flash-image';
+// Models a generate request may pick; IMAGE_MODEL is always allowed and is the default
+const IMAGE_MODELS = [...new Set([IMAGE_MODEL, ...(process.env.IMAGE_MODELS || 'gemini-3-pro-image-preview,imagen-4.0-generate-001,imagen-4.0-fast-generate-001')
+  .split(',').map(model => model.trim()).filter(Boolean)])];
+const TEXT_MODEL = process.env.TEXT_MODEL || 'gemini-3-flash-preview';
+const SPEECH_MODEL = process.env.SPEECH_MODEL || 'gemini-2.5-flash-preview-tts';
+
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const SESSION_CACHE_MS = 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+
+/** Requests per user per minute, by kind of call. */
+const RATE_LIMITS = {
+  image: Number(process.env.RATE_LIMIT_IMAGE || 10),
+  chat: Number(process.env.RATE_LIMIT_CHAT || 30),
+  audio: Number(process.env.RATE_LIMIT_AUDIO || 5)
+};
+
+const USAGE_FILE = process.env.USAGE_DATA_FILE || '.flipart-usage.json';
+const USAGE_RETENTION_MS = 400 * 24 * 60 * 60 * 1000;
+const USAGE_SAVE_DELAY_MS = 1000;
+const RECENT_CALLS = 20;
+const QUOTA_WARN_AT = Number(process.env.QUOTA_WARN_AT || 0.8);
+/** Emails of users who may see everyone's usage and change quotas. */
+const USAGE_ADMINS = (process.env.USAGE_ADMINS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Allowance for users without one of their own; 0 means unlimited. Request
+ * counts reset at midnight UTC, spending on the first of the month.
+ */
+const DEFAULT_QUOTA = {
+  imagesPerDay: Number(process.env.QUOTA_IMAGES_PER_DAY || 0),
+  chatsPerDay: Number(process.env.QUOTA_CHATS_PER_DAY || 0),
+  audioPerDay: Number(process.env.QUOTA_AUDIO_PER_DAY || 0),
+  costPerMonth: Number(process.env.QUOTA_COST_PER_MONTH || 0)
+};
+
+const DAILY_QUOTA = { image: 'imagesPerDay', chat: 'chatsPerDay', audio: 'audioPerDay' };
+// Speech synthesis counts as audio alongside analysis
+const KIND_NAMES = { image: 'images', chat: 'chat requests', audio: 'audio requests' };
+
+/**
+ * US dollars per million tokens, or per image for Imagen, used for cost
+ * estimates only.
+ */
+const PRICES = {
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-3-pro-image-preview': { input: 2, output: 120 },
+  'imagen-4.0-generate-001': { input: 0, output: 0, perImage: 0.04 },
+  'imagen-4.0-fast-generate-001': { input: 0, output: 0, perImage: 0.02 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 }
+};
+const FALLBACK_PRICE = { input: 0.5, output: 3 };
+
+const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+const ROLES = ['user', 'model'];
+const MAX_SEED = 2 ** 31 - 1;
+const HARM_CATEGORIES = {
+  harassment: 'HARM_CATEGORY_HARASSMENT',
+  hateSpeech: 'HARM_CATEGORY_HATE_SPEECH',
+  sexuallyExplicit: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  dangerousContent: 'HARM_CATEGORY_DANGEROUS_CONTENT'
+};
+const SAFETY_THRESHOLDS = ['BLOCK_NONE', 'BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE'];
+const MAX_REFERENCES = 3;
+// Each reference is introduced by what it is for, as the app does when it calls Gemini directly
+const REFERENCE_LEADS = {
+  style: "Style reference: match the look, palette and technique of this image, not its content.",
+  subject: "Subject reference: keep this subject recognisably the same in the new image."
+};
+const PARAMETER_TYPES = { string: 'STRING', number: 'NUMBER', integer: 'INTEGER', boolean: 'BOOLEAN' };
+
+const AUDIO_ANALYSIS_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    segments: {
+      type: 'ARRAY',
+      description: "Transcript in spoken order, split at sentence or speaker boundaries.",
+      items: {
+        type: 'OBJECT',
+        properties: {
+          start: { type: 'NUMBER', description: "Start time in seconds." },
+          end: { type: 'NUMBER', description: "End time in seconds." },
+          speaker: { type: 'STRING', description: "Speaker label such as 'Speaker 1'." },
+          text: { type: 'STRING' }
+        },
+        required: ['start', 'end', 'speaker', 'text']
+      }
+    },
+    quality: {
+      type: 'OBJECT',
+      properties: {
+        noiseLevel: { type: 'STRING', enum: ['low', 'moderate', 'high'] },
+        clarity: { type: 'NUMBER', description: "Speech intelligibility from 0 to 10." },
+        description: { type: 'STRING' },
+        issues: { type: 'ARRAY', items: { type: 'STRING' } }
+      },
+      required: ['noiseLevel', 'clarity', 'description', 'issues']
+    },
+    summary: { type: 'STRING', description: "Two or three sentence summary of what was said." },
+    language: { type: 'STRING', description: "BCP-47 code of the spoken language." }
+  },
+  required: ['segments', 'quality', 'summary']
+};
+
+// `reason` tells the app what kind of failure this is beyond the HTTP status:
+// QUOTA, MISSING_KEY, SAFETY (with blockReason and category) or EMPTY_RESPONSE
+class HttpError extends Error {
+  constructor(code, status, message, { headers = {}, details } = {}) {
+    super(message);
+    this.code = code;
+    this.status = status;
+    this.headers = headers;
+    this.details = details;
+  }
+}
+
+const invalid = (message) => new HttpError(400, 'INVALID_ARGUMENT', message);
+
+// --- Sessions and rate limits ---
+
+const sessions = new Map();
+
+/** Resolves the caller's account, asking the auth server at most once a minute per token. */
+const authenticate = async (req) => {
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1];
+  if (!token) throw new HttpError(401, 'UNAUTHENTICATED', "Sign in to use the model.");
+  const key = createHash('sha256').update(token).digest('hex');
+  // Drop expired and signed-out tokens so the cache only holds recent callers
+  const now = Date.now();
+  for (const [cachedKey, entry] of sessions) {
+    if (entry.checkedAt + SESSION_CACHE_MS <= now || entry.expiresAt <= now) sessions.delete(cachedKey);
+  }
+  const cached = sessions.get(key);
+  if (cached) return cached.user;
+
+  let response;
+  try {
+    response = await fetch(`${AUTH_SERVER}/auth/session`, { headers: { Authorization: `Bearer ${token}` } });
+  } catch {
+    throw new HttpError(503, 'UNAVAILABLE', "The sign-in server cannot be reached.");
+  }
+  if (!response.ok) {
+    sessions.delete(key);
+    throw new HttpError(401, 'UNAUTHENTICATED', "Your session has expired. Please sign in again.");
+  }
+  const { user, expiresAt } = await response.json();
+  sessions.set(key, { user, expiresAt, checkedAt: Date.now() });
+  rememberUser(user);
+  return user;
+};
+
+const recentCalls = new Map();
+
+const checkRateLimit = (userId, kind) => {
+  const now = Date.now();
+  const key = `${userId}:${kind}`;
+  const recent = (recentCalls.get(key) || []).filter(time => time > now - RATE_WINDOW_MS);
+  if (recent.length >= RATE_LIMITS[kind]) {
+    const retryAfter = Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000);
+    recentCalls.set(key, recent);
+    throw new HttpError(429, 'RESOURCE_EXHAUSTED', `Too many ${kind} requests. Try again in ${retryAfter} s.`, { headers: { 'Retry-After': String(retryAfter) } });
+  }
+  recent.push(now);
+  recentCalls.set(key, recent);
+};
+
+// --- Usage and quotas ---
+
+let usageData = { users: {}, quotas: {}, calls: [] };
+let saveTimer = null;
+let writing = Promise.resolve();
+
+const loadUsage = async () => {
+  try {
+    usageData = JSON.parse(await readFile(USAGE_FILE, 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+};
+
+// Calls are batched into one write a second, through a temporary file like the auth server
+const scheduleSave = () => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    const cutoff = Date.now() - USAGE_RETENTION_MS;
+    usageData.calls = usageData.calls.filter(call => call.at > cutoff);
+    writing = writing.then(async () => {
+      await writeFile(`${USAGE_FILE}.tmp`, JSON.stringify(usageData));
+      await rename(`${USAGE_FILE}.tmp`, USAGE_FILE);
+    }).catch(err => console.error("Could not save usage:", err));
+  }, USAGE_SAVE_DELAY_MS);
+};
+
+const rememberUser = ({ id, name, email }) => {
+  const known = usageData.users[id];
+  if (known?.name === name && known?.email === email) return;
+  usageData.users[id] = { name, email };
+  scheduleSave();
+};
+
+const isAdmin = (user) => USAGE_ADMINS.includes(user.email.toLowerCase());
+
+const dayOf = (time) => new Date(time).toISOString().slice(0, 10);
+const monthOf = (time) => new Date(time).toISOString().slice(0, 7);
+
+const quotaFor = (userId) => ({ ...DEFAULT_QUOTA, ...usageData.quotas[userId] });
+
+const costOf = (model, inputTokens, outputTokens, images) => {
+  const price = PRICES[model] || FALLBACK_PRICE;
+  return (inputTokens * price.input + outputTokens * price.output) / 1e6 + images * (price.perImage ?? 0);
+};
+
+// One request may return several images; calls recorded before that count once
+const unitsOf = (call) => call.units ?? 1;
+
+const totalsOf = (calls) => {
+  const totals = { image: 0, chat: 0, audio: 0, errors: 0, blocked: 0, inputTokens: 0, outputTokens: 0, cost: 0, averageLatencyMs: 0 };
+  let answered = 0;
+  for (const call of calls) {
+    if (call.outcome === 'blocked') {
+      totals.blocked++;
+      continue;
+    }
+    if (call.outcome === 'ok') totals[call.kind] += unitsOf(call);
+    else if (call.outcome === 'error') totals.errors++;
+    totals.inputTokens += call.inputTokens;
+    totals.outputTokens += call.outputTokens;
+    totals.cost += call.cost;
+    totals.averageLatencyMs += call.latencyMs;
+    answered++;
+  }
+  totals.averageLatencyMs = answered ? Math.round(totals.averageLatencyMs / answered) : 0;
+  return totals;
+};
+
+const groupBy = (calls, keyOf) => {
+  const groups = new Map();
+  for (const call of calls) {
+    const key = keyOf(call);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(call);
+  }
+  return groups;
+};
+
+const callsOf = (userId) => usageData.calls.filter(call => call.userId === userId);
+
+const warningsFor = (quota, today, month) => {
+  const warnings = [];
+  for (const [kind, field] of Object.entries(DAILY_QUOTA)) {
+    const limit = quota[field];
+    if (!limit || today[kind] < limit * QUOTA_WARN_AT) continue;
+    warnings.push(today[kind] >= limit
+      ? `You have used all ${limit} ${KIND_NAMES[kind]} for today.`
+      : `You have used ${today[kind]} of ${limit} ${KIND_NAMES[kind]} today.`);
+  }
+  if (quota.costPerMonth && month.cost >= quota.costPerMonth * QUOTA_WARN_AT) {
+    warnings.push(month.cost >= quota.costPerMonth
+      ? `You have reached this month's spending limit of $${quota.costPerMonth.toFixed(2)}.`
+      : `Estimated spending this month is $${month.cost.toFixed(2)} of $${quota.costPerMonth.toFixed(2)}.`);
+  }
+  return warnings;
+};
+
+// Units held by calls still running, per user and kind, so parallel calls cannot overrun the daily quota together
+const reserved = new Map();
+
+/**
+ * Stops a call the user has no allowance left for, before it reaches the
+ * model. `requested` counts the images asked for; they stay reserved until
+ * `releaseQuota` is called for the finished call.
+ */
+const checkQuota = (userId, kind, requested = 1) => {
+  const quota = quotaFor(userId);
+  const now = Date.now();
+  const calls = callsOf(userId);
+  const limit = quota[DAILY_QUOTA[kind]];
+  if (limit) {
+    const today = dayOf(now);
+    const used = calls.filter(call => call.kind === kind && call.outcome === 'ok' && dayOf(call.at) === today)
+      .reduce((sum, call) => sum + unitsOf(call), reserved.get(`${userId}:${kind}`) ?? 0);
+    if (used + requested > limit) {
+      const midnight = new Date(now).setUTCHours(24, 0, 0, 0);
+      const message = used >= limit
+        ? `You have used today's allowance of ${limit} ${KIND_NAMES[kind]}. It resets at midnight UTC.`
+        : `Only ${limit - used} of today's ${limit} ${KIND_NAMES[kind]} are left; ask for fewer or wait until midnight UTC.`;
+      throw new HttpError(429, 'RESOURCE_EXHAUSTED', message,
+        { headers: { 'Retry-After': String(Math.ceil((midnight - now) / 1000)) }, details: { reason: 'QUOTA' } });
+    }
+  }
+  if (quota.costPerMonth) {
+    const month = monthOf(now);
+    const spent = totalsOf(calls.filter(call => monthOf(call.at) === month)).cost;
+    if (spent >= quota.costPerMonth) {
+      throw new HttpError(429, 'RESOURCE_EXHAUSTED', `You have reached this month's spending limit of $${quota.costPerMonth.toFixed(2)}.`,
+        { details: { reason: 'QUOTA' } });
+    }
+  }
+  const key = `${userId}:${kind}`;
+  reserved.set(key, (reserved.get(key) ?? 0) + requested);
+};
+
+const releaseQuota = (userId, kind, units) => {
+  const key = `${userId}:${kind}`;
+  const left = (reserved.get(key) ?? 0) - units;
+  if (left > 0) reserved.set(key, left);
+  else reserved.delete(key);
+};
+
+/** `units` is the number of images an image call returned. */
+const recordCall = (userId, kind, model, outcome, startedAt, usageMetadata, units = 1) => {
+  const inputTokens = usageMetadata?.promptTokenCount ?? 0;
+  const outputTokens = (usageMetadata?.candidatesTokenCount ?? 0) + (usageMetadata?.thoughtsTokenCount ?? 0);
+  usageData.calls.push({
+    userId,
+    kind,
+    model,
+    outcome,
+    at: startedAt,
+    latencyMs: Date.now() - startedAt,
+    inputTokens,
+    outputTokens,
+    ...(units === 1 ? {} : { units }),
+    cost: costOf(model, inputTokens, outputTokens, kind === 'image' && outcome === 'ok' ? units : 0)
+  });
+  scheduleSave();
+};
+
+/** Daily and monthly totals for one user, with quota warnings and the latest calls. */
+const usageSummary = (userId) => {
+  const now = Date.now();
+  const calls = callsOf(userId);
+  const byDay = groupBy(calls, call => dayOf(call.at));
+  const byMonth = groupBy(calls, call => monthOf(call.at));
+  const days = Array.from({ length: 30 }, (_, i) => dayOf(now - (29 - i) * 24 * 60 * 60 * 1000))
+    .map(date => ({ date, ...totalsOf(byDay.get(date) || []) }));
+  const months = [...byMonth.keys()].sort().slice(-12).map(month => ({ month, ...totalsOf(byMonth.get(month)) }));
+  const quota = quotaFor(userId);
+  const today = totalsOf(byDay.get(dayOf(now)) || []);
+  const month = totalsOf(byMonth.get(monthOf(now)) || []);
+  return {
+    quota,
+    today,
+    month,
+    days,
+    months,
+    warnings: warningsFor(quota, today, month),
+    recent: calls.slice(-RECENT_CALLS).reverse().map(({ userId, ...call }) => call)
+  };
+};
+
+const checkQuotaValue = (value, name) => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw invalid(`${name} must be a number of at least 0.`);
+  return value;
+};
+
+// --- Validation ---
+
+const isString = (value, max) => typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const checkInlineData = (value, kind, maxBytes) => {
+  if (!value || typeof value.data !== 'string' || !BASE64.test(value.data)) throw invalid(`The ${kind} data must be base64.`);
+  if (typeof value.mimeType !== 'string' || !value.mimeType.startsWith(`${kind}/`)) throw invalid(`The ${kind} must have an ${kind}/* MIME type.`);
+  if (value.data.length * 0.75 > maxBytes) throw invalid(`The ${kind} is larger than ${maxBytes / 1024 / 1024} MB.`);
+  return { data: value.data, mimeType: value.mimeType };
+};
+
+const VOICE_NAME = /^[A-Z][a-z]{1,20}$/;
+
+/** The text sent to the speech model, with style and pace as a spoken direction. */
+const checkSpeech = ({ text, voice, style = '', rate = 1 }) => {
+  if (!isString(text, 3000)) throw invalid("text must be a non-empty string of at most 3000 characters.");
+  if (typeof voice !== 'string' || !VOICE_NAME.test(voice)) throw invalid("voice must be the name of a prebuilt voice.");
+  if (typeof style !== 'string' || style.length > 40) throw invalid("style must be a string of at most 40 characters.");
+  if (typeof rate !== 'number' || !(rate >= 0.5 && rate <= 2)) throw invalid("rate must be a number from 0.5 to 2.");
+  const pace = rate <= 0.8 ? 'slowly' : rate < 1 ? 'a little slowly' : rate >= 1.25 ? 'quickly' : rate > 1 ? 'a little quickly' : '';
+  const manner = [style && `in a ${style} voice`, pace].filter(Boolean).join(', ');
+  return { voice, directive: manner ? `Say ${manner}: ${text.trim()}` : text.trim() };
+};
+
+const checkAspectRatio = (value) => {
+  if (!ASPECT_RATIOS.includes(value)) throw invalid(`aspectRatio must be one of ${ASPECT_RATIOS.join(', ')}.`);
+  return value;
+};
+
+const isImagen = (model) => model.startsWith('imagen-');
+
+/**
+ * Checks the model and its settings from a generate request. Imagen takes a
+ * sample count but has no seed, temperature, safety thresholds or references.
+ */
+const checkImageSettings = (body) => {
+  const model = body.model ?? IMAGE_MODEL;
+  if (!IMAGE_MODELS.includes(model)) throw invalid(`model must be one of ${IMAGE_MODELS.join(', ')}.`);
+  const maxCandidates = isImagen(model) ? 4 : 1;
+  const candidateCount = body.candidateCount ?? 1;
+  if (!Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > maxCandidates) {
+    throw invalid(`candidateCount must be from 1 to ${maxCandidates} for ${model}.`);
+  }
+  const settings = { model, candidateCount };
+  if (body.seed !== undefined) {
+    if (isImagen(model)) throw invalid(`${model} does not take a seed.`);
+    if (!Number.isInteger(body.seed) || body.seed < 0 || body.seed > MAX_SEED) throw invalid(`seed must be a whole number from 0 to ${MAX_SEED}.`);
+    settings.seed = body.seed;
+  }
+  if (body.temperature !== undefined) {
+    if (isImagen(model)) throw invalid(`${model} has no temperature setting.`);
+    if (typeof body.temperature !== 'number' || !(body.temperature >= 0 && body.temperature <= 2)) throw invalid("temperature must be from 0 to 2.");
+    settings.temperature = body.temperature;
+  }
+  if (body.safety !== undefined) {
+    if (isImagen(model)) throw invalid(`${model} uses its own safety filter.`);
+    if (!body.safety || typeof body.safety !== 'object') throw invalid("safety must map categories to thresholds.");
+    settings.safetySettings = Object.entries(body.safety).map(([category, threshold]) => {
+      if (!HARM_CATEGORIES[category]) throw invalid(`safety categories must be among ${Object.keys(HARM_CATEGORIES).join(', ')}.`);
+      if (!SAFETY_THRESHOLDS.includes(threshold)) throw invalid(`safety thresholds must be one of ${SAFETY_THRESHOLDS.join(', ')}.`);
+      return { category: HARM_CATEGORIES[category], threshold };
+    });
+  }
+  if (body.references !== undefined) {
+    if (isImagen(model)) throw invalid(`${model} cannot take reference images.`);
+    if (!Array.isArray(body.references) || body.references.length > MAX_REFERENCES) throw invalid(`references must be a list of at most ${MAX_REFERENCES} images.`);
+    settings.referenceParts = body.references.flatMap(reference => {
+      if (!REFERENCE_LEADS[reference?.role]) throw invalid(`Each reference role must be one of ${Object.keys(REFERENCE_LEADS).join(', ')}.`);
+      return [{ text: REFERENCE_LEADS[reference.role] }, { inlineData: checkInlineData(reference, 'image', 10 * 1024 * 1024) }];
+    });
+  }
+  return settings;
+};
+
+const checkPart = (part) => {
+  if (!part || typeof part !== 'object') throw invalid("Each part must be an object.");
+  if (typeof part.text === 'string') return { text: part.text };
+  if (part.inlineData) return { inlineData: checkInlineData(part.inlineData, 'image', 10 * 1024 * 1024) };
+  if (part.functionCall && typeof part.functionCall.name === 'string') {
+    return { functionCall: part.functionCall, ...(typeof part.thoughtSignature === 'string' ? { thoughtSignature: part.thoughtSignature } : {}) };
+  }
+  if (part.functionResponse && typeof part.functionResponse.name === 'string') return { functionResponse: part.functionResponse };
+  throw invalid("Parts must hold text, inlineData, functionCall or functionResponse.");
+};
+
+const checkContents = (contents) => {
+  if (!Array.isArray(contents) || contents.length === 0) throw invalid("contents must be a non-empty array.");
+  if (contents.length > 400) throw invalid("contents has too many turns.");
+  return contents.map(turn => {
+    if (!ROLES.includes(turn?.role) || !Array.isArray(turn.parts) || turn.parts.length === 0) {
+      throw invalid("Each turn needs a role of 'user' or 'model' and at least one part.");
+    }
+    return { role: turn.role, parts: turn.parts.map(checkPart) };
+  });
+};
+
+const checkSystemInstruction = (value) => {
+  if (value === undefined) return undefined;
+  if (!isString(value, 20000)) throw invalid("systemInstruction must be a string of at most 20000 characters.");
+  return { parts: [{ text: value }] };
+};
+
+const checkTools = (tools) => {
+  if (tools === undefined || (Array.isArray(tools) && tools.length === 0)) return undefined;
+  if (!Array.isArray(tools) || tools.length > 16) throw invalid("tools must be an array of at most 16 declarations.");
+  const functionDeclarations = tools.map(tool => {
+    if (!isString(tool?.name, 64) || !isString(tool.description, 2000) || !tool.parameters || typeof tool.parameters !== 'object') {
+      throw invalid("Each tool needs a name, description and parameters.");
+    }
+    const properties = Object.fromEntries(Object.entries(tool.parameters).map(([key, param]) => {
+      const type = PARAMETER_TYPES[param?.type];
+      if (!type) throw invalid(`Tool parameter ${tool.name}.${key} has an unknown type.`);
+      return [key, { type, description: String(param.description ?? ''), ...(Array.isArray(param.enum) ? { enum: param.enum.map(String) } : {}) }];
+    }));
+    return { name: tool.name, description: tool.description, parameters: { type: 'OBJECT', properties, required: Array.isArray(tool.required) ? tool.required : [] } };
+  });
+  return [{ functionDeclarations }];
+};
+
+// --- Upstream ---
+
+const upstreamUrl = (model, method) =>
+  `${UPSTREAM}/v1beta/models/${encodeURIComponent(model)}:${method}${method === 'streamGenerateContent' ? '?alt=sse' : ''}`;
+
+const callUpstream = async (model, method, body, signal) => {
+  if (!API_KEY) throw new HttpError(500, 'FAILED_PRECONDITION', "The proxy has no GEMINI_API_KEY configured.", { details: { reason: 'MISSING_KEY' } });
+  let response;
+  try {
+    response = await fetch(upstreamUrl(model, method), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': API_KEY },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new HttpError(502, 'UNAVAILABLE', "The model API cannot be reached.");
+  }
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    const message = payload.error?.message || `The model API returned ${response.status}.`;
+    const keyRefused = response.status === 403 || payload.error?.details?.some?.(detail => detail.reason === 'API_KEY_INVALID');
+    if (keyRefused) {
+      throw new HttpError(500, 'FAILED_PRECONDITION', "The model API refused the proxy's GEMINI_API_KEY.", { details: { reason: 'MISSING_KEY' } });
+    }
+    // Client mistakes and rate limits pass through; anything else is the upstream's fault
+    const code = response.status === 400 || response.status === 429 ? response.status : 502;
+    throw new HttpError(code, payload.error?.status || 'UNAVAILABLE', message);
+  }
+  return response;
+};
+
+const partsOf = (response) => response.candidates?.[0]?.content?.parts ?? [];
+const textOf = (response) => partsOf(response).filter(p => typeof p.text === 'string' && !p.thought).map(p => p.text).join('');
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+const PROBABILITIES = ['NEGLIGIBLE', 'LOW', 'MEDIUM', 'HIGH'];
+
+// The blocked rating names the category; otherwise the most likely one is the best guess
+const blockingCategory = (ratings = []) => {
+  const blocked = ratings.find(rating => rating.blocked);
+  if (blocked) return blocked.category;
+  const likeliest = [...ratings].sort((a, b) => PROBABILITIES.indexOf(b.probability) - PROBABILITIES.indexOf(a.probability))[0];
+  return likeliest && PROBABILITIES.indexOf(likeliest.probability) >= 2 ? likeliest.category : undefined;
+};
+
+/** Throws when the model refused the prompt or withheld its answer. */
+const checkSafety = (response) => {
+  const feedback = response.promptFeedback;
+  const candidate = response.candidates?.[0];
+  const blockReason = feedback?.blockReason
+    || (BLOCKING_FINISH_REASONS.includes(candidate?.finishReason) ? candidate.finishReason : undefined);
+  if (!blockReason) return response;
+  const category = blockingCategory(feedback?.blockReason ? feedback.safetyRatings : candidate.safetyRatings);
+  throw new HttpError(422, 'FAILED_PRECONDITION', "The request was blocked by the safety filter.", { details: { reason: 'SAFETY', blockReason, category } });
+};
+
+const emptyResponse = (message) => new HttpError(502, 'INTERNAL', message, { details: { reason: 'EMPTY_RESPONSE' } });
+
+const imageFrom = (response) => {
+  const part = partsOf(checkSafety(response)).find(p => p.inlineData);
+  if (!part) throw emptyResponse("No image was generated by the model.");
+  return { image: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`, model: IMAGE_MODEL };
+};
+
+/** Every image across the response's candidates. */
+const imagesFrom = (response) => {
+  const images = (checkSafety(response).candidates ?? [])
+    .flatMap(candidate => candidate.content?.parts ?? [])
+    .filter(p => p.inlineData)
+    .map(p => `data:${p.inlineData.mimeType};base64,${p.inlineData.data}`);
+  if (images.length === 0) throw emptyResponse("No image was generated by the model.");
+  return images;
+};
+
+// Imagen leaves filtered samples out and only says why, so an empty result is a block
+const imagenImagesFrom = (response) => {
+  const predictions = response.predictions ?? [];
+  const images = predictions.filter(p => p.bytesBase64Encoded).map(p => `data:${p.mimeType || 'image/png'};base64,${p.bytesBase64Encoded}`);
+  if (images.length > 0) return images;
+  const filtered = predictions.find(p => p.raiFilteredReason);
+  if (filtered) {
+    throw new HttpError(422, 'FAILED_PRECONDITION', "The request was blocked by the safety filter.", { details: { reason: 'SAFETY', blockReason: 'IMAGE_SAFETY' } });
+  }
+  throw emptyResponse("No image was generated by the model.");
+};
+
+/** Yields each JSON event of an upstream server-sent-event stream. */
+async function* readEvents(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) >= 0) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+      const data = event.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('');
+      if (data) yield JSON.parse(data);
+    }
+  }
+}
+
+// --- Routes ---
+
+const routes = {
+  'GET /api/usage': {
+    async handle(body, { user }) {
+      const summary = { user, admin: isAdmin(user), ...usageSummary(user.id) };
+      if (!summary.admin) return summary;
+      const month = monthOf(Date.now());
+      const today = dayOf(Date.now());
+      const users = Object.entries(usageData.users).map(([id, { name, email }]) => {
+        const calls = callsOf(id);
+        return {
+          id,
+          name,
+          email,
+          quota: quotaFor(id),
+          custom: id in usageData.quotas,
+          today: totalsOf(calls.filter(call => dayOf(call.at) === today)),
+          month: totalsOf(calls.filter(call => monthOf(call.at) === month))
+        };
+      });
+      return { ...summary, users };
+    }
+  },
+
+  'POST /api/usage/quota': {
+    async handle(body, { user }) {
+      if (!isAdmin(user)) throw new HttpError(403, 'PERMISSION_DENIED', "Only usage admins can change quotas.");
+      if (typeof body.userId !== 'string' || !(body.userId in usageData.users)) throw invalid("userId must be a known user.");
+      // null puts the user back on the default allowance
+      if (body.quota === null) {
+        delete usageData.quotas[body.userId];
+      } else {
+        const quota = body.quota && typeof body.quota === 'object' ? body.quota : {};
+        usageData.quotas[body.userId] = Object.fromEntries(Object.keys(DEFAULT_QUOTA)
+          .map(field => [field, checkQuotaValue(quota[field], field)])
+          .filter(([, value]) => value !== undefined));
+      }
+      scheduleSave();
+      return { quota: quotaFor(body.userId) };
+    }
+  },
+
+  'POST /api/images/generate': {
+    kind: 'image',
+    model: IMAGE_MODEL,
+    modelOf: (body) => IMAGE_MODELS.includes(body.model) ? body.model : IMAGE_MODEL,
+    unitsOf: (body) => Number.isInteger(body.candidateCount) && body.candidateCount > 1 ? body.candidateCount : 1,
+    async handle(body, { signal, meter }) {
+      if (!isString(body.prompt, 4000)) throw invalid("prompt must be a non-empty string of at most 4000 characters.");
+      const aspectRatio = checkAspectRatio(body.aspectRatio);
+      const { model, candidateCount, seed, temperature, safetySettings, referenceParts = [] } = checkImageSettings(body);
+      let images;
+      if (isImagen(model)) {
+        const response = await callUpstream(model, 'predict', {
+          instances: [{ prompt: body.prompt }],
+          parameters: { sampleCount: candidateCount, aspectRatio }
+        }, signal);
+        images = imagenImagesFrom(await response.json());
+      } else {
+        const response = await callUpstream(model, 'generateContent', {
+          contents: [{ role: 'user', parts: [...referenceParts, { text: body.prompt }] }],
+          generationConfig: { candidateCount, seed, temperature, imageConfig: { aspectRatio } },
+          safetySettings
+        }, signal);
+        images = imagesFrom(meter.track(await response.json()));
+      }
+      meter.units = images.length;
+      return { images, model };
+    }
+  },
+
+  'POST /api/images/edit': {
+    kind: 'image',
+    model: IMAGE_MODEL,
+    async handle(body, { signal, meter }) {
+      const image = checkInlineData(body.image, 'image', 10 * 1024 * 1024);
+      if (!isString(body.instruction, 2000)) throw invalid("instruction must be a non-empty string of at most 2000 characters.");
+      const response = await callUpstream(IMAGE_MODEL, 'generateContent', {
+        contents: [{ role: 'user', parts: [{ inlineData: image }, { text: body.instruction }] }],
+        generationConfig: { imageConfig: { aspectRatio: checkAspectRatio(body.aspectRatio) } }
+      }, signal);
+      return imageFrom(meter.track(await response.json()));
+    }
+  },
+
+  'POST /api/chat': {
+    kind: 'chat',
+    model: TEXT_MODEL,
+    async handle(body, { signal, meter }) {
+      const response = await callUpstream(TEXT_MODEL, 'generateContent', {
+        contents: checkContents(body.contents),
+        systemInstruction: checkSystemInstruction(body.systemInstruction)
+      }, signal);
+      return { text: textOf(checkSafety(meter.track(await response.json()))) };
+    }
+  },
+
+  'POST /api/chat/stream': {
+    kind: 'chat',
+    model: TEXT_MODEL,
+    stream: true,
+    async handle(body, { signal, res, meter }) {
+      const response = await callUpstream(TEXT_MODEL, 'streamGenerateContent', {
+        contents: checkContents(body.contents),
+        systemInstruction: checkSystemInstruction(body.systemInstruction),
+        tools: checkTools(body.tools)
+      }, signal);
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      try {
+        for await (const chunk of readEvents(response.body)) {
+          // Token counts arrive with the last chunk
+          if (chunk.usageMetadata) meter.track(chunk);
+          // A blocked chunk may still carry text, which must not reach the browser
+          for (const part of partsOf(checkSafety(chunk))) {
+            if (part.functionCall?.name) {
+              const { id, name, args } = part.functionCall;
+              res.write(`data: ${JSON.stringify({ functionCall: { id, name, args: args ?? {}, thoughtSignature: part.thoughtSignature } })}\n\n`);
+            } else if (part.text && !part.thought) {
+              res.write(`data: ${JSON.stringify({ text: part.text })}\n\n`);
+            }
+          }
+        }
+      } catch (err) {
+        // Headers are already sent, so the failure travels as a final event
+        meter.failed = true;
+        if (!signal.aborted) {
+          const failure = err instanceof HttpError
+            ? { code: err.code, message: err.message, status: err.status, ...err.details }
+            : { code: 502, message: "The stream was interrupted.", status: 'UNAVAILABLE' };
+          res.write(`event: error\ndata: ${JSON.stringify(failure)}\n\n`);
+        }
+      }
+      res.end();
+    }
+  },
+
+  'POST /api/speech': {
+    kind: 'audio',
+    model: SPEECH_MODEL,
+    async handle(body, { signal, meter }) {
+      const { voice, directive } = checkSpeech(body);
+      const response = await callUpstream(SPEECH_MODEL, 'generateContent', {
+        contents: [{ role: 'user', parts: [{ text: directive }] }],
+        generationConfig: {
+          responseModalities: ['AUDIO'],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } }
+        }
+      }, signal);
+      const part = partsOf(checkSafety(meter.track(await response.json()))).find(p => p.inlineData?.data);
+      if (!part) throw emptyResponse("No speech was generated by the model.");
+      return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'audio/L16;codec=pcm;rate=24000' };
+    }
+  },
+
+  'POST /api/audio/analyze': {
+    kind: 'audio',
+    model: TEXT_MODEL,
+    async handle(body, { signal, meter }) {
+      const audio = checkInlineData(body, 'audio', 20 * 1024 * 1024);
+      if (!isString(body.instruction, 4000)) throw invalid("instruction must be a non-empty string of at most 4000 characters.");
+      const response = await callUpstream(TEXT_MODEL, 'generateContent', {
+        contents: [{ role: 'user', parts: [{ inlineData: audio }, { text: body.instruction }] }],
+        systemInstruction: checkSystemInstruction(body.systemInstruction),
+        generationConfig: { responseMimeType: 'application/json', responseSchema: AUDIO_ANALYSIS_SCHEMA }
+      }, signal);
+      const text = textOf(checkSafety(meter.track(await response.json())));
+      if (!text) throw emptyResponse("The model returned an empty analysis.");
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw emptyResponse("The model returned an analysis that is not JSON.");
+      }
+    }
+  }
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'INVALID_ARGUMENT', "Request body is too large."));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+      if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error();
+      resolve(body);
+    } catch {
+      reject(invalid("Request body must be a JSON object."));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendError = (res, err) => {
+  if (!(err instanceof HttpError)) console.error(err);
+  const code = err instanceof HttpError ? err.code : 500;
+  const status = err instanceof HttpError ? err.status : 'INTERNAL';
+  const message = err instanceof HttpError ? err.message : "Something went wrong in the proxy.";
+  res.writeHead(code, { 'Content-Type': 'application/json', ...(err.headers || {}) });
+  res.end(JSON.stringify({ error: { code, message, status, ...err.details } }));
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const route = routes[`${req.method} ${new URL(req.url || '/', 'http://localhost').pathname}`];
+  if (!route) {
+    sendError(res, new HttpError(404, 'NOT_FOUND', `No route for ${req.method} ${req.url}`));
+    return;
+  }
+
+  // Stop the upstream call when the browser goes away
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+  // Token counts, images returned and outcome of the model call, filled in by the route
+  const meter = {
+    usageMetadata: undefined,
+    units: 1,
+    failed: false,
+    track(response) {
+      this.usageMetadata = response.usageMetadata ?? this.usageMetadata;
+      return response;
+    }
+  };
+  let user = null;
+  let startedAt = null;
+  let requested = 1;
+  let model = route.model;
+  try {
+    user = await authenticate(req);
+    const body = req.method === 'POST' ? await readBody(req) : {};
+    model = route.modelOf?.(body) ?? route.model;
+    if (route.kind) {
+      checkRateLimit(user.id, route.kind);
+      requested = route.unitsOf?.(body) ?? 1;
+      try {
+        checkQuota(user.id, route.kind, requested);
+      } catch (err) {
+        recordCall(user.id, route.kind, model, 'blocked', Date.now());
+        throw err;
+      }
+      startedAt = Date.now();
+    }
+    const result = await route.handle(body, { signal: controller.signal, res, meter, user });
+    if (!route.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    }
+  } catch (err) {
+    meter.failed = true;
+    if (!controller.signal.aborted) sendError(res, err);
+  }
+  if (startedAt !== null) {
+    const outcome = controller.signal.aborted ? 'cancelled' : meter.failed ? 'error' : 'ok';
+    // The reservation turns into the recorded call in the same tick, so nothing is counted twice or missed
+    releaseQuota(user.id, route.kind, requested);
+    recordCall(user.id, route.kind, model, outcome, startedAt, meter.usageMetadata, meter.units);
+  }
+});
+
+await loadUsage();
+server.listen(PORT, () => {
+  console.log(`FlipArt API proxy listening on http://localhost:${PORT} (upstream ${UPSTREAM})`);
+  if (!API_KEY) console.warn("GEMINI_API_KEY is not set; model calls will fail until it is.");
+});
@@ -0,0 +1,212 @@
+// Local account server. Stores users with scrypt-hashed passwords and hands
+// out expiring session tokens; the app talks to it through services/authService.
+//
+//   node scripts/auth-server.mjs [port]
+//
+// Accounts live in a JSON file (AUTH_DATA_FILE, default .flipart-auth.json).
+// Sessions last SESSION_TTL_HOURS (default 168, one week).
+import http from 'node:http';
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { promisify } from 'node:util';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8788);
+const DATA_FILE = process.env.AUTH_DATA_FILE || '.flipart-auth.json';
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_HOURS || 168) * 60 * 60 * 1000;
+const MAX_BODY_BYTES = 16 * 1024;
+
+const scryptAsync = promisify(scrypt);
+const SCRYPT_COST = 16384;
+const KEY_LENGTH = 64;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD = 8;
+const MAX_PASSWORD = 128;
+const MAX_NAME = 80;
+
+class HttpError extends Error {
+  constructor(code, status, message, fields) {
+    super(message);
+    this.code = code;
+    this.status = status;
+    this.fields = fields;
+  }
+}
+
+// --- Storage ---
+
+let data = { users: [], sessions: [] };
+let writing = Promise.resolve();
+
+const load = async () => {
+  try {
+    data = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+};
+
+// Writes are queued and go through a temporary file so a crash never leaves half a file
+const save = () => {
+  writing = writing.then(async () => {
+    await writeFile(`${DATA_FILE}.tmp`, JSON.stringify(data, null, 2));
+    await rename(`${DATA_FILE}.tmp`, DATA_FILE);
+  });
+  return writing;
+};
+
+// --- Passwords and tokens ---
+
+const hashPassword = async (password) => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH, { N: SCRYPT_COST });
+  return `scrypt$${SCRYPT_COST}$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+const verifyPassword = async (password, stored) => {
+  const [, cost, salt, key] = stored.split('$');
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length, { N: Number(cost) });
+  return timingSafeEqual(actual, expected);
+};
+
+// Checked against unknown emails so a wrong address takes as long as a wrong password
+const DUMMY_HASH = await hashPassword(randomBytes(16).toString('hex'));
+
+// Only a digest of each token is kept, so the data file cannot be used to sign in
+const digest = (token) => createHash('sha256').update(token).digest('hex');
+
+const publicUser = ({ id, name, email }) => ({ id, name, email });
+
+const createSession = async (user) => {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  data.sessions = data.sessions.filter(s => s.expiresAt > now);
+  data.sessions.push({ tokenHash: digest(token), userId: user.id, createdAt: now, expiresAt: now + SESSION_TTL_MS });
+  await save();
+  return { token, expiresAt: now + SESSION_TTL_MS, user: publicUser(user) };
+};
+
+const sessionFor = (req) => {
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1];
+  const session = token && data.sessions.find(s => s.tokenHash === digest(token));
+  if (!session) throw new HttpError(401, 'UNAUTHENTICATED', "You are not signed in.");
+  if (session.expiresAt <= Date.now()) throw new HttpError(401, 'UNAUTHENTICATED', "Your session has expired. Please sign in again.");
+  const user = data.users.find(u => u.id === session.userId);
+  if (!user) throw new HttpError(401, 'UNAUTHENTICATED', "This account no longer exists.");
+  return { session, user };
+};
+
+// --- Handlers ---
+
+const validateSignup = ({ name, email, password }) => {
+  const fields = {};
+  if (typeof name !== 'string' || !name.trim()) fields.name = "Enter your name.";
+  else if (name.trim().length > MAX_NAME) fields.name = `Use at most ${MAX_NAME} characters.`;
+  if (typeof email !== 'string' || !EMAIL.test(email.trim())) fields.email = "Enter a valid email address.";
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD) fields.password = `Use at least ${MIN_PASSWORD} characters.`;
+  else if (password.length > MAX_PASSWORD) fields.password = `Use at most ${MAX_PASSWORD} characters.`;
+  if (Object.keys(fields).length > 0) throw new HttpError(400, 'INVALID_ARGUMENT', "Please fix the highlighted fields.", fields);
+};
+
+const routes = {
+  'POST /auth/signup': async (req, body) => {
+    validateSignup(body);
+    const email = body.email.trim().toLowerCase();
+    const ensureNew = () => {
+      if (data.users.some(u => u.email === email)) {
+        throw new HttpError(409, 'ALREADY_EXISTS', "An account with this email already exists.", { email: "This email is already registered." });
+      }
+    };
+    ensureNew();
+    const passwordHash = await hashPassword(body.password);
+    // Another signup for the same email may have finished while this one was hashing
+    ensureNew();
+    const user = { id: randomUUID(), name: body.name.trim(), email, passwordHash, createdAt: Date.now() };
+    data.users.push(user);
+    return [201, await createSession(user)];
+  },
+
+  'POST /auth/login': async (req, body) => {
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+    const user = data.users.find(u => u.email === email);
+    const valid = await verifyPassword(password, user?.passwordHash ?? DUMMY_HASH);
+    if (!user || !valid) throw new HttpError(401, 'UNAUTHENTICATED', "Incorrect email or password.");
+    return [200, await createSession(user)];
+  },
+
+  'GET /auth/session': async (req) => {
+    const { session, user } = sessionFor(req);
+    return [200, { expiresAt: session.expiresAt, user: publicUser(user) }];
+  },
+
+  'POST /auth/logout': async (req) => {
+    const { session } = sessionFor(req);
+    data.sessions = data.sessions.filter(s => s !== session);
+    await save();
+    return [204, null];
+  }
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'INVALID_ARGUMENT', "Request body is too large."));
+      req.destroy();
+    }
+  });
+  req.on('end', () => {
+    try {
+      const body = JSON.parse(raw || '{}');
+      if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error();
+      resolve(body);
+    } catch {
+      reject(new HttpError(400, 'INVALID_ARGUMENT', "Request body must be a JSON object."));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res, code, payload) => {
+  if (payload === null) {
+    res.writeHead(code).end();
+    return;
+  }
+  res.writeHead(code, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const route = routes[`${req.method} ${new URL(req.url || '/', 'http://localhost').pathname}`];
+  if (!route) {
+    send(res, 404, { error: { code: 404, message: `No route for ${req.method} ${req.url}`, status: 'NOT_FOUND' } });
+    return;
+  }
+
+  try {
+    const body = req.method === 'POST' ? await readBody(req) : {};
+    const [code, payload] = await route(req, body);
+    send(res, code, payload);
+  } catch (err) {
+    if (!(err instanceof HttpError)) console.error(err);
+    const code = err instanceof HttpError ? err.code : 500;
+    const status = err instanceof HttpError ? err.status : 'INTERNAL';
+    send(res, code, { error: { code, message: err instanceof HttpError ? err.message : "Something went wrong.", status, ...(err.fields ? { fields: err.fields } : {}) } });
+  }
+});
+
+await load();
+server.listen(PORT, () => {
+  console.log(`FlipArt auth server listening on http://localhost:${PORT} (accounts in ${DATA_FILE})`);
+});
@@ -0,0 +1,221 @@
+// Local stand-in for the Gemini REST API. It answers `generateContent`,
+// `streamGenerateContent` and Imagen's `predict` with the same request/response
+// shape so the app can run without a key or network. Seeds and candidate
+// counts are honoured: the same seed draws the same art.
+//
+//   node scripts/standin-server.mjs [port]
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8787);
+
+const DIMENSIONS = {
+  '1:1': [1024, 1024],
+  '4:3': [1024, 768],
+  '3:4': [768, 1024],
+  '16:9': [1280, 720],
+  '9:16': [720, 1280]
+};
+
+const escapeXml = (value) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]));
+
+const renderArt = (prompt, aspectRatio, salt = '') => {
+  const [width, height] = DIMENSIONS[aspectRatio] || DIMENSIONS['1:1'];
+  const digest = createHash('sha256').update(`${prompt}|${aspectRatio}${salt}`).digest();
+  const hue = digest[0] * 360 / 256;
+  const bars = Array.from({ length: 12 }, (_, i) => {
+    const w = width / 12;
+    const h = (digest[i + 1] / 255) * height;
+    return `<rect x="${i * w}" y="${height - h}" width="${w - 4}" height="${h}" fill="hsl(${(hue + i * 12) % 360} 70% 55%)" fill-opacity="0.7"/>`;
+  }).join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+    + `<rect width="100%" height="100%" fill="hsl(${hue} 50% 12%)"/>${bars}`
+    + `<text x="50%" y="60" text-anchor="middle" font-family="sans-serif" font-size="28" fill="#fff">${escapeXml(prompt.slice(0, 60))}</text>`
+    + `</svg>`;
+  return Buffer.from(svg).toString('base64');
+};
+
+// A second of 16-bit PCM per ten words, as a tone whose pitch follows the voice
+const renderSpeech = (text, voice = '') => {
+  const sampleRate = 24000;
+  const pitch = 120 + createHash('sha256').update(voice).digest()[0] / 2;
+  const length = Math.max(sampleRate / 2, Math.round(text.split(/\s+/).length / 10 * sampleRate));
+  const pcm = Buffer.alloc(length * 2);
+  for (let i = 0; i < length; i++) {
+    const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * 3 * i / sampleRate);
+    pcm.writeInt16LE(Math.round(8000 * envelope * Math.sin(2 * Math.PI * pitch * i / sampleRate)), i * 2);
+  }
+  return { mimeType: `audio/L16;codec=pcm;rate=${sampleRate}`, data: pcm.toString('base64') };
+};
+
+const textOf = (body) => (body.contents || [])
+  .flatMap(c => c.parts || [])
+  .filter(p => typeof p.text === 'string')
+  .map(p => p.text)
+  .pop() || '';
+
+// Builds a minimal value that satisfies a Gemini response schema.
+const sampleFor = (schema, name = 'value') => {
+  switch (schema?.type) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFor(value, key)]));
+    case 'ARRAY':
+      return [sampleFor(schema.items, name)];
+    case 'NUMBER':
+    case 'INTEGER':
+      return 0;
+    case 'BOOLEAN':
+      return false;
+    default:
+      return schema?.enum?.[0] ?? `[Local stand-in ${name}]`;
+  }
+};
+
+// Mirrors the offline provider: "draw ..." style requests become a generate_image call.
+const DRAW_REQUEST = /^(?:please\s+)?(?:generate|draw|paint|create|make)\s+(?:an?\s+)?(?:image|picture)?\s*(?:of\s+)?(.+)/i;
+
+const toolCallFor = (body) => {
+  const declared = (body.tools || []).flatMap(t => t.functionDeclarations || []).map(d => d.name);
+  const last = (body.contents || []).at(-1);
+  if (!declared.includes('generate_image') || last?.role !== 'user') return null;
+  const match = DRAW_REQUEST.exec((last.parts || []).map(p => p.text || '').join(' ').trim());
+  return match ? { name: 'generate_image', args: { prompt: match[1], aspectRatio: '1:1' } } : null;
+};
+
+const functionResponsesOf = (body) => ((body.contents || []).at(-1)?.parts || [])
+  .filter(p => p.functionResponse)
+  .map(p => p.functionResponse.name);
+
+// Lets the app's safety-block handling be tried without real unsafe prompts
+const BLOCKED_PROMPT = /\[blocked\]/i;
+
+const blockedResponse = (model, prompt) => ({
+  promptFeedback: {
+    blockReason: 'SAFETY',
+    safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true }]
+  },
+  usageMetadata: { promptTokenCount: Math.ceil(prompt.length / 4), totalTokenCount: Math.ceil(prompt.length / 4) },
+  modelVersion: model
+});
+
+const respond = (model, body) => {
+  const prompt = textOf(body);
+  if (BLOCKED_PROMPT.test(prompt)) return blockedResponse(model, prompt);
+  const config = body.generationConfig || {};
+  const toolCall = toolCallFor(body);
+  const answered = functionResponsesOf(body);
+  let parts;
+  if (toolCall) {
+    parts = [{ functionCall: toolCall }];
+  } else if (answered.length > 0) {
+    parts = [{ text: `[Local stand-in] Finished ${answered.join(', ')}.` }];
+  } else if (config.responseModalities?.includes('AUDIO')) {
+    parts = [{ inlineData: renderSpeech(prompt, config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName) }];
+  } else if (model.includes('image')) {
+    // Each candidate is its own answer with one image
+    const seed = config.seed === undefined ? '' : `|${config.seed}`;
+    return {
+      candidates: Array.from({ length: config.candidateCount || 1 }, (_, i) => ({
+        content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/svg+xml', data: renderArt(prompt, config.imageConfig?.aspectRatio, i ? `${seed}#${i}` : seed) } }] },
+        finishReason: 'STOP',
+        index: i
+      })),
+      usageMetadata: { promptTokenCount: Math.ceil(prompt.length / 4), candidatesTokenCount: 0, totalTokenCount: Math.ceil(prompt.length / 4) },
+      modelVersion: model
+    };
+  } else if (config.responseMimeType === 'application/json') {
+    parts = [{ text: JSON.stringify(sampleFor(config.responseSchema)) }];
+  } else {
+    parts = [{ text: `[Local stand-in] ${prompt ? `You said: "${prompt}"` : 'No text received.'}` }];
+  }
+  return {
+    candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP', index: 0 }],
+    usageMetadata: { promptTokenCount: Math.ceil(prompt.length / 4), candidatesTokenCount: 0, totalTokenCount: Math.ceil(prompt.length / 4) },
+    modelVersion: model
+  };
+};
+
+// Imagen filters blocked samples out, leaving only the reason
+const predict = (body) => {
+  const prompt = body.instances?.[0]?.prompt ?? '';
+  const { sampleCount = 1, aspectRatio } = body.parameters || {};
+  if (BLOCKED_PROMPT.test(prompt)) return { predictions: [{ raiFilteredReason: 'The prompt was blocked by the stand-in safety filter.' }] };
+  return {
+    predictions: Array.from({ length: sampleCount }, (_, i) => ({
+      mimeType: 'image/svg+xml',
+      bytesBase64Encoded: renderArt(prompt, aspectRatio, `#${i}|${Math.random()}`)
+    }))
+  };
+};
+
+const ROUTE = /^\/v1beta\/models\/([^/:]+):(generateContent|streamGenerateContent|predict)/;
+
+// Server-sent events, one word per chunk, as the SDK expects with `alt=sse`.
+const streamResponse = (res, response) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const [candidate] = response.candidates ?? [];
+  if (!candidate || candidate.content.parts.some(p => p.functionCall)) {
+    res.end(`data: ${JSON.stringify(response)}\n\n`);
+    return;
+  }
+  const words = candidate.content.parts.map(p => p.text ?? '').join('').split(/(?<= )/);
+  let i = 0;
+  const timer = setInterval(() => {
+    if (i >= words.length || res.destroyed) {
+      clearInterval(timer);
+      res.end();
+      return;
+    }
+    const last = i === words.length - 1;
+    const chunk = {
+      candidates: [{ content: { role: 'model', parts: [{ text: words[i++] }] }, index: 0, ...(last ? { finishReason: 'STOP' } : {}) }],
+      ...(last ? { usageMetadata: response.usageMetadata } : {})
+    };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }, 30);
+};
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const match = req.method === 'POST' && ROUTE.exec(req.url || '');
+  if (!match) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 404, message: `No route for ${req.method} ${req.url}`, status: 'NOT_FOUND' } }));
+    return;
+  }
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      const body = JSON.parse(raw || '{}');
+      if (match[2] === 'predict') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(predict(body)));
+        return;
+      }
+      const response = respond(decodeURIComponent(match[1]), body);
+      if (match[2] === 'streamGenerateContent') {
+        streamResponse(res, response);
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    } catch (err) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 400, message: err.message, status: 'INVALID_ARGUMENT' } }));
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`FlipArt stand-in listening on http://localhost:${PORT}`);
+});
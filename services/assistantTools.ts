@@ -0,0 +1,113 @@
+import { AspectRatio, GeneratedImage, GenerationSettings, ToolCall } from "../types";
+import { currentImageModel, currentImageModels, editImage, generateImage } from "./geminiService";
+import { resolveSettings } from "./generationSettings";
+import { getImage, searchImages } from "./galleryStore";
+import { ToolDeclaration } from "./providers";
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16'];
+
+export const ASSISTANT_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'generate_image',
+    description: "Generates a new image from a text prompt and adds it to the user's gallery.",
+    parameters: {
+      prompt: { type: 'string', description: "Detailed description of the image to create." },
+      aspectRatio: { type: 'string', description: "Shape of the image. Defaults to 1:1.", enum: ASPECT_RATIOS }
+    },
+    required: ['prompt']
+  },
+  {
+    name: 'edit_image',
+    description: "Applies an instruction to an existing gallery image, saving the result as a new version.",
+    parameters: {
+      imageId: { type: 'string', description: "Id of the gallery image to edit, as given in the conversation or by search_gallery." },
+      instruction: { type: 'string', description: "What to change, e.g. 'make the sky stormy'." }
+    },
+    required: ['imageId', 'instruction']
+  },
+  {
+    name: 'search_gallery',
+    description: "Finds images in the user's gallery whose prompt matches the query. Returns ids and prompts.",
+    parameters: {
+      query: { type: 'string', description: "Words to look for in image prompts." }
+    },
+    required: ['query']
+  }
+];
+
+/** Tools that spend a generation, so the user may want to approve them first. */
+export const GENERATION_TOOLS = ['generate_image', 'edit_image'];
+
+export const TOOL_LABELS: Record<string, string> = {
+  generate_image: 'Generate image',
+  edit_image: 'Edit image',
+  search_gallery: 'Search gallery'
+};
+
+export interface ToolOutcome {
+  /** Sent back to the model as the function response. */
+  result: Record<string, unknown>;
+  /** New gallery image to show in the chat. */
+  image?: GeneratedImage;
+}
+
+const newImageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Runs one assistant tool call. `store` saves a new image to the gallery and
+ * returns the stored entry; new images use the Lab's `settings`, one at a
+ * time. Failures are thrown for the caller to report.
+ */
+export const executeToolCall = async (
+  call: ToolCall,
+  store: (image: GeneratedImage) => Promise<GeneratedImage>,
+  settings: GenerationSettings,
+  signal: AbortSignal
+): Promise<ToolOutcome> => {
+  switch (call.name) {
+    case 'generate_image': {
+      const prompt = String(call.args.prompt ?? '').trim();
+      if (!prompt) throw new Error("No prompt was given.");
+      const requested = call.args.aspectRatio as AspectRatio;
+      const aspectRatio = ASPECT_RATIOS.includes(requested) ? requested : '1:1';
+      const used = resolveSettings({ ...settings, aspectRatio, candidateCount: 1 }, currentImageModels().find(m => m.id === settings.model));
+      const [url] = await generateImage(prompt, used, signal);
+      signal.throwIfAborted();
+      const image = await store({ id: newImageId(), url, prompt, timestamp: Date.now(), aspectRatio, model: used.model, settings: used });
+      return { result: { imageId: image.id, prompt, aspectRatio }, image };
+    }
+
+    case 'edit_image': {
+      const instruction = String(call.args.instruction ?? '').trim();
+      const source = await getImage(String(call.args.imageId ?? ''));
+      if (!source) throw new Error(`No gallery image has id "${call.args.imageId}".`);
+      if (!instruction) throw new Error("No edit instruction was given.");
+      const model = currentImageModel();
+      const url = await editImage(source, instruction, signal);
+      signal.throwIfAborted();
+      const image = await store({
+        id: newImageId(),
+        url,
+        prompt: source.prompt,
+        timestamp: Date.now(),
+        aspectRatio: source.aspectRatio,
+        model,
+        parentId: source.id,
+        editInstruction: instruction
+      });
+      return { result: { imageId: image.id, parentId: source.id, instruction }, image };
+    }
+
+    case 'search_gallery': {
+      const matches = await searchImages(String(call.args.query ?? ''));
+      return {
+        result: {
+          matches: matches.map(img => ({ imageId: img.id, prompt: img.prompt, editInstruction: img.editInstruction, aspectRatio: img.aspectRatio }))
+        }
+      };
+    }
+
+    default:
+      throw new Error(`Unknown tool "${call.name}".`);
+  }
+};
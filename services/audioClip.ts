@@ -0,0 +1,116 @@
+import { computePeaks, encodeWav } from "./audioDsp";
+import { decodeAudio, toMono } from "./audioEnhancer";
+
+// Limits for clips entering the Audio Studio, whether uploaded or recorded.
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+export const MAX_AUDIO_SECONDS = 7 * 60;
+export const MIN_AUDIO_SECONDS = 0.5;
+
+// The model takes requests of at most 20 MB, and audio travels base64-encoded,
+// a third larger than the file. The limit leaves room for the prompt. Other
+// selections are sent as 16 kHz mono WAV: seven minutes of it is 13.4 MB, or
+// 17.9 MB encoded.
+const MAX_INLINE_BYTES = 19 * 1000 * 1000;
+const ANALYSIS_SAMPLE_RATE = 16000;
+/** Formats the model accepts as they are; anything else is converted to WAV first. */
+const ANALYSIS_TYPES = ['audio/wav', 'audio/x-wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac'];
+
+const WAVEFORM_COLUMNS = 600;
+
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+export interface AudioClip {
+  file: File;
+  buffer: AudioBuffer;
+  /** Peaks across the whole clip for the trimming waveform. */
+  peaks: Float32Array;
+}
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const formatDuration = (seconds: number) => {
+  const whole = Math.max(0, seconds);
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${(whole - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/** Checks a file before it is decoded; returns the problem, or null when it is fine. */
+export const checkAudioFile = (file: File): string | null => {
+  if (file.type && !file.type.startsWith('audio/')) return `"${file.name}" is not an audio file. Choose a WAV, MP3 or M4A recording.`;
+  if (file.size === 0) return `"${file.name}" is empty.`;
+  if (file.size > MAX_AUDIO_BYTES) {
+    return `"${file.name}" is ${formatMb(file.size)}; the limit is ${formatMb(MAX_AUDIO_BYTES)}. Upload a shorter or more compressed clip.`;
+  }
+  return null;
+};
+
+/** Checks the selected part of a clip; returns the problem, or null when it can be sent. */
+export const checkSelection = ({ start, end }: TrimRange): string | null => {
+  const length = end - start;
+  if (length < MIN_AUDIO_SECONDS) return `The selection is too short. Keep at least ${MIN_AUDIO_SECONDS} seconds.`;
+  if (length > MAX_AUDIO_SECONDS) {
+    return `The selection is ${formatDuration(length)} long; the limit is ${formatDuration(MAX_AUDIO_SECONDS)}. Drag the handles to trim it.`;
+  }
+  return null;
+};
+
+/** Decodes a file for trimming, rejecting anything the browser cannot read. */
+export const loadAudioClip = async (file: File): Promise<AudioClip> => {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudio(file);
+  } catch {
+    throw new Error(`"${file.name}" could not be read. The file may be damaged or in a format this browser does not support.`);
+  }
+  if (buffer.duration < MIN_AUDIO_SECONDS) throw new Error(`"${file.name}" is too short. Clips need at least ${MIN_AUDIO_SECONDS} seconds of audio.`);
+  return { file, buffer, peaks: computePeaks(toMono(buffer), WAVEFORM_COLUMNS) };
+};
+
+export const isWholeClip = (clip: AudioClip, { start, end }: TrimRange) =>
+  start <= 0 && end >= clip.buffer.duration;
+
+/** The selected part of the clip as its own buffer. */
+export const trimBuffer = (buffer: AudioBuffer, { start, end }: TrimRange): AudioBuffer => {
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const trimmed = new AudioBuffer({ length: Math.max(1, to - from), numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+  for (let c = 0; c < buffer.numberOfChannels; c++) trimmed.copyToChannel(buffer.getChannelData(c).subarray(from, to), c);
+  return trimmed;
+};
+
+/** A WAV of the selection at full quality, so the original player matches what was processed. */
+export const selectionBlob = (buffer: AudioBuffer): Blob =>
+  new Blob([encodeWav(toMono(buffer), buffer.sampleRate)], { type: 'audio/wav' });
+
+const resample = async (buffer: AudioBuffer, sampleRate: number): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, Math.ceil(buffer.duration * sampleRate), sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return (await context.startRendering()).getChannelData(0);
+};
+
+const encodedSize = (bytes: number) => Math.ceil(bytes / 3) * 4;
+
+const toBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * The audio to send for analysis: the file itself when all of it is selected
+ * and the model takes it as is, otherwise the selection as 16 kHz mono WAV.
+ */
+export const analysisPayload = async (clip: AudioClip, range: TrimRange): Promise<{ data: string; mimeType: string }> => {
+  if (isWholeClip(clip, range) && encodedSize(clip.file.size) <= MAX_INLINE_BYTES && ANALYSIS_TYPES.includes(clip.file.type)) {
+    return { data: await toBase64(clip.file), mimeType: clip.file.type };
+  }
+  const samples = await resample(trimBuffer(clip.buffer, range), ANALYSIS_SAMPLE_RATE);
+  return { data: await toBase64(new Blob([encodeWav(samples, ANALYSIS_SAMPLE_RATE)])), mimeType: 'audio/wav' };
+};
@@ -0,0 +1,239 @@
+// Pure signal-processing helpers for the Audio Studio. Nothing here touches the
+// Web Audio API, so it runs the same in the browser and in Node.
+
+/** In-place iterative radix-2 FFT. `re` and `im` must have a power-of-two length. */
+export const fft = (re: Float32Array, im: Float32Array, inverse = false) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+export const hannWindow = (size: number): Float32Array => {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  return w;
+};
+
+const frameCount = (length: number, size: number, hop: number) =>
+  Math.max(1, Math.ceil((length - size) / hop) + 1);
+
+const loadFrame = (samples: Float32Array, offset: number, window: Float32Array, re: Float32Array, im: Float32Array) => {
+  for (let i = 0; i < window.length; i++) {
+    const s = offset + i < samples.length ? samples[offset + i] : 0;
+    re[i] = s * window[i];
+    im[i] = 0;
+  }
+};
+
+export interface NoiseReductionOptions {
+  /** 0 leaves the signal untouched, 1 removes the estimated noise floor fully. */
+  strength: number;
+  fftSize?: number;
+  /** Share of the quietest frames treated as noise-only. */
+  noisePercentile?: number;
+}
+
+/**
+ * Estimates the noise magnitude spectrum from the quietest frames, which in a
+ * voice recording are the pauses between words.
+ */
+export const estimateNoiseProfile = (samples: Float32Array, fftSize = 1024, noisePercentile = 0.1): Float32Array => {
+  const hop = fftSize / 2;
+  const frames = frameCount(samples.length, fftSize, hop);
+  const energies: { index: number; energy: number }[] = [];
+  for (let f = 0; f < frames; f++) {
+    let energy = 0;
+    const offset = f * hop;
+    for (let i = 0; i < fftSize && offset + i < samples.length; i++) energy += samples[offset + i] ** 2;
+    energies.push({ index: f, energy });
+  }
+  energies.sort((a, b) => a.energy - b.energy);
+  const quiet = energies.slice(0, Math.max(1, Math.floor(frames * noisePercentile)));
+
+  const window = hannWindow(fftSize);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const profile = new Float32Array(fftSize / 2 + 1);
+  for (const { index } of quiet) {
+    loadFrame(samples, index * hop, window, re, im);
+    fft(re, im);
+    for (let k = 0; k < profile.length; k++) profile[k] += Math.hypot(re[k], im[k]);
+  }
+  for (let k = 0; k < profile.length; k++) profile[k] /= quiet.length;
+  return profile;
+};
+
+/** Spectral subtraction with temporal gain smoothing to limit musical noise. */
+export const reduceNoise = (samples: Float32Array, { strength, fftSize = 1024, noisePercentile }: NoiseReductionOptions): Float32Array => {
+  if (strength <= 0 || samples.length === 0) return samples.slice();
+
+  const hop = fftSize / 4;
+  const bins = fftSize / 2 + 1;
+  const noise = estimateNoiseProfile(samples, fftSize, noisePercentile);
+  const overSubtraction = strength * 2;
+  const floor = 0.02 + (1 - strength) * 0.3;
+
+  const window = hannWindow(fftSize);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const gains = new Float32Array(bins).fill(1);
+  const output = new Float32Array(samples.length + fftSize);
+  const norm = new Float32Array(samples.length + fftSize);
+  const frames = frameCount(samples.length, fftSize, hop);
+
+  for (let f = 0; f < frames; f++) {
+    const offset = f * hop;
+    loadFrame(samples, offset, window, re, im);
+    fft(re, im);
+    for (let k = 0; k < bins; k++) {
+      const magnitude = Math.hypot(re[k], im[k]);
+      const target = magnitude > 0 ? Math.max(floor, 1 - (overSubtraction * noise[k]) / magnitude) : floor;
+      gains[k] = 0.5 * gains[k] + 0.5 * target;
+      re[k] *= gains[k];
+      im[k] *= gains[k];
+      // Keep the spectrum conjugate-symmetric so the inverse stays real
+      if (k > 0 && k < fftSize / 2) {
+        re[fftSize - k] = re[k];
+        im[fftSize - k] = -im[k];
+      }
+    }
+    fft(re, im, true);
+    for (let i = 0; i < fftSize; i++) {
+      output[offset + i] += re[i] * window[i];
+      norm[offset + i] += window[i] * window[i];
+    }
+  }
+
+  const result = new Float32Array(samples.length);
+  for (let i = 0; i < result.length; i++) result[i] = norm[i] > 1e-6 ? output[i] / norm[i] : 0;
+  return result;
+};
+
+const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-9));
+
+/**
+ * RMS level of the active parts of the signal, in dBFS. Silent frames are
+ * gated out so pauses do not drag the estimate down.
+ */
+export const measureLoudness = (samples: Float32Array, frameSize = 2048): number => {
+  const levels: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frameSize) {
+    let sum = 0;
+    const end = Math.min(samples.length, offset + frameSize);
+    for (let i = offset; i < end; i++) sum += samples[i] ** 2;
+    levels.push(Math.sqrt(sum / Math.max(1, end - offset)));
+  }
+  const loudest = Math.max(...levels, 0);
+  const active = levels.filter(level => toDb(level) > toDb(loudest) - 30);
+  if (active.length === 0) return -Infinity;
+  return toDb(Math.sqrt(active.reduce((sum, level) => sum + level * level, 0) / active.length));
+};
+
+/** Scales the signal towards `targetDb` without letting peaks exceed `ceilingDb`. */
+export const normalizeLoudness = (samples: Float32Array, targetDb = -18, ceilingDb = -1): Float32Array => {
+  const loudness = measureLoudness(samples);
+  if (!Number.isFinite(loudness)) return samples.slice();
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  const gain = Math.min(10 ** ((targetDb - loudness) / 20), 10 ** (ceilingDb / 20) / Math.max(peak, 1e-9));
+  return samples.map(s => s * gain);
+};
+
+/** Encodes mono samples as a 16-bit PCM WAV file. */
+export const encodeWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return buffer;
+};
+
+/** Largest absolute sample in each of `columns` equal slices, for drawing a waveform. */
+export const computePeaks = (samples: Float32Array, columns: number): Float32Array => {
+  const peaks = new Float32Array(columns);
+  const step = samples.length / columns;
+  for (let c = 0; c < columns; c++) {
+    let peak = 0;
+    for (let i = Math.floor(c * step), end = Math.min(samples.length, Math.floor((c + 1) * step)); i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks[c] = peak;
+  }
+  return peaks;
+};
+
+export interface Spectrogram {
+  columns: number;
+  bins: number;
+  /** Column-major magnitudes in dB, `columns * bins` long. */
+  data: Float32Array;
+  sampleRate: number;
+}
+
+export const computeSpectrogram = (samples: Float32Array, sampleRate: number, columns = 320, fftSize = 512): Spectrogram => {
+  const bins = fftSize / 2;
+  const window = hannWindow(fftSize);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const data = new Float32Array(columns * bins);
+  const step = Math.max(0, samples.length - fftSize) / Math.max(1, columns - 1);
+  for (let c = 0; c < columns; c++) {
+    loadFrame(samples, Math.round(c * step), window, re, im);
+    fft(re, im);
+    for (let k = 0; k < bins; k++) data[c * bins + k] = toDb(Math.hypot(re[k], im[k]) / bins);
+  }
+  return { columns, bins, data, sampleRate };
+};
@@ -0,0 +1,92 @@
+import { Spectrogram, computeSpectrogram, encodeWav, normalizeLoudness, reduceNoise } from "./audioDsp";
+
+export interface EnhancementSettings {
+  /** 0–1, spectral subtraction strength. */
+  noiseReduction: number;
+  /** 0–1, how strongly the presence boost and mud cut are applied. */
+  voiceEq: number;
+  normalize: boolean;
+  /** Target speech level in dBFS when normalizing. */
+  targetLoudness: number;
+}
+
+export const DEFAULT_ENHANCEMENT: EnhancementSettings = {
+  noiseReduction: 0.6,
+  voiceEq: 0.5,
+  normalize: true,
+  targetLoudness: -18
+};
+
+export interface EnhancementResult {
+  blob: Blob;
+  url: string;
+  before: Spectrogram;
+  after: Spectrogram;
+  duration: number;
+}
+
+export const decodeAudio = async (file: Blob): Promise<AudioBuffer> => {
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    context.close();
+  }
+};
+
+export const toMono = (buffer: AudioBuffer): Float32Array => {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+/** Rumble cut, mud cut and presence boost, rendered through an OfflineAudioContext. */
+const applyVoiceEq = async (samples: Float32Array, sampleRate: number, amount: number): Promise<Float32Array> => {
+  if (amount <= 0) return samples;
+  const context = new OfflineAudioContext(1, samples.length, sampleRate);
+  const buffer = context.createBuffer(1, samples.length, sampleRate);
+  buffer.copyToChannel(samples, 0);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  const highpass = context.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 80;
+
+  const mud = context.createBiquadFilter();
+  mud.type = 'peaking';
+  mud.frequency.value = 250;
+  mud.Q.value = 1;
+  mud.gain.value = -3 * amount;
+
+  const presence = context.createBiquadFilter();
+  presence.type = 'peaking';
+  presence.frequency.value = 3000;
+  presence.Q.value = 0.8;
+  presence.gain.value = 5 * amount;
+
+  source.connect(highpass).connect(mud).connect(presence).connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+};
+
+/** Runs the full chain: noise reduction, voice EQ, loudness normalization, WAV encode. */
+export const enhanceAudio = async (buffer: AudioBuffer, settings: EnhancementSettings): Promise<EnhancementResult> => {
+  const original = toMono(buffer);
+  let samples = reduceNoise(original, { strength: settings.noiseReduction });
+  samples = await applyVoiceEq(samples, buffer.sampleRate, settings.voiceEq);
+  if (settings.normalize) samples = normalizeLoudness(samples, settings.targetLoudness);
+
+  const blob = new Blob([encodeWav(samples, buffer.sampleRate)], { type: 'audio/wav' });
+  return {
+    blob,
+    url: URL.createObjectURL(blob),
+    before: computeSpectrogram(original, buffer.sampleRate),
+    after: computeSpectrogram(samples, buffer.sampleRate),
+    duration: buffer.duration
+  };
+};
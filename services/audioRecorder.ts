@@ -0,0 +1,138 @@
+// Microphone capture for the Audio Studio. MediaRecorder produces the file;
+// an AnalyserNode on the same stream drives the level meter and waveform.
+
+const PEAK_INTERVAL_MS = 50;
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+export type RecorderState = 'recording' | 'paused' | 'stopped';
+
+export interface AudioRecorder {
+  getState(): RecorderState;
+  /** Seconds captured so far, not counting pauses. */
+  getElapsed(): number;
+  /** Current input level from 0 to 1. */
+  getLevel(): number;
+  /** Peak level every 50 ms of captured audio, for the live waveform. */
+  getPeaks(): number[];
+  pause(): void;
+  resume(): void;
+  /** Ends the recording and resolves to the captured clip. */
+  stop(): Promise<File>;
+  /** Ends the recording and throws the audio away. */
+  cancel(): void;
+}
+
+const extensionFor = (mimeType: string) =>
+  mimeType.includes('ogg') ? 'ogg' : mimeType.includes('mp4') ? 'm4a' : 'webm';
+
+const describeMicrophoneError = (error: unknown): string => {
+  const name = error instanceof Error ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return "Microphone access was blocked. Allow it in your browser's site settings and try again.";
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No microphone was found. Connect one and try again.";
+  if (name === 'NotReadableError') return "The microphone is in use by another application.";
+  return "The microphone could not be started.";
+};
+
+/** Asks for the microphone and starts recording straight away. */
+export const startRecording = async (): Promise<AudioRecorder> => {
+  if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+    throw new Error("This browser cannot record audio. Upload a file instead.");
+  }
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch (error) {
+    throw new Error(describeMicrophoneError(error));
+  }
+
+  const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const frame = new Float32Array(analyser.fftSize);
+
+  let state: RecorderState = 'recording';
+  let elapsedBefore = 0;
+  let resumedAt = performance.now();
+  const peaks: number[] = [];
+
+  const readLevel = () => {
+    analyser.getFloatTimeDomainData(frame);
+    let peak = 0;
+    for (let i = 0; i < frame.length; i++) peak = Math.max(peak, Math.abs(frame[i]));
+    return Math.min(1, peak);
+  };
+
+  const timer = setInterval(() => { if (state === 'recording') peaks.push(readLevel()); }, PEAK_INTERVAL_MS);
+
+  const release = () => {
+    clearInterval(timer);
+    stream.getTracks().forEach(track => track.stop());
+    context.close();
+  };
+
+  const finish = () => {
+    if (state === 'recording') elapsedBefore += (performance.now() - resumedAt) / 1000;
+    state = 'stopped';
+  };
+
+  recorder.start(1000);
+
+  return {
+    getState: () => state,
+    getElapsed: () => elapsedBefore + (state === 'recording' ? (performance.now() - resumedAt) / 1000 : 0),
+    getLevel: () => state === 'recording' ? readLevel() : 0,
+    getPeaks: () => peaks,
+
+    pause() {
+      if (state !== 'recording') return;
+      recorder.pause();
+      elapsedBefore += (performance.now() - resumedAt) / 1000;
+      state = 'paused';
+    },
+
+    resume() {
+      if (state !== 'paused') return;
+      recorder.resume();
+      resumedAt = performance.now();
+      state = 'recording';
+    },
+
+    stop() {
+      if (recorder.state === 'inactive') return Promise.reject(new Error("The recording has already ended."));
+      finish();
+      return new Promise<File>((resolve, reject) => {
+        recorder.onstop = () => {
+          release();
+          const type = recorder.mimeType || mimeType || 'audio/webm';
+          const blob = new Blob(chunks, { type });
+          if (blob.size === 0) {
+            reject(new Error("Nothing was recorded. Check that the right microphone is selected."));
+            return;
+          }
+          const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+          resolve(new File([blob], `recording-${stamp}.${extensionFor(type)}`, { type: type.split(';')[0] }));
+        };
+        recorder.onerror = () => {
+          release();
+          reject(new Error("The recording failed."));
+        };
+        recorder.stop();
+      });
+    },
+
+    cancel() {
+      finish();
+      recorder.onstop = release;
+      if (recorder.state === 'inactive') release();
+      else recorder.stop();
+    }
+  };
+};
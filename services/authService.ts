@@ -0,0 +1,137 @@
+// Accounts are managed by the local auth server (scripts/auth-server.mjs). The
+// session token is kept in localStorage and checked with the server on start.
+
+const SESSION_KEY = 'flipart_session';
+// Written by the old sign-in form, which accepted any password
+const LEGACY_USER_KEY = 'flipart_user';
+const DEFAULT_AUTH_URL = 'http://localhost:8788';
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: number;
+  user: AuthUser;
+}
+
+export interface SignUpDetails {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export class AuthError extends Error {
+  /** HTTP status from the server; absent when it could not be reached. */
+  readonly status?: number;
+  /** Problems with individual form fields, by field name. */
+  readonly fields: Record<string, string>;
+
+  constructor(message: string, status?: number, fields: Record<string, string> = {}) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+    this.fields = fields;
+  }
+}
+
+export interface AuthService {
+  signUp(details: SignUpDetails): Promise<AuthSession>;
+  signIn(email: string, password: string): Promise<AuthSession>;
+  /** Ends the session on the server when possible; the local copy is always dropped. */
+  signOut(): Promise<void>;
+  /**
+   * Returns the saved session if it is still valid. When the server cannot be
+   * reached, an unexpired session is trusted so the app keeps working offline.
+   */
+  restore(): Promise<AuthSession | null>;
+  getSession(): AuthSession | null;
+}
+
+export const createAuthService = (baseUrl: string, storageKey = SESSION_KEY): AuthService => {
+  const read = (): AuthSession | null => {
+    try {
+      const session: AuthSession | null = JSON.parse(localStorage.getItem(storageKey) || 'null');
+      return session && session.expiresAt > Date.now() ? session : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const write = (session: AuthSession | null) => {
+    if (session) localStorage.setItem(storageKey, JSON.stringify(session));
+    else localStorage.removeItem(storageKey);
+  };
+
+  const request = async <T>(method: 'GET' | 'POST', path: string, options: { body?: unknown; token?: string } = {}): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+          ...(options.token ? { Authorization: `Bearer ${options.token}` } : {})
+        },
+        body: options.body ? JSON.stringify(options.body) : undefined
+      });
+    } catch {
+      throw new AuthError("Could not reach the sign-in server. Is `npm run auth` running?");
+    }
+    if (response.status === 204) return undefined as T;
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new AuthError(payload.error?.message || `Sign-in failed (${response.status}).`, response.status, payload.error?.fields);
+    }
+    return payload;
+  };
+
+  const start = (session: AuthSession) => {
+    write(session);
+    return session;
+  };
+
+  return {
+    async signUp(details) {
+      return start(await request<AuthSession>('POST', '/auth/signup', { body: details }));
+    },
+
+    async signIn(email, password) {
+      return start(await request<AuthSession>('POST', '/auth/login', { body: { email, password } }));
+    },
+
+    async signOut() {
+      const session = read();
+      write(null);
+      if (!session) return;
+      try {
+        await request('POST', '/auth/logout', { token: session.token });
+      } catch (e) {
+        console.warn("Could not end the session on the server:", e);
+      }
+    },
+
+    async restore() {
+      localStorage.removeItem(LEGACY_USER_KEY);
+      const session = read();
+      if (!session) {
+        write(null);
+        return null;
+      }
+      try {
+        const current = await request<Omit<AuthSession, 'token'>>('GET', '/auth/session', { token: session.token });
+        return start({ ...session, ...current });
+      } catch (e) {
+        if (!(e instanceof AuthError) || e.status !== 401) return session;
+        write(null);
+        return null;
+      }
+    },
+
+    getSession: read
+  };
+};
+
+export const authService = createAuthService(process.env.AUTH_SERVER_URL || DEFAULT_AUTH_URL);
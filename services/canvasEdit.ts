@@ -0,0 +1,277 @@
+import { AspectRatio } from "../types";
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export type CanvasFilter = 'none' | 'grayscale' | 'sepia' | 'vintage' | 'warm' | 'cool' | 'noir' | 'vivid';
+
+export type OverlayFont = 'sans' | 'serif' | 'mono';
+
+/** Text drawn over the image. A watermark repeats the text across the whole frame. */
+export interface TextOverlay {
+  id: string;
+  kind: 'text' | 'watermark';
+  text: string;
+  /** Center of the text as a fraction of the output width and height. */
+  x: number;
+  y: number;
+  /** Font size as a fraction of the output width. */
+  size: number;
+  color: string;
+  /** 0 to 1. */
+  opacity: number;
+  font: OverlayFont;
+}
+
+/**
+ * Everything the editor changes, kept as data so it can be undone and
+ * rendered again at any resolution.
+ */
+export interface CanvasEdit {
+  rotation: Rotation;
+  flipH: boolean;
+  flipV: boolean;
+  /** Frame to crop to; null keeps the shape of the (rotated) image. */
+  aspectRatio: AspectRatio | null;
+  /** 1 shows the largest frame that fits; higher values crop tighter. */
+  zoom: number;
+  /** Position of the frame within the spare room, -1 to 1 on each axis. */
+  panX: number;
+  panY: number;
+  /** Percentages; 100 leaves the image unchanged. */
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  filter: CanvasFilter;
+  overlays: TextOverlay[];
+}
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; lossy: boolean }[] = [
+  { value: 'image/png', label: 'PNG', lossy: false },
+  { value: 'image/jpeg', label: 'JPEG', lossy: true },
+  { value: 'image/webp', label: 'WebP', lossy: true }
+];
+
+/** Longest side of the exported image; null keeps the cropped area's own pixels. */
+export const EXPORT_SIZES: (number | null)[] = [null, 512, 1024, 2048, 4096];
+
+export const MAX_ZOOM = 4;
+
+export const FILTERS: { value: CanvasFilter; label: string; css: string }[] = [
+  { value: 'none', label: 'None', css: '' },
+  { value: 'grayscale', label: 'Mono', css: 'grayscale(1)' },
+  { value: 'sepia', label: 'Sepia', css: 'sepia(0.85)' },
+  { value: 'vintage', label: 'Vintage', css: 'sepia(0.35) contrast(0.9) saturate(0.8) brightness(1.05)' },
+  { value: 'warm', label: 'Warm', css: 'sepia(0.25) saturate(1.25)' },
+  { value: 'cool', label: 'Cool', css: 'hue-rotate(15deg) saturate(0.9) brightness(1.03)' },
+  { value: 'noir', label: 'Noir', css: 'grayscale(1) contrast(1.45) brightness(0.9)' },
+  { value: 'vivid', label: 'Vivid', css: 'saturate(1.6) contrast(1.1)' }
+];
+
+const FONT_FAMILIES: Record<OverlayFont, string> = {
+  sans: 'Inter, system-ui, sans-serif',
+  serif: 'Georgia, "Times New Roman", serif',
+  mono: '"JetBrains Mono", ui-monospace, monospace'
+};
+
+export const DEFAULT_EDIT: CanvasEdit = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  aspectRatio: null,
+  zoom: 1,
+  panX: 0,
+  panY: 0,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  filter: 'none',
+  overlays: []
+};
+
+const newOverlayId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const newOverlay = (kind: TextOverlay['kind']): TextOverlay => kind === 'watermark'
+  ? { id: newOverlayId(), kind, text: '© FlipArt', x: 0.5, y: 0.5, size: 0.04, color: '#ffffff', opacity: 0.25, font: 'sans' }
+  : { id: newOverlayId(), kind, text: 'Your text', x: 0.5, y: 0.85, size: 0.07, color: '#ffffff', opacity: 1, font: 'sans' };
+
+export const ratioValue = (ratio: AspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+const SWAPPED: Record<AspectRatio, AspectRatio> = { '1:1': '1:1', '3:4': '4:3', '4:3': '3:4', '9:16': '16:9', '16:9': '9:16' };
+
+const isSideways = (rotation: Rotation) => rotation === 90 || rotation === 270;
+
+/** Aspect ratio of the result, given the ratio of the image being edited. */
+export const outputAspectRatio = (source: AspectRatio, edit: CanvasEdit): AspectRatio =>
+  edit.aspectRatio ?? (isSideways(edit.rotation) ? SWAPPED[source] : source);
+
+/** Draws the image turned and mirrored; everything else is measured against this. */
+export const orient = (image: HTMLImageElement, rotation: Rotation, flipH: boolean, flipV: boolean): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  canvas.width = isSideways(rotation) ? height : width;
+  canvas.height = isSideways(rotation) ? width : height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rotation * Math.PI / 180);
+  ctx.scale(flipH ? -1 : 1, flipV ? -1 : 1);
+  ctx.drawImage(image, -width / 2, -height / 2);
+  return canvas;
+};
+
+/** The part of an oriented image of `width` × `height` that ends up in the output. */
+export const cropRect = (width: number, height: number, edit: CanvasEdit) => {
+  const target = edit.aspectRatio ? ratioValue(edit.aspectRatio) : width / height;
+  let w = width;
+  let h = width / target;
+  if (h > height) {
+    h = height;
+    w = height * target;
+  }
+  w /= edit.zoom;
+  h /= edit.zoom;
+  return {
+    x: (width - w) / 2 * (1 + edit.panX),
+    y: (height - h) / 2 * (1 + edit.panY),
+    w,
+    h
+  };
+};
+
+/** Pixel size of the output for a longest side of `longEdge`, or the crop's own size. */
+export const outputSize = (width: number, height: number, edit: CanvasEdit, longEdge: number | null) => {
+  const crop = cropRect(width, height, edit);
+  const scale = longEdge ? longEdge / Math.max(crop.w, crop.h) : 1;
+  return { width: Math.max(1, Math.round(crop.w * scale)), height: Math.max(1, Math.round(crop.h * scale)) };
+};
+
+const filterCss = (edit: CanvasEdit) => {
+  const adjustments = [
+    edit.brightness !== 100 && `brightness(${edit.brightness / 100})`,
+    edit.contrast !== 100 && `contrast(${edit.contrast / 100})`,
+    edit.saturation !== 100 && `saturate(${edit.saturation / 100})`,
+    FILTERS.find(f => f.value === edit.filter)?.css
+  ].filter(Boolean);
+  return adjustments.length ? adjustments.join(' ') : 'none';
+};
+
+const drawOverlay = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, width: number, height: number) => {
+  const text = overlay.text.trim();
+  if (!text) return;
+  const size = Math.max(4, overlay.size * width);
+  ctx.save();
+  ctx.globalAlpha = overlay.opacity;
+  ctx.fillStyle = overlay.color;
+  ctx.font = `${overlay.kind === 'watermark' ? 600 : 800} ${size}px ${FONT_FAMILIES[overlay.font]}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const lines = text.split('\n');
+  const lineHeight = size * 1.2;
+  const drawLines = (x: number, y: number) => lines.forEach((line, i) =>
+    ctx.fillText(line, x, y + (i - (lines.length - 1) / 2) * lineHeight));
+
+  if (overlay.kind === 'watermark') {
+    // Tiled on a slant over an area large enough to cover the corners once turned
+    const stepX = Math.max(...lines.map(line => ctx.measureText(line).width)) + size * 3;
+    const stepY = lineHeight * lines.length + size * 3;
+    const reach = Math.hypot(width, height);
+    ctx.translate(width * overlay.x, height * overlay.y);
+    ctx.rotate(-Math.PI / 6);
+    for (let y = -reach; y <= reach; y += stepY) {
+      // Alternate rows are offset so the pattern reads as a weave rather than columns
+      const shift = Math.round(y / stepY) % 2 ? stepX / 2 : 0;
+      for (let x = -reach; x <= reach; x += stepX) drawLines(x + shift, y);
+    }
+  } else {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = size / 6;
+    ctx.shadowOffsetY = size / 20;
+    drawLines(width * overlay.x, height * overlay.y);
+  }
+  ctx.restore();
+};
+
+/** Crops, adjusts and annotates an oriented image into a new canvas. */
+export const renderEdit = (oriented: HTMLCanvasElement, edit: CanvasEdit, longEdge: number | null = null): HTMLCanvasElement => {
+  const crop = cropRect(oriented.width, oriented.height, edit);
+  const { width, height } = outputSize(oriented.width, oriented.height, edit, longEdge);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  // Non-PNG exports have no alpha, so transparent areas would turn black
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.filter = filterCss(edit);
+  ctx.drawImage(oriented, crop.x, crop.y, crop.w, crop.h, 0, 0, width, height);
+  ctx.filter = 'none';
+  edit.overlays.forEach(overlay => drawOverlay(ctx, overlay, width, height));
+  return canvas;
+};
+
+export const exportCanvas = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => canvas.toBlob(blob => {
+    // Browsers that cannot encode a format fall back to PNG
+    if (!blob) reject(new Error("The browser could not encode the image."));
+    else if (blob.type !== format) reject(new Error(`This browser cannot save ${EXPORT_FORMATS.find(f => f.value === format)?.label ?? format} images. Try PNG.`));
+    else resolve(blob);
+  }, format, quality));
+
+/** Short account of an edit, stored as the new version's edit instruction. */
+export const describeEdit = (edit: CanvasEdit): string => {
+  const steps: string[] = [];
+  if (edit.rotation) steps.push(`rotated ${edit.rotation}°`);
+  if (edit.flipH || edit.flipV) steps.push(`flipped ${[edit.flipH && 'horizontally', edit.flipV && 'vertically'].filter(Boolean).join(' and ')}`);
+  if (edit.aspectRatio) steps.push(`cropped to ${edit.aspectRatio}`);
+  if (edit.zoom > 1) steps.push(`zoomed ${edit.zoom.toFixed(1)}×`);
+  const signed = (value: number) => `${value > 100 ? '+' : ''}${value - 100}`;
+  if (edit.brightness !== 100) steps.push(`brightness ${signed(edit.brightness)}`);
+  if (edit.contrast !== 100) steps.push(`contrast ${signed(edit.contrast)}`);
+  if (edit.saturation !== 100) steps.push(`saturation ${signed(edit.saturation)}`);
+  if (edit.filter !== 'none') steps.push(`${FILTERS.find(f => f.value === edit.filter)?.label.toLowerCase()} filter`);
+  edit.overlays.filter(o => o.text.trim()).forEach(o => steps.push(`${o.kind === 'watermark' ? 'watermark' : 'text'} "${o.text.trim()}"`));
+  return `Canvas: ${steps.length ? steps.join(', ') : 'exported'}`;
+};
+
+/** Undo stack for edits. Quick runs of the same change, like dragging a slider, collapse into one step. */
+export interface EditHistory {
+  past: CanvasEdit[];
+  present: CanvasEdit;
+  future: CanvasEdit[];
+  /** What the last change was and when, for collapsing. */
+  group?: string;
+  changedAt: number;
+}
+
+const MAX_UNDO = 100;
+const GROUP_MS = 800;
+
+export const startHistory = (edit: CanvasEdit = DEFAULT_EDIT): EditHistory => ({ past: [], present: edit, future: [], changedAt: 0 });
+
+export const applyEdit = (history: EditHistory, next: CanvasEdit, group?: string): EditHistory => {
+  const now = Date.now();
+  if (group && group === history.group && now - history.changedAt < GROUP_MS) {
+    return { ...history, present: next, future: [], changedAt: now };
+  }
+  return { past: [...history.past, history.present].slice(-MAX_UNDO), present: next, future: [], group, changedAt: now };
+};
+
+export const undoEdit = (history: EditHistory): EditHistory => history.past.length === 0 ? history : {
+  past: history.past.slice(0, -1),
+  present: history.past[history.past.length - 1],
+  future: [history.present, ...history.future],
+  changedAt: 0
+};
+
+export const redoEdit = (history: EditHistory): EditHistory => history.future.length === 0 ? history : {
+  past: [...history.past, history.present],
+  present: history.future[0],
+  future: history.future.slice(1),
+  changedAt: 0
+};
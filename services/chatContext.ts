@@ -0,0 +1,52 @@
+import { ChatMessage } from "../types";
+
+/** Messages always sent verbatim, including their images. */
+export const RECENT_WINDOW = 8;
+/** Older messages are folded into the summary in groups, not one turn at a time. */
+const SUMMARY_BATCH = 6;
+
+export interface SummaryState {
+  summary?: string;
+  summarizedCount: number;
+}
+
+export interface PreparedContext extends SummaryState {
+  recent: ChatMessage[];
+}
+
+/**
+ * Keeps the request bounded: the newest messages go out as-is and everything
+ * older is represented by a rolling summary produced by `summarize`.
+ */
+export const prepareContext = async (
+  messages: ChatMessage[],
+  previous: SummaryState,
+  summarize: (summary: string | undefined, messages: ChatMessage[]) => Promise<string>
+): Promise<PreparedContext> => {
+  // A fork before the summarized range makes the old summary wrong; start over
+  let { summary, summarizedCount } = previous.summarizedCount < messages.length
+    ? previous
+    : { summary: undefined, summarizedCount: 0 };
+
+  const cutoff = messages.length - RECENT_WINDOW;
+  if (cutoff - summarizedCount >= SUMMARY_BATCH) {
+    try {
+      summary = await summarize(summary, messages.slice(summarizedCount, cutoff));
+      summarizedCount = cutoff;
+    } catch (err) {
+      // Not fatal: send the unsummarized tail this time and try again next turn
+      console.warn("Conversation summary failed:", err);
+    }
+  }
+
+  return { summary, summarizedCount, recent: messages.slice(summarizedCount) };
+};
+
+const describeTools = (msg: ChatMessage) =>
+  (msg.toolCalls ?? []).map(call => ` [${call.name} ${JSON.stringify(call.args)}: ${call.status}]`).join('');
+
+/** Plain-text rendering of messages for the summarizer; images become markers. */
+export const transcribeMessages = (messages: ChatMessage[]) =>
+  messages
+    .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.attachments?.length ? '[image] ' : ''}${msg.text}${describeTools(msg)}`)
+    .join('\n');
@@ -0,0 +1,89 @@
+import { ChatMessage, Conversation } from "../types";
+import { createDatabase, requestToPromise, transactionDone } from "./idb";
+import { scopedName } from "./userScope";
+
+const CONVERSATIONS = 'conversations';
+
+const openDb = createDatabase(() => scopedName('flipart_conversations'), 1, (db) => {
+  const store = db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+  store.createIndex('owner', 'owner');
+});
+
+export const DEFAULT_TITLE = 'New conversation';
+
+export const GREETING: ChatMessage = {
+  id: 'greeting',
+  role: 'model',
+  text: 'Hello! I am your FlipArt AI Assistant. I can help you craft better prompts or analyze your generated art. How can I assist you today?'
+};
+
+export const createConversation = (owner: string): Conversation => {
+  const now = Date.now();
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    owner,
+    title: DEFAULT_TITLE,
+    pinned: false,
+    createdAt: now,
+    updatedAt: now,
+    messages: [GREETING],
+    summarizedCount: 0
+  };
+};
+
+/** Pinned threads first, then most recently active. */
+export const sortConversations = (conversations: Conversation[]) =>
+  [...conversations].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+// Messages saved before several images could be attached carry one `image` and its `imageId`
+const upgradeMessage = (msg: ChatMessage & { image?: string; imageId?: string }): ChatMessage => {
+  const { image, imageId, ...rest } = msg;
+  return image ? { ...rest, attachments: [{ url: image, imageId }] } : rest;
+};
+
+export const listConversations = async (owner: string): Promise<Conversation[]> => {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS, 'readonly');
+  const all = await requestToPromise<Conversation[]>(tx.objectStore(CONVERSATIONS).index('owner').getAll(owner));
+  return sortConversations(all.map(conversation => ({ ...conversation, messages: conversation.messages.map(upgradeMessage) })));
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS, 'readwrite');
+  // Replies still streaming are saved as stopped, so a reload never shows a spinner forever
+  tx.objectStore(CONVERSATIONS).put({
+    ...conversation,
+    messages: conversation.messages.map(msg => msg.status === 'streaming' ? { ...msg, status: 'stopped' } : msg)
+  });
+  await transactionDone(tx);
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS, 'readwrite');
+  tx.objectStore(CONVERSATIONS).delete(id);
+  await transactionDone(tx);
+};
+
+/** Title for a fresh thread, taken from its first user message. */
+export const titleFromMessage = (text: string) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return DEFAULT_TITLE;
+  return clean.length > 40 ? `${clean.slice(0, 37)}...` : clean;
+};
+
+export const conversationToMarkdown = (conversation: Conversation): string => {
+  const lines = [`# ${conversation.title}`, '', `_Exported from FlipArt on ${new Date().toLocaleString()}_`, ''];
+  for (const msg of conversation.messages) {
+    lines.push(`## ${msg.role === 'user' ? 'You' : 'Assistant'}`, '');
+    for (const attachment of msg.attachments ?? []) lines.push(`![${attachment.name ?? 'attached image'}](${attachment.url})`, '');
+    if (msg.text) lines.push(msg.text, '');
+  }
+  return lines.join('\n');
+};
+
+export const exportConversation = (conversation: Conversation, format: 'md' | 'json'): Blob =>
+  format === 'md'
+    ? new Blob([conversationToMarkdown(conversation)], { type: 'text/markdown' })
+    : new Blob([JSON.stringify(conversation, null, 2)], { type: 'application/json' });
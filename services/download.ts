@@ -0,0 +1,33 @@
+import { GeneratedImage } from "../types";
+import { embedMetadata, metadataOf } from "./imageMetadata";
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+export const imageFileName = (image: GeneratedImage, mimeType = image.mimeType) =>
+  `flipart-${image.id}.${EXTENSIONS[mimeType ?? ''] ?? 'png'}`;
+
+/** Saves `url` through a temporary link, which works for both object and data URLs. */
+export const downloadUrl = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/** Saves an image in its own format with its prompt and settings embedded. */
+export const downloadImage = async (image: GeneratedImage) => {
+  const blob = await (await fetch(image.url)).blob();
+  const mimeType = blob.type || image.mimeType || 'image/png';
+  const bytes = embedMetadata(new Uint8Array(await blob.arrayBuffer()), metadataOf(image));
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  downloadUrl(url, imageFileName(image, mimeType));
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
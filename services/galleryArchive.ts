@@ -0,0 +1,275 @@
+import { AspectRatio, GalleryCollection, GeneratedImage, ImageReference, VoicePrompt } from "../types";
+import { backfillImageHashes, getRecording, getReference, hasImage, listCollections, saveCollection, saveImage, saveRecording, saveReference, sha256 } from "./galleryStore";
+import { imageFileName } from "./download";
+import { parseImageSettings } from "./generationSettings";
+import { parsePreset } from "./promptComposer";
+import { createZip, readZip } from "./zip";
+
+const MANIFEST_FILE = 'manifest.json';
+const FORMAT = 'flipart-gallery';
+const VERSION = 1;
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16'];
+
+/** One image in `manifest.json`; `file` is its path inside the archive. */
+export interface ManifestImage extends Omit<GeneratedImage, 'url' | 'thumbnailUrl' | 'size'> {
+  file: string;
+  /** Hex SHA-256 of the file, used to spot duplicates on import. */
+  sha256: string;
+}
+
+/** A spoken-prompt recording or reference upload that images in the archive share. */
+export interface ManifestSource {
+  kind: SourceKind;
+  /** Key the images refer to it by: `voicePrompt.recordingId` or a reference id. */
+  id: string;
+  file: string;
+  mimeType: string;
+}
+
+type SourceKind = 'recording' | 'reference';
+
+export interface GalleryManifest {
+  format: typeof FORMAT;
+  version: number;
+  exportedAt: number;
+  collections: GalleryCollection[];
+  images: ManifestImage[];
+  /** Absent in archives made before recordings and references were exported. */
+  sources?: ManifestSource[];
+}
+
+export interface ImportSummary {
+  imported: number;
+  /** Images skipped because the gallery already had the same id or bytes. */
+  duplicates: number;
+  /** Manifest entries that could not be imported, with the reason. */
+  problems: string[];
+}
+
+export class ArchiveImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveImportError';
+  }
+}
+
+const SOURCE_FOLDERS: Record<SourceKind, string> = { recording: 'recordings', reference: 'references' };
+
+/**
+ * Packs images and their metadata into a ZIP with a `manifest.json` at the
+ * root. Recordings and reference uploads go along once each, however many
+ * images share them; ones no longer stored are left out of the image entry.
+ */
+export const exportArchive = async (images: GeneratedImage[], collections: GalleryCollection[]): Promise<Blob> => {
+  const files = [];
+  const manifestImages: ManifestImage[] = [];
+  const sources = new Map<string, ManifestSource | null>();
+  const addSource = async (kind: SourceKind, id: string): Promise<boolean> => {
+    const key = `${kind}:${id}`;
+    if (!sources.has(key)) {
+      const blob = await (kind === 'recording' ? getRecording(id) : getReference(id));
+      if (blob) {
+        const file = `${SOURCE_FOLDERS[kind]}/${id}`;
+        files.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+        sources.set(key, { kind, id, file, mimeType: blob.type });
+      } else {
+        sources.set(key, null);
+      }
+    }
+    return sources.get(key) !== null;
+  };
+
+  for (const image of images) {
+    const data = new Uint8Array(await (await fetch(image.url)).arrayBuffer());
+    const { url, thumbnailUrl, size, voicePrompt, references, ...meta } = image;
+    const file = `images/${imageFileName(image)}`;
+    files.push({ name: file, data, lastModified: image.timestamp });
+    const kept: ImageReference[] = [];
+    for (const reference of references ?? []) {
+      if (await addSource('reference', reference.id)) kept.push(reference);
+    }
+    manifestImages.push({
+      ...meta,
+      voicePrompt: voicePrompt && await addSource('recording', voicePrompt.recordingId) ? voicePrompt : undefined,
+      references: kept.length > 0 ? kept : undefined,
+      file,
+      sha256: await sha256(data)
+    });
+  }
+
+  const used = new Set(images.flatMap(image => image.collectionIds ?? []));
+  const manifest: GalleryManifest = {
+    format: FORMAT,
+    version: VERSION,
+    exportedAt: Date.now(),
+    collections: collections.filter(c => used.has(c.id)),
+    images: manifestImages,
+    sources: [...sources.values()].filter((source): source is ManifestSource => source !== null)
+  };
+  const manifestData = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return createZip([{ name: MANIFEST_FILE, data: manifestData }, ...files]);
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isAspectRatio = (value: unknown): value is AspectRatio => ASPECT_RATIOS.includes(value as AspectRatio);
+
+const parseVoicePrompt = (raw: unknown): VoicePrompt | undefined => {
+  if (!isRecord(raw) || !isString(raw.transcript) || !isString(raw.recordingId)) return undefined;
+  if (typeof raw.duration !== 'number' || !Number.isFinite(raw.duration)) return undefined;
+  return { transcript: raw.transcript, expanded: raw.expanded === true, recordingId: raw.recordingId, duration: raw.duration };
+};
+
+const parseReferences = (raw: unknown): ImageReference[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const references = raw
+    .filter(r => r && isString(r.id) && isString(r.name) && (r.role === 'style' || r.role === 'subject'))
+    .map(({ id, role, name }): ImageReference => ({ id, role, name }));
+  return references.length > 0 ? references : undefined;
+};
+
+const parseSources = (raw: unknown): ManifestSource[] => Array.isArray(raw)
+  ? raw.filter(s => s && (s.kind === 'recording' || s.kind === 'reference') && isString(s.id) && isString(s.file))
+    .map(({ kind, id, file, mimeType }): ManifestSource => ({ kind, id, file, mimeType: isString(mimeType) ? mimeType : '' }))
+  : [];
+
+/** Checks one manifest entry, returning the cleaned entry or why it was rejected. */
+const parseManifestImage = (raw: unknown): ManifestImage | string => {
+  if (!isRecord(raw)) return "entry is not an object";
+  if (!isString(raw.id) || !raw.id) return "missing id";
+  if (!isString(raw.file)) return `${raw.id}: missing file path`;
+  if (!isString(raw.prompt)) return `${raw.id}: missing prompt`;
+  if (!isAspectRatio(raw.aspectRatio)) return `${raw.id}: unknown aspect ratio "${raw.aspectRatio}"`;
+  if (typeof raw.timestamp !== 'number' || !Number.isFinite(raw.timestamp)) return `${raw.id}: invalid timestamp`;
+  return {
+    id: raw.id,
+    file: raw.file,
+    sha256: isString(raw.sha256) ? raw.sha256 : '',
+    prompt: raw.prompt,
+    aspectRatio: raw.aspectRatio,
+    timestamp: raw.timestamp,
+    mimeType: isString(raw.mimeType) ? raw.mimeType : undefined,
+    model: isString(raw.model) ? raw.model : undefined,
+    batchId: isString(raw.batchId) ? raw.batchId : undefined,
+    parentId: isString(raw.parentId) ? raw.parentId : undefined,
+    editInstruction: isString(raw.editInstruction) ? raw.editInstruction : undefined,
+    preset: parsePreset(raw.preset),
+    tags: isStringArray(raw.tags) ? raw.tags : undefined,
+    favorite: raw.favorite === true ? true : undefined,
+    collectionIds: isStringArray(raw.collectionIds) ? raw.collectionIds : undefined,
+    settings: parseImageSettings(raw.settings),
+    voicePrompt: parseVoicePrompt(raw.voicePrompt),
+    references: parseReferences(raw.references)
+  };
+};
+
+/** The parts of a manifest that import reads; everything inside is checked as it is used. */
+interface RawManifest {
+  collections: unknown;
+  images: unknown[];
+  sources: unknown;
+}
+
+const readManifest = (data: Uint8Array): RawManifest => {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new ArchiveImportError("manifest.json is not valid JSON.");
+  }
+  if (!isRecord(manifest) || manifest.format !== FORMAT) throw new ArchiveImportError("This archive was not exported from a FlipArt gallery.");
+  if (typeof manifest.version !== 'number' || manifest.version > VERSION) {
+    throw new ArchiveImportError(`This archive uses manifest version ${manifest.version}, which this version of FlipArt cannot read.`);
+  }
+  if (!Array.isArray(manifest.images)) throw new ArchiveImportError("manifest.json has no image list.");
+  return { collections: manifest.collections, images: manifest.images, sources: manifest.sources };
+};
+
+/**
+ * Maps the archive's collections onto the gallery's: same id or same name
+ * reuse the existing collection, anything else is created.
+ */
+const mergeCollections = async (incoming: unknown): Promise<Map<string, string>> => {
+  const mapping = new Map<string, string>();
+  if (!Array.isArray(incoming)) return mapping;
+  const existing = await listCollections();
+  for (const raw of incoming) {
+    if (!raw || !isString(raw.id) || !isString(raw.name)) continue;
+    const match = existing.find(c => c.id === raw.id) ?? existing.find(c => c.name === raw.name);
+    if (match) {
+      mapping.set(raw.id, match.id);
+    } else {
+      const collection: GalleryCollection = { id: raw.id, name: raw.name, createdAt: Number(raw.createdAt) || Date.now() };
+      await saveCollection(collection);
+      existing.push(collection);
+      mapping.set(raw.id, collection.id);
+    }
+  }
+  return mapping;
+};
+
+/**
+ * Merges an exported archive into the gallery. Images whose id or bytes are
+ * already present are skipped; invalid entries are reported, not fatal.
+ */
+export const importArchive = async (file: Blob): Promise<ImportSummary> => {
+  const entries = await readZip(file);
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_FILE);
+  if (!manifestEntry) throw new ArchiveImportError("The archive has no manifest.json.");
+  const manifest = readManifest(manifestEntry.data);
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+
+  await backfillImageHashes();
+  const collectionIds = await mergeCollections(manifest.collections);
+
+  // Shared sources are stored once, on first use, under the ids the gallery hands out
+  const sources = new Map(parseSources(manifest.sources).map(source => [`${source.kind}:${source.id}`, source]));
+  const restored = new Map<string, Promise<string | null>>();
+  const restoreSource = (kind: SourceKind, id: string): Promise<string | null> => {
+    const key = `${kind}:${id}`;
+    if (!restored.has(key)) {
+      const source = sources.get(key);
+      const data = source && files.get(source.file);
+      const blob = data ? new Blob([data], { type: source.mimeType }) : null;
+      restored.set(key, blob ? (kind === 'recording' ? saveRecording(blob) : saveReference(blob)) : Promise.resolve(null));
+    }
+    return restored.get(key)!;
+  };
+
+  const summary: ImportSummary = { imported: 0, duplicates: 0, problems: [] };
+  for (const raw of manifest.images) {
+    const entry = parseManifestImage(raw);
+    if (typeof entry === 'string') { summary.problems.push(entry); continue; }
+    const data = files.get(entry.file);
+    if (!data) { summary.problems.push(`${entry.id}: ${entry.file} is missing from the archive`); continue; }
+
+    const hash = await sha256(data);
+    if (entry.sha256 && entry.sha256 !== hash) { summary.problems.push(`${entry.id}: ${entry.file} does not match its checksum`); continue; }
+    if (await hasImage(entry.id, hash)) { summary.duplicates++; continue; }
+
+    const { file: _file, sha256: _hash, voicePrompt, references, ...meta } = entry;
+    const recordingId = voicePrompt && await restoreSource('recording', voicePrompt.recordingId);
+    if (voicePrompt && !recordingId) summary.problems.push(`${entry.id}: the spoken-prompt recording is missing from the archive`);
+    const keptReferences: ImageReference[] = [];
+    for (const reference of references ?? []) {
+      const id = await restoreSource('reference', reference.id);
+      if (id) keptReferences.push({ ...reference, id });
+      else summary.problems.push(`${entry.id}: the reference "${reference.name}" is missing from the archive`);
+    }
+    const url = URL.createObjectURL(new Blob([data], { type: entry.mimeType || 'image/png' }));
+    try {
+      await saveImage({
+        ...meta,
+        url,
+        voicePrompt: voicePrompt && recordingId ? { ...voicePrompt, recordingId } : undefined,
+        references: keptReferences.length > 0 ? keptReferences : undefined,
+        collectionIds: meta.collectionIds?.map(id => collectionIds.get(id)).filter(isString)
+      });
+      summary.imported++;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+  return summary;
+};
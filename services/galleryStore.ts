@@ -0,0 +1,611 @@
+import { AspectRatio, GalleryCollection, GeneratedImage, SpeechClip } from "../types";
+import { createDatabase, isQuotaError, requestToPromise, transactionDone } from "./idb";
+import { isLegacyOwner, scopedName } from "./userScope";
+
+const DB_NAME = 'flipart_gallery';
+const DB_VERSION = 7;
+const LEGACY_HISTORY_KEY = 'flipart_history';
+
+const IMAGES = 'images';
+const BLOBS = 'blobs';
+const THUMBNAILS = 'thumbnails';
+const COLLECTIONS = 'collections';
+const SPEECH = 'speech';
+const RECORDINGS = 'recordings';
+const REFERENCES = 'references';
+
+const THUMBNAIL_SIZE = 512;
+
+/** Narration clips are few and small, so their audio is kept in the row itself. */
+interface SpeechRecord extends Omit<SpeechClip, 'url'> {
+  blob: Blob;
+}
+
+/** Metadata row; the image and thumbnail bytes live in their own stores. */
+interface ImageRecord extends Omit<GeneratedImage, 'url' | 'thumbnailUrl'> {
+  mimeType: string;
+  size: number;
+  thumbnailSize: number;
+  /** Ids from `references`, flattened so an index can find an upload's users. */
+  referenceIds?: string[];
+  /** Hex SHA-256 of the image bytes, used to spot duplicates on import. Filled in late for older images. */
+  sha256?: string;
+}
+
+export interface GalleryPage {
+  items: GeneratedImage[];
+  total: number;
+  /** Offset of the next page, or null when there is nothing left to load. */
+  nextOffset: number | null;
+}
+
+export type GallerySort = 'newest' | 'oldest' | 'prompt';
+
+export interface GalleryQuery {
+  /** Words that must all appear in the prompt, edit instruction or tags. */
+  text?: string;
+  /** Empty or absent means every aspect ratio. */
+  aspectRatios?: AspectRatio[];
+  /** Inclusive timestamp bounds. */
+  from?: number;
+  to?: number;
+  favoritesOnly?: boolean;
+  tag?: string;
+  collectionId?: string;
+  sort?: GallerySort;
+}
+
+/** The organizing fields bulk actions may change. */
+export type ImageLabels = Pick<GeneratedImage, 'tags' | 'favorite' | 'collectionIds'>;
+
+/** Tags are stored lower case without a leading '#', with spaces as dashes. */
+export const normalizeTag = (value: string) => value.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+
+export interface StorageUsage {
+  imageCount: number;
+  /** Bytes taken by images and thumbnails in the gallery. */
+  galleryBytes: number;
+  /** Origin-wide usage and quota reported by the browser, when available. */
+  usage?: number;
+  quota?: number;
+}
+
+export interface EvictionOptions {
+  /** Keep at most this many of the newest images. */
+  keepNewest?: number;
+  /** Remove the oldest images until the gallery fits in this many bytes. */
+  maxBytes?: number;
+}
+
+export class GalleryStorageFullError extends Error {
+  constructor() {
+    super("Gallery storage is full. Free up space from the storage panel before generating more images.");
+    this.name = 'GalleryStorageFullError';
+  }
+}
+
+const openDb = createDatabase(() => scopedName(DB_NAME), DB_VERSION, (db, oldVersion, tx) => {
+  if (oldVersion < 1) {
+    const images = db.createObjectStore(IMAGES, { keyPath: 'id' });
+    images.createIndex('timestamp', 'timestamp');
+    db.createObjectStore(BLOBS);
+    db.createObjectStore(THUMBNAILS);
+  }
+  if (oldVersion < 2) {
+    tx.objectStore(IMAGES).createIndex('parentId', 'parentId');
+  }
+  if (oldVersion < 3) {
+    tx.objectStore(IMAGES).createIndex('tags', 'tags', { multiEntry: true });
+    tx.objectStore(IMAGES).createIndex('collectionIds', 'collectionIds', { multiEntry: true });
+    db.createObjectStore(COLLECTIONS, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(SPEECH, { keyPath: 'id' }).createIndex('imageId', 'imageId');
+  }
+  if (oldVersion < 5) {
+    // One spoken prompt can produce several images, which share its recording
+    tx.objectStore(IMAGES).createIndex('recordingId', 'voicePrompt.recordingId');
+    db.createObjectStore(RECORDINGS);
+  }
+  if (oldVersion < 6) {
+    // Reference uploads are shared the same way by every image generated from them
+    tx.objectStore(IMAGES).createIndex('referenceIds', 'referenceIds', { multiEntry: true });
+    db.createObjectStore(REFERENCES);
+  }
+  if (oldVersion < 7) {
+    // Hashing is async, so existing images get theirs from backfillImageHashes
+    tx.objectStore(IMAGES).createIndex('sha256', 'sha256');
+  }
+});
+
+export const sha256 = async (data: BufferSource): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const dataUrlToBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+const createThumbnail = async (blob: Blob): Promise<Blob> => {
+  const objectUrl = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    img.src = objectUrl;
+    await img.decode();
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+    return thumbnail && thumbnail.size < blob.size ? thumbnail : blob;
+  } catch {
+    // Undecodable images fall back to the original bytes
+    return blob;
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+// Object URLs handed out for each image. Stored bytes never change, so the
+// same URLs are reused whenever an image is loaded again, and released on delete.
+const liveUrls = new Map<string, { url: string; thumbnailUrl: string }>();
+
+const releaseUrls = (id: string) => {
+  const urls = liveUrls.get(id);
+  if (!urls) return;
+  URL.revokeObjectURL(urls.url);
+  if (urls.thumbnailUrl !== urls.url) URL.revokeObjectURL(urls.thumbnailUrl);
+  liveUrls.delete(id);
+};
+
+const toImage = (record: ImageRecord, blob: Blob, thumbnail?: Blob): GeneratedImage => {
+  let urls = liveUrls.get(record.id);
+  if (!urls) {
+    const url = URL.createObjectURL(blob);
+    urls = { url, thumbnailUrl: thumbnail ? URL.createObjectURL(thumbnail) : url };
+    liveUrls.set(record.id, urls);
+  }
+  const { thumbnailSize, referenceIds, sha256: _hash, ...rest } = record;
+  return { ...rest, ...urls };
+};
+
+const hydrate = async (tx: IDBTransaction, records: ImageRecord[]): Promise<GeneratedImage[]> => {
+  const items: GeneratedImage[] = [];
+  for (const record of records) {
+    const blob = await requestToPromise<Blob | undefined>(tx.objectStore(BLOBS).get(record.id));
+    if (!blob) continue;
+    const thumbnail = await requestToPromise<Blob | undefined>(tx.objectStore(THUMBNAILS).get(record.id));
+    items.push(toImage(record, blob, thumbnail));
+  }
+  return items;
+};
+
+const putImage = async (image: GeneratedImage): Promise<GeneratedImage> => {
+  const { url, thumbnailUrl, ...meta } = image;
+  const blob = await dataUrlToBlob(url);
+  const thumbnail = await createThumbnail(blob);
+  const record: ImageRecord = {
+    ...meta,
+    mimeType: blob.type || image.mimeType || 'image/png',
+    size: blob.size,
+    thumbnailSize: thumbnail === blob ? 0 : thumbnail.size,
+    sha256: await sha256(await blob.arrayBuffer()),
+    ...(image.references?.length ? { referenceIds: image.references.map(reference => reference.id) } : {})
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, BLOBS, THUMBNAILS], 'readwrite');
+  tx.objectStore(IMAGES).put(record);
+  tx.objectStore(BLOBS).put(blob, record.id);
+  if (thumbnail !== blob) tx.objectStore(THUMBNAILS).put(thumbnail, record.id);
+  try {
+    await transactionDone(tx);
+  } catch (error) {
+    if (isQuotaError(error)) throw new GalleryStorageFullError();
+    throw error;
+  }
+  return toImage(record, blob, thumbnail !== blob ? thumbnail : undefined);
+};
+
+/** Persists a freshly generated image and returns it with object URLs attached. */
+export const saveImage = (image: GeneratedImage): Promise<GeneratedImage> => putImage(image);
+
+export const matchesQuery = (image: Omit<GeneratedImage, 'url' | 'thumbnailUrl'>, query: GalleryQuery): boolean => {
+  if (query.favoritesOnly && !image.favorite) return false;
+  if (query.aspectRatios?.length && !query.aspectRatios.includes(image.aspectRatio)) return false;
+  if (query.from !== undefined && image.timestamp < query.from) return false;
+  if (query.to !== undefined && image.timestamp > query.to) return false;
+  if (query.tag && !image.tags?.includes(query.tag)) return false;
+  if (query.collectionId && !image.collectionIds?.includes(query.collectionId)) return false;
+  const words = query.text?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+  if (words.length === 0) return true;
+  const haystack = [image.prompt, image.editInstruction, image.voicePrompt?.transcript, ...(image.tags ?? [])].join(' ').toLowerCase();
+  return words.every(word => haystack.includes(word));
+};
+
+/**
+ * Loads a page of the images matching `query`. Filtering runs over the
+ * metadata only; image bytes are read for the returned page alone.
+ */
+export const queryImages = async (query: GalleryQuery = {}, offset = 0, limit = 24): Promise<GalleryPage> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, BLOBS, THUMBNAILS], 'readonly');
+  const matches: ImageRecord[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const request = tx.objectStore(IMAGES).index('timestamp').openCursor(null, query.sort === 'oldest' ? 'next' : 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      if (matchesQuery(cursor.value, query)) matches.push(cursor.value);
+      cursor.continue();
+    };
+  });
+
+  if (query.sort === 'prompt') {
+    matches.sort((a, b) => a.prompt.localeCompare(b.prompt, undefined, { sensitivity: 'base' }));
+  }
+  const page = matches.slice(offset, offset + limit);
+  const items = await hydrate(tx, page);
+  const end = offset + page.length;
+  return { items, total: matches.length, nextOffset: end < matches.length ? end : null };
+};
+
+/**
+ * Loads every version related to an image: walks up to the original
+ * generation, then collects all edits descending from it, oldest first.
+ */
+export const getVersionFamily = async (id: string): Promise<GeneratedImage[]> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, BLOBS, THUMBNAILS], 'readonly');
+  const images = tx.objectStore(IMAGES);
+
+  let root = await requestToPromise<ImageRecord | undefined>(images.get(id));
+  if (!root) return [];
+  const seen = new Set([root.id]);
+  while (root.parentId && !seen.has(root.parentId)) {
+    const parent: ImageRecord | undefined = await requestToPromise(images.get(root.parentId));
+    if (!parent) break;
+    seen.add(parent.id);
+    root = parent;
+  }
+
+  const family: ImageRecord[] = [root];
+  for (let i = 0; i < family.length; i++) {
+    const children = await requestToPromise<ImageRecord[]>(images.index('parentId').getAll(family[i].id));
+    family.push(...children.filter(child => !family.some(r => r.id === child.id)));
+  }
+
+  family.sort((a, b) => a.timestamp - b.timestamp);
+  return hydrate(tx, family);
+};
+
+export const getImage = async (id: string): Promise<GeneratedImage | null> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, BLOBS, THUMBNAILS], 'readonly');
+  const record = await requestToPromise<ImageRecord | undefined>(tx.objectStore(IMAGES).get(id));
+  if (!record) return null;
+  const [image] = await hydrate(tx, [record]);
+  return image ?? null;
+};
+
+/** Newest images matching `text`, for quick lookups such as the assistant's gallery search. */
+export const searchImages = async (text: string, limit = 8): Promise<GeneratedImage[]> =>
+  (await queryImages({ text }, 0, limit)).items;
+
+/** Applies `update` to each image's tags, favorite flag or collections. */
+export const updateImages = async (ids: string[], update: (image: ImageLabels) => ImageLabels): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGES, 'readwrite');
+  const images = tx.objectStore(IMAGES);
+  for (const id of ids) {
+    const record = await requestToPromise<ImageRecord | undefined>(images.get(id));
+    if (record) images.put({ ...record, ...update(record) });
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Records the hash of images stored before hashes were kept. Each image is
+ * read and hashed on its own, so large galleries never sit in memory at once.
+ */
+export const backfillImageHashes = async (): Promise<void> => {
+  const db = await openDb();
+  const keysTx = db.transaction(IMAGES, 'readonly');
+  const [ids, hashed] = await Promise.all([
+    requestToPromise(keysTx.objectStore(IMAGES).getAllKeys()),
+    requestToPromise(keysTx.objectStore(IMAGES).index('sha256').getAllKeys())
+  ]);
+  const done = new Set(hashed.map(String));
+  for (const id of ids.map(String).filter(id => !done.has(id))) {
+    const blob = await requestToPromise<Blob | undefined>(db.transaction(BLOBS, 'readonly').objectStore(BLOBS).get(id));
+    if (!blob) continue;
+    const hash = await sha256(await blob.arrayBuffer());
+    // The record is read again in case it changed while hashing
+    const tx = db.transaction(IMAGES, 'readwrite');
+    const record = await requestToPromise<ImageRecord | undefined>(tx.objectStore(IMAGES).get(id));
+    if (record) tx.objectStore(IMAGES).put({ ...record, sha256: hash });
+    await transactionDone(tx);
+  }
+};
+
+/** Whether the gallery has an image with this id or these bytes; run backfillImageHashes first. */
+export const hasImage = async (id: string, hash: string): Promise<boolean> => {
+  const db = await openDb();
+  const images = db.transaction(IMAGES, 'readonly').objectStore(IMAGES);
+  const [byId, byHash] = await Promise.all([
+    requestToPromise(images.count(id)),
+    requestToPromise(images.index('sha256').count(hash))
+  ]);
+  return byId + byHash > 0;
+};
+
+/** Every tag in use, alphabetically. */
+export const listTags = async (): Promise<string[]> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGES, 'readonly');
+  const tags: string[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const request = tx.objectStore(IMAGES).index('tags').openKeyCursor(null, 'nextunique');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      tags.push(String(cursor.key));
+      cursor.continue();
+    };
+  });
+  return tags.sort((a, b) => a.localeCompare(b));
+};
+
+export const listCollections = async (): Promise<GalleryCollection[]> => {
+  const db = await openDb();
+  const tx = db.transaction(COLLECTIONS, 'readonly');
+  const collections = await requestToPromise<GalleryCollection[]>(tx.objectStore(COLLECTIONS).getAll());
+  return collections.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Creates or renames a collection. */
+export const saveCollection = async (collection: GalleryCollection): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(COLLECTIONS, 'readwrite');
+  tx.objectStore(COLLECTIONS).put(collection);
+  await transactionDone(tx);
+};
+
+/** Deletes a collection; its images stay in the gallery. */
+export const deleteCollection = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, COLLECTIONS], 'readwrite');
+  const images = tx.objectStore(IMAGES);
+  const members = await requestToPromise<ImageRecord[]>(images.index('collectionIds').getAll(id));
+  for (const record of members) {
+    images.put({ ...record, collectionIds: record.collectionIds?.filter(c => c !== id) });
+  }
+  tx.objectStore(COLLECTIONS).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes images together with the narration clips that describe them, and
+ * spoken-prompt recordings and reference uploads that no remaining image
+ * refers to.
+ */
+export const deleteImages = async (ids: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, BLOBS, THUMBNAILS, SPEECH, RECORDINGS, REFERENCES], 'readwrite');
+  const clipIds: string[] = [];
+  const recordingIds = new Set<string>();
+  const referenceIds = new Set<string>();
+  for (const id of ids) {
+    const record = await requestToPromise<ImageRecord | undefined>(tx.objectStore(IMAGES).get(id));
+    if (record?.voicePrompt) recordingIds.add(record.voicePrompt.recordingId);
+    record?.referenceIds?.forEach(referenceId => referenceIds.add(referenceId));
+    tx.objectStore(IMAGES).delete(id);
+    tx.objectStore(BLOBS).delete(id);
+    tx.objectStore(THUMBNAILS).delete(id);
+    const narrations = await requestToPromise(tx.objectStore(SPEECH).index('imageId').getAllKeys(id));
+    narrations.forEach(key => { tx.objectStore(SPEECH).delete(key); clipIds.push(String(key)); });
+  }
+  for (const recordingId of recordingIds) {
+    const users = await requestToPromise(tx.objectStore(IMAGES).index('recordingId').count(recordingId));
+    if (users === 0) tx.objectStore(RECORDINGS).delete(recordingId);
+  }
+  for (const referenceId of referenceIds) {
+    const users = await requestToPromise(tx.objectStore(IMAGES).index('referenceIds').count(referenceId));
+    if (users === 0) tx.objectStore(REFERENCES).delete(referenceId);
+  }
+  await transactionDone(tx);
+  ids.forEach(releaseUrls);
+  clipIds.forEach(releaseClipUrl);
+};
+
+// Object URLs for narration audio, handed out once per clip like image URLs
+const liveClipUrls = new Map<string, string>();
+
+const releaseClipUrl = (id: string) => {
+  const url = liveClipUrls.get(id);
+  if (url) URL.revokeObjectURL(url);
+  liveClipUrls.delete(id);
+};
+
+const toClip = ({ blob, ...record }: SpeechRecord): SpeechClip => {
+  let url = liveClipUrls.get(record.id);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    liveClipUrls.set(record.id, url);
+  }
+  return { ...record, url };
+};
+
+/** Stores a narration clip, next to the image it describes when it has one. */
+export const saveSpeechClip = async (clip: Omit<SpeechClip, 'url' | 'size' | 'mimeType'>, blob: Blob): Promise<SpeechClip> => {
+  const record: SpeechRecord = { ...clip, mimeType: blob.type || 'audio/wav', size: blob.size, blob };
+  const db = await openDb();
+  const tx = db.transaction(SPEECH, 'readwrite');
+  tx.objectStore(SPEECH).put(record);
+  try {
+    await transactionDone(tx);
+  } catch (error) {
+    if (isQuotaError(error)) throw new GalleryStorageFullError();
+    throw error;
+  }
+  return toClip(record);
+};
+
+/** Narration clips, newest first; only those of one image when `imageId` is given. */
+export const listSpeechClips = async (imageId?: string): Promise<SpeechClip[]> => {
+  const db = await openDb();
+  const store = db.transaction(SPEECH, 'readonly').objectStore(SPEECH);
+  const records = await requestToPromise<SpeechRecord[]>(imageId ? store.index('imageId').getAll(imageId) : store.getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt).map(toClip);
+};
+
+export const deleteSpeechClip = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SPEECH, 'readwrite');
+  tx.objectStore(SPEECH).delete(id);
+  await transactionDone(tx);
+  releaseClipUrl(id);
+};
+
+const allRecordsOldestFirst = async (): Promise<ImageRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGES, 'readonly');
+  return requestToPromise<ImageRecord[]>(tx.objectStore(IMAGES).index('timestamp').getAll());
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const records = await allRecordsOldestFirst();
+  const usage: StorageUsage = {
+    imageCount: records.length,
+    galleryBytes: records.reduce((sum, r) => sum + r.size + r.thumbnailSize, 0)
+  };
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage.usage = estimate.usage;
+    usage.quota = estimate.quota;
+  }
+  return usage;
+};
+
+/** Deletes the oldest images until the limits are met. Returns the removed ids. */
+export const evictImages = async ({ keepNewest, maxBytes }: EvictionOptions): Promise<string[]> => {
+  const records = await allRecordsOldestFirst();
+  let count = records.length;
+  let bytes = records.reduce((sum, r) => sum + r.size + r.thumbnailSize, 0);
+  const evicted: string[] = [];
+
+  for (const record of records) {
+    const overCount = keepNewest !== undefined && count > keepNewest;
+    const overBytes = maxBytes !== undefined && bytes > maxBytes;
+    if (!overCount && !overBytes) break;
+    evicted.push(record.id);
+    count--;
+    bytes -= record.size + record.thumbnailSize;
+  }
+
+  if (evicted.length) await deleteImages(evicted);
+  return evicted;
+};
+
+const putSource = async (store: string, blob: Blob): Promise<string> => {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(blob, id);
+  try {
+    await transactionDone(tx);
+  } catch (error) {
+    if (isQuotaError(error)) throw new GalleryStorageFullError();
+    throw error;
+  }
+  return id;
+};
+
+const getSource = async (store: string, id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readonly');
+  return (await requestToPromise<Blob | undefined>(tx.objectStore(store).get(id))) ?? null;
+};
+
+/** Keeps the audio of a spoken prompt; images made from it refer to the returned id. */
+export const saveRecording = (blob: Blob): Promise<string> => putSource(RECORDINGS, blob);
+
+export const getRecording = (id: string): Promise<Blob | null> => getSource(RECORDINGS, id);
+
+/** Deletes a spoken-prompt recording unless an image refers to it, e.g. when every job made from it failed. */
+export const deleteUnusedRecording = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, RECORDINGS], 'readwrite');
+  const users = await requestToPromise(tx.objectStore(IMAGES).index('recordingId').count(id));
+  if (users === 0) tx.objectStore(RECORDINGS).delete(id);
+  await transactionDone(tx);
+};
+
+/** Keeps an uploaded reference image; images generated from it refer to the returned id. */
+export const saveReference = (blob: Blob): Promise<string> => putSource(REFERENCES, blob);
+
+export const getReference = (id: string): Promise<Blob | null> => getSource(REFERENCES, id);
+
+/**
+ * Moves the old localStorage history into IndexedDB. The legacy key is only
+ * removed once every entry has been stored, so a failed run can be retried.
+ * It belongs to whoever adopted the browser's pre-account data.
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!raw || !isLegacyOwner()) return 0;
+
+  let legacy: GeneratedImage[];
+  try {
+    legacy = JSON.parse(raw);
+  } catch (e) {
+    console.error("Discarding unreadable legacy history:", e);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return 0;
+  }
+
+  const db = await openDb();
+  let migrated = 0;
+  for (const image of legacy) {
+    if (!image?.id || !image.url) continue;
+    const existing = await requestToPromise(db.transaction(IMAGES, 'readonly').objectStore(IMAGES).getKey(image.id));
+    if (existing !== undefined) continue;
+    await putImage(image);
+    migrated++;
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return migrated;
+};
+
+/** Asks the browser not to evict the gallery under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persisted().then(persisted => persisted || navigator.storage.persist());
+};
+
+/** Reads an image back as base64 for inline model requests. */
+export const readImageData = async (url: string): Promise<{ data: string; mimeType: string }> => {
+  const blob = await dataUrlToBlob(url);
+  return readBlobData(blob);
+};
+
+/** Reads a stored blob as base64, e.g. a reference upload for a generation request. */
+export const readBlobData = async (blob: Blob): Promise<{ data: string; mimeType: string }> => {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return { data: dataUrl.split(',')[1], mimeType: blob.type || 'image/png' };
+};
+
+/** Copies an image into a self-contained `data:` URL that outlives object URLs. */
+export const toDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const { data, mimeType } = await readImageData(url);
+  return `data:${mimeType};base64,${data}`;
+};
@@ -1,42 +1,167 @@
+import { AudioAnalysis, ChatMessage, GeneratedImage, GenerationSettings, SpeechSettings } from "../types";
+import { transcribeMessages } from "./chatContext";
+import { readImageData } from "./galleryStore";
+import { ChatChunk, ChatTurn, ReferenceInput, ToolDeclaration, getProvider, toModelError } from "./providers";
+import { withRetry } from "./retry";
+import { speechToWav } from "./speech";
 
-import { GoogleGenAI } from "@google/genai";
-import { AspectRatio } from "../types";
+const ASSISTANT_INSTRUCTION = (userName: string) => `You are the FlipArt AI Assistant. You help users with prompt engineering and art analysis.
+          When an image is provided, analyze its composition, style, and quality.
+          If the user asks for prompt improvements, give them clear, descriptive keywords.
+          Current user: ${userName}.`;
 
-export const generateImage = async (prompt: string, aspectRatio: AspectRatio): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please check your environment configuration.");
+const TOOLS_INSTRUCTION = `You can create images with generate_image, change gallery images with edit_image and look up earlier work with search_gallery.
+          When the user asks for an image, call the tool with a refined prompt instead of only suggesting one.
+          Messages about attached images include their gallery id for edit_image.`;
+
+const SUMMARY_INSTRUCTION = "You condense conversations between a user and the FlipArt AI Assistant. Keep prompts, style preferences, decisions and open questions. Reply with the summary only, under 150 words.";
+
+const AUDIO_INSTRUCTION = "You are an AI Audio Engineer. You specialize in noise reduction, speech enhancement, and audio analysis.";
+// Noise reduction runs locally (see audioEnhancer), so the model only analyzes.
+const AUDIO_TASK = "Transcribe this voice recording accurately as timestamped segments with speaker labels, rate its audio quality including background noise, and summarize what was said.";
+
+const VOICE_PROMPT_TASK = "This is someone describing, out loud, an image they want to create. Transcribe exactly what they say as a single segment, without filler words such as 'um'.";
+
+const EXPAND_INSTRUCTION = "You turn short spoken ideas into detailed prompts for an image model. Keep the speaker's subject and intent, and add composition, style, lighting and color. Reply with the prompt only, in one paragraph under 80 words.";
+
+const DESCRIBE_INSTRUCTION = "You write short audio descriptions of artworks for narration. Describe the subject, composition, colors and mood in three or four flowing sentences. No lists, headings or markdown.";
+
+/** Model that new images are currently generated with. */
+export const currentImageModel = () => getProvider().imageModel;
+
+/** Image models the active backend offers, the default first. */
+export const currentImageModels = () => getProvider().imageModels;
+
+/** Model that narration is currently spoken with. */
+export const currentSpeechModel = () => getProvider().speechModel;
+
+/**
+ * Runs a provider call, retrying transient failures with backoff. Whatever
+ * still fails is thrown as a ModelError subclass (or the abort).
+ */
+const callModel = <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => withRetry(async () => {
+  try {
+    return await task();
+  } catch (error) {
+    throw toModelError(error);
   }
+}, {
+  signal,
+  onRetry: (error, attempt, delayMs) => console.warn(`${error.name} on attempt ${attempt}, retrying in ${Math.round(delayMs)} ms:`, error.message)
+});
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+/**
+ * Generates images with exactly these settings (see resolveSettings for
+ * drawing a seed), resolving to one URL per candidate. `references` are sent
+ * ahead of the prompt.
+ */
+export const generateImage = async (prompt: string, settings: GenerationSettings, signal?: AbortSignal, references: ReferenceInput[] = []): Promise<string[]> => {
+  const { aspectRatio, model, candidateCount, seed, temperature, safety } = settings;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: prompt }]
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: aspectRatio,
-        }
-      }
-    });
-
-    // Check for image in response candidates
-    const candidate = response.candidates?.[0];
-    if (!candidate?.content?.parts) {
-      throw new Error("Invalid response format from Gemini API");
-    }
+    return await callModel(() => getProvider().generateImage({
+      prompt,
+      aspectRatio,
+      model,
+      candidateCount,
+      seed: seed ?? undefined,
+      temperature: temperature ?? undefined,
+      safety: Object.keys(safety).length ? safety : undefined,
+      references: references.length ? references : undefined,
+      signal
+    }), signal);
+  } catch (error) {
+    console.error("Image generation failed:", error);
+    throw error;
+  }
+};
+
+export const editImage = async (image: GeneratedImage, instruction: string, signal?: AbortSignal): Promise<string> => {
+  const source = await readImageData(image.url);
+  try {
+    return await callModel(() => getProvider().editImage({ image: source, instruction, aspectRatio: image.aspectRatio, signal }), signal);
+  } catch (error) {
+    console.error("Image edit failed:", error);
+    throw error;
+  }
+};
 
-    for (const part of candidate.content.parts) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
+export interface AssistantOptions {
+  userName: string;
+  /** Rolling summary of messages no longer sent verbatim. */
+  summary?: string;
+  /** Functions the assistant may call; see assistantTools. */
+  tools?: ToolDeclaration[];
+  signal?: AbortSignal;
+}
+
+export const streamAssistantMessage = (contents: ChatTurn[], { userName, summary, tools, signal }: AssistantOptions): AsyncIterable<ChatChunk> => {
+  const systemInstruction = [
+    ASSISTANT_INSTRUCTION(userName),
+    tools?.length ? TOOLS_INSTRUCTION : null,
+    summary ? `Summary of the earlier conversation:\n${summary}` : null
+  ].filter(Boolean).join('\n\n');
+  // Only the wait for the first chunk is retried; a reply that broke off midway is not repeated
+  const stream = async function* () {
+    let chunks!: AsyncIterator<ChatChunk>;
+    const first = await callModel(() => {
+      chunks = getProvider().streamChat({ contents, systemInstruction, tools, signal })[Symbol.asyncIterator]();
+      return chunks.next();
+    }, signal);
+    try {
+      for (let next = first; !next.done; next = await chunks.next()) yield next.value;
+    } catch (error) {
+      throw toModelError(error);
     }
+  };
+  return stream();
+};
 
-    throw new Error("No image was generated by the model.");
-  } catch (error: any) {
-    console.error("Image generation failed:", error);
-    throw new Error(error.message || "An error occurred while generating your image.");
-  }
+/** Folds `messages` into an existing summary of the conversation before them. */
+export const summarizeConversation = async (summary: string | undefined, messages: ChatMessage[]): Promise<string> => {
+  const text = (summary ? `Summary so far:\n${summary}\n\nNew messages:\n` : '') + transcribeMessages(messages);
+  return callModel(() => getProvider().chat({
+    contents: [{ role: 'user', parts: [{ text }] }],
+    systemInstruction: SUMMARY_INSTRUCTION
+  }));
+};
+
+export const analyzeAudio = async (data: string, mimeType: string): Promise<AudioAnalysis> => {
+  return callModel(() => getProvider().analyzeAudio({
+    data,
+    mimeType,
+    instruction: AUDIO_TASK,
+    systemInstruction: AUDIO_INSTRUCTION
+  }));
+};
+
+/** Reads `text` aloud and returns it as a WAV with its length in seconds. */
+export const synthesizeSpeech = async (text: string, { voice, style, rate }: SpeechSettings, signal?: AbortSignal): Promise<{ blob: Blob; duration: number }> => {
+  const audio = await callModel(() => getProvider().synthesizeSpeech({ text, voice, style, rate, signal }), signal);
+  return speechToWav(audio);
+};
+
+/** Writes a spoken-word description of a gallery image, ready to narrate. */
+export const describeImage = async (image: GeneratedImage, signal?: AbortSignal): Promise<string> => {
+  const source = await readImageData(image.url);
+  return callModel(() => getProvider().chat({
+    contents: [{ role: 'user', parts: [{ inlineData: source }, { text: `Describe this artwork. It was made from the prompt: "${image.prompt}"` }] }],
+    systemInstruction: DESCRIBE_INSTRUCTION,
+    signal
+  }), signal);
+};
+
+/** Transcribes a spoken Lab prompt into plain text. */
+export const transcribeVoicePrompt = async (data: string, mimeType: string): Promise<string> => {
+  const analysis = await callModel(() => getProvider().analyzeAudio({ data, mimeType, instruction: VOICE_PROMPT_TASK }));
+  return analysis.segments.map(segment => segment.text.trim()).filter(Boolean).join(' ');
+};
+
+/** Has the assistant grow a spoken idea into a detailed image prompt. */
+export const expandPrompt = async (idea: string, signal?: AbortSignal): Promise<string> => {
+  const text = await callModel(() => getProvider().chat({
+    contents: [{ role: 'user', parts: [{ text: idea }] }],
+    systemInstruction: EXPAND_INSTRUCTION,
+    signal
+  }), signal);
+  return text.trim();
 };
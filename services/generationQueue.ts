@@ -0,0 +1,234 @@
+import { GeneratedImage, GenerationBatch, GenerationJob, GenerationSettings, ImageReference, JobStatus, PromptPreset, VoicePrompt } from "../types";
+import { scopedKey } from "./userScope";
+
+const QUEUE_KEY = 'flipart_queue';
+const DEFAULT_CONCURRENCY = 2;
+
+export interface QueueSnapshot {
+  batches: GenerationBatch[];
+  jobs: GenerationJob[];
+}
+
+export interface BatchRequest {
+  prompts: string[];
+  /** Number of images to generate for each prompt. */
+  variations: number;
+  /** Lab settings for every job; a fixed seed is offset per variation when the job runs. */
+  settings: GenerationSettings;
+  /** Composer preset the prompts were built with, recorded on each image. */
+  preset?: PromptPreset;
+  /** Stored uploads that guide every job, recorded on each image. */
+  references?: ImageReference[];
+  /** Spoken prompt the request came from, recorded on each image. */
+  voicePrompt?: VoicePrompt;
+}
+
+interface GenerationQueueOptions {
+  /** Generates and stores one job's images, resolving to the first stored image id. */
+  run: (job: GenerationJob, signal: AbortSignal) => Promise<string>;
+  concurrency?: number;
+  /** Where the queue is saved, looked up on every write; null keeps it in memory only. */
+  storageKey?: () => string | null;
+}
+
+export interface GenerationQueue {
+  submit: (request: BatchRequest) => GenerationBatch;
+  cancelJob: (jobId: string) => void;
+  cancelBatch: (batchId: string) => void;
+  retryJob: (jobId: string) => void;
+  /** Drops batches whose jobs have all finished, failed or been cancelled. */
+  clearFinished: () => void;
+  /** Starts pending work, including jobs restored from a previous session. */
+  resume: () => void;
+  /**
+   * Swaps in the queue saved under the current storage key, e.g. after the
+   * user changes. Running jobs are stopped and stay queued under the old key.
+   */
+  reload: () => void;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => QueueSnapshot;
+}
+
+export const isTerminal = (status: JobStatus) => status === 'done' || status === 'failed' || status === 'cancelled';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const load = (key: string | null): QueueSnapshot => {
+  if (!key) return { batches: [], jobs: [] };
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return { batches: [], jobs: [] };
+    const snapshot: QueueSnapshot = JSON.parse(saved);
+    // Jobs that were mid-flight when the page closed start over
+    return {
+      batches: snapshot.batches,
+      jobs: snapshot.jobs.map(job => job.status === 'running' ? { ...job, status: 'queued', startedAt: undefined } : job)
+    };
+  } catch (e) {
+    console.error("Could not restore generation queue:", e);
+    return { batches: [], jobs: [] };
+  }
+};
+
+export const createGenerationQueue = ({ run, concurrency = DEFAULT_CONCURRENCY, storageKey = () => scopedKey(QUEUE_KEY) }: GenerationQueueOptions): GenerationQueue => {
+  let state = load(storageKey());
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<() => void>();
+
+  const emit = () => {
+    try {
+      const key = storageKey();
+      if (key) localStorage.setItem(key, JSON.stringify(state));
+    } catch (e) {
+      console.warn("Could not persist generation queue:", e);
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  const update = (jobId: string, patch: Partial<GenerationJob>) => {
+    state = { ...state, jobs: state.jobs.map(job => job.id === jobId ? { ...job, ...patch } : job) };
+  };
+
+  const start = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', startedAt: Date.now(), error: undefined });
+    emit();
+
+    try {
+      const imageId = await run(job, controller.signal);
+      if (!controller.signal.aborted) {
+        update(job.id, { status: 'done', imageId, finishedAt: Date.now() });
+      }
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        update(job.id, { status: 'failed', error: error?.message || "Generation failed.", finishedAt: Date.now() });
+      }
+    } finally {
+      controllers.delete(job.id);
+      emit();
+      pump();
+    }
+  };
+
+  const pump = () => {
+    for (const job of state.jobs) {
+      if (controllers.size >= concurrency) break;
+      if (job.status === 'queued') start(job);
+    }
+  };
+
+  const cancel = (jobIds: string[]) => {
+    const now = Date.now();
+    for (const id of jobIds) {
+      const job = state.jobs.find(j => j.id === id);
+      if (!job || isTerminal(job.status)) continue;
+      update(id, { status: 'cancelled', finishedAt: now });
+      controllers.get(id)?.abort();
+    }
+    emit();
+  };
+
+  return {
+    submit({ prompts, variations, settings, references, preset, voicePrompt }) {
+      const batch: GenerationBatch = {
+        id: newId(),
+        label: prompts.length === 1 ? prompts[0] : `${prompts.length} prompts`,
+        createdAt: Date.now()
+      };
+      const jobs = prompts.flatMap(prompt =>
+        Array.from({ length: variations }, (_, i): GenerationJob => ({
+          id: newId(),
+          batchId: batch.id,
+          prompt,
+          aspectRatio: settings.aspectRatio,
+          variation: i + 1,
+          settings,
+          references,
+          preset,
+          voicePrompt,
+          status: 'queued',
+          createdAt: batch.createdAt
+        }))
+      );
+      state = { batches: [...state.batches, batch], jobs: [...state.jobs, ...jobs] };
+      emit();
+      pump();
+      return batch;
+    },
+
+    cancelJob(jobId) {
+      cancel([jobId]);
+    },
+
+    cancelBatch(batchId) {
+      cancel(state.jobs.filter(job => job.batchId === batchId).map(job => job.id));
+    },
+
+    retryJob(jobId) {
+      const job = state.jobs.find(j => j.id === jobId);
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+      update(jobId, { status: 'queued', error: undefined, startedAt: undefined, finishedAt: undefined });
+      emit();
+      pump();
+    },
+
+    clearFinished() {
+      const active = new Set(state.jobs.filter(job => !isTerminal(job.status)).map(job => job.batchId));
+      state = {
+        batches: state.batches.filter(batch => active.has(batch.id)),
+        jobs: state.jobs.filter(job => active.has(job.batchId))
+      };
+      emit();
+    },
+
+    resume() {
+      pump();
+    },
+
+    reload() {
+      const running = [...controllers.values()];
+      controllers.clear();
+      state = load(storageKey());
+      // Aborted after the swap, so the stopped jobs' results never touch the new state
+      running.forEach(controller => controller.abort());
+      listeners.forEach(listener => listener());
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    getSnapshot: () => state
+  };
+};
+
+export interface GalleryGroup {
+  batchId?: string;
+  images: GeneratedImage[];
+}
+
+/**
+ * Gathers images from the same batch next to each other, placed where the
+ * batch's newest image sits; images outside a batch stay as single groups.
+ */
+export const groupByBatch = (images: GeneratedImage[]): GalleryGroup[] => {
+  const groups: GalleryGroup[] = [];
+  const byBatch = new Map<string, GalleryGroup>();
+  for (const image of images) {
+    if (!image.batchId) {
+      groups.push({ images: [image] });
+      continue;
+    }
+    const existing = byBatch.get(image.batchId);
+    if (existing) {
+      existing.images.push(image);
+    } else {
+      const group = { batchId: image.batchId, images: [image] };
+      byBatch.set(image.batchId, group);
+      groups.push(group);
+    }
+  }
+  return groups;
+};
@@ -0,0 +1,139 @@
+import { AspectRatio, GenerationSettings, HarmCategory, SafetyThreshold } from "../types";
+import { ImageModelInfo } from "./providers/types";
+import { scopedKey } from "./userScope";
+
+const SETTINGS_KEY = 'flipart_generation_settings';
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isAspectRatio = (value: unknown): value is AspectRatio => ASPECT_RATIOS.includes(value as AspectRatio);
+
+export const SAFETY_CATEGORIES: { key: HarmCategory; label: string }[] = [
+  { key: 'harassment', label: 'Harassment' },
+  { key: 'hateSpeech', label: 'Hate speech' },
+  { key: 'sexuallyExplicit', label: 'Sexually explicit' },
+  { key: 'dangerousContent', label: 'Dangerous content' }
+];
+
+export const SAFETY_THRESHOLDS: { value: SafetyThreshold; label: string }[] = [
+  { value: 'BLOCK_LOW_AND_ABOVE', label: 'Strict' },
+  { value: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Balanced' },
+  { value: 'BLOCK_ONLY_HIGH', label: 'Relaxed' },
+  { value: 'BLOCK_NONE', label: 'Off' }
+];
+
+/** Seeds are 32-bit signed integers on the Gemini API. */
+export const MAX_SEED = 2 ** 31 - 1;
+
+export const defaultSettings = (model: string): GenerationSettings => ({
+  aspectRatio: '1:1',
+  model,
+  candidateCount: 1,
+  seed: null,
+  temperature: null,
+  safety: {}
+});
+
+/**
+ * Problems with `settings` for `model`, keyed by field; empty when they can be
+ * sent along with `referenceCount` reference images.
+ */
+export const validateSettings = (settings: GenerationSettings, model: ImageModelInfo | undefined, referenceCount = 0): Partial<Record<keyof GenerationSettings, string>> => {
+  const errors: Partial<Record<keyof GenerationSettings, string>> = {};
+  if (!model) {
+    errors.model = `${settings.model} is not available on this backend.`;
+    return errors;
+  }
+  if (referenceCount > 0 && !model.supportsReferences) {
+    errors.model = `${model.label} cannot take reference images. Pick a Gemini model or remove the references.`;
+  }
+  if (!Number.isInteger(settings.candidateCount) || settings.candidateCount < 1 || settings.candidateCount > model.maxCandidates) {
+    errors.candidateCount = model.maxCandidates === 1
+      ? `${model.label} returns one image per request.`
+      : `${model.label} returns 1 to ${model.maxCandidates} images per request.`;
+  }
+  if (settings.seed !== null) {
+    if (!model.supportsSeed) errors.seed = `${model.label} does not take a seed.`;
+    else if (!Number.isInteger(settings.seed) || settings.seed < 0 || settings.seed > MAX_SEED) errors.seed = `The seed must be a whole number from 0 to ${MAX_SEED}.`;
+  }
+  if (settings.temperature !== null) {
+    const range = model.temperature;
+    if (!range) errors.temperature = `${model.label} has no temperature setting.`;
+    else if (!(settings.temperature >= range.min && settings.temperature <= range.max)) errors.temperature = `The temperature must be from ${range.min} to ${range.max}.`;
+  }
+  if (Object.keys(settings.safety).length > 0 && !model.supportsSafety) {
+    errors.safety = `${model.label} uses its own safety filter.`;
+  }
+  return errors;
+};
+
+/**
+ * Brings settings in line with what `models` accept, e.g. after switching
+ * backend: unknown models fall back to the first, and anything the chosen
+ * model cannot take is reset rather than rejected.
+ */
+export const fitSettings = (settings: GenerationSettings, models: ImageModelInfo[]): GenerationSettings => {
+  const model = models.find(m => m.id === settings.model) ?? models[0];
+  const range = model.temperature;
+  return {
+    ...settings,
+    model: model.id,
+    candidateCount: Math.min(Math.max(1, Math.round(settings.candidateCount) || 1), model.maxCandidates),
+    seed: model.supportsSeed ? settings.seed : null,
+    temperature: range && settings.temperature !== null ? Math.min(Math.max(settings.temperature, range.min), range.max) : null,
+    safety: model.supportsSafety ? settings.safety : {}
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED);
+
+/**
+ * The settings one request is actually sent with. A fixed seed is offset by
+ * the variation so variations still differ; otherwise a fresh seed is drawn
+ * so the result can be reproduced later.
+ */
+export const resolveSettings = (settings: GenerationSettings, model: ImageModelInfo | undefined, variation = 1): GenerationSettings => {
+  if (!model?.supportsSeed) return { ...settings, seed: null };
+  const seed = settings.seed === null ? randomSeed() : (settings.seed + variation - 1) % (MAX_SEED + 1);
+  return { ...settings, seed };
+};
+
+const parseSettings = (value: unknown, fallback: GenerationSettings): GenerationSettings => {
+  const raw = isRecord(value) ? value : {};
+  const safety = isRecord(raw.safety) ? raw.safety : {};
+  return {
+    aspectRatio: isAspectRatio(raw.aspectRatio) ? raw.aspectRatio : fallback.aspectRatio,
+    model: typeof raw.model === 'string' ? raw.model : fallback.model,
+    candidateCount: typeof raw.candidateCount === 'number' ? raw.candidateCount : fallback.candidateCount,
+    seed: typeof raw.seed === 'number' ? raw.seed : null,
+    temperature: typeof raw.temperature === 'number' ? raw.temperature : null,
+    safety: Object.fromEntries(SAFETY_CATEGORIES.flatMap(({ key }) => {
+      const threshold = SAFETY_THRESHOLDS.find(t => t.value === safety[key]);
+      return threshold ? [[key, threshold.value]] : [];
+    }))
+  };
+};
+
+/** Reads settings recorded with an image, e.g. from an archive or a file; undefined when unusable. */
+export const parseImageSettings = (raw: unknown): GenerationSettings | undefined => {
+  if (!isRecord(raw) || typeof raw.model !== 'string' || !isAspectRatio(raw.aspectRatio)) return undefined;
+  return parseSettings(raw, defaultSettings(raw.model));
+};
+
+/** The signed-in user's saved settings, fitted to the models available now. */
+export const loadSettings = (models: ImageModelInfo[]): GenerationSettings => {
+  const fallback = defaultSettings(models[0].id);
+  try {
+    const key = scopedKey(SETTINGS_KEY);
+    const saved = key && localStorage.getItem(key);
+    return fitSettings(saved ? parseSettings(JSON.parse(saved), fallback) : fallback, models);
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveSettings = (settings: GenerationSettings) => {
+  const key = scopedKey(SETTINGS_KEY);
+  if (key) localStorage.setItem(key, JSON.stringify(settings));
+};
@@ -0,0 +1,41 @@
+// Minimal promise helpers over IndexedDB, shared by the local stores.
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+type Upgrade = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void;
+
+/**
+ * Returns a lazy opener that reuses one connection per database. A failed
+ * open is not cached, so the next call retries. `name` may be a function for
+ * databases that are kept per user; it is resolved on every call.
+ */
+export const createDatabase = (name: string | (() => string), version: number, upgrade: Upgrade) => {
+  const connections = new Map<string, Promise<IDBDatabase>>();
+  return (): Promise<IDBDatabase> => {
+    const resolved = typeof name === 'function' ? name() : name;
+    let dbPromise = connections.get(resolved);
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(resolved, version);
+        request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      connections.set(resolved, dbPromise);
+      dbPromise.catch(() => { connections.delete(resolved); });
+    }
+    return dbPromise;
+  };
+};
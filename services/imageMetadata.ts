@@ -0,0 +1,238 @@
+// Generation settings travel inside downloaded files: PNGs get iTXt chunks,
+// JPEGs an XMP packet. Other formats are saved unchanged.
+import { AspectRatio, GeneratedImage, GenerationSettings, PromptPreset } from "../types";
+import { parseImageSettings } from "./generationSettings";
+import { parsePreset } from "./promptComposer";
+import { crc32 } from "./zip";
+
+/** What FlipArt needs to re-create an image, as embedded in the file. */
+export interface ImageMetadata {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  model?: string;
+  preset?: PromptPreset;
+  editInstruction?: string;
+  createdAt?: number;
+  settings?: GenerationSettings;
+}
+
+const KEYWORD = 'flipart';
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isAspectRatio = (value: unknown): value is AspectRatio => ASPECT_RATIOS.includes(value as AspectRatio);
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+// A JPEG segment length is 16 bits and counts itself
+const MAX_SEGMENT = 0xffff - 2;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const metadataOf = (image: GeneratedImage): ImageMetadata => ({
+  prompt: image.prompt,
+  aspectRatio: image.aspectRatio,
+  model: image.model,
+  preset: image.preset,
+  editInstruction: image.editInstruction,
+  createdAt: image.timestamp,
+  settings: image.settings
+});
+
+const parseMetadata = (json: string): ImageMetadata | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw) || typeof raw.prompt !== 'string' || !isAspectRatio(raw.aspectRatio)) return null;
+  return {
+    prompt: raw.prompt,
+    aspectRatio: raw.aspectRatio,
+    model: typeof raw.model === 'string' ? raw.model : undefined,
+    preset: parsePreset(raw.preset),
+    editInstruction: typeof raw.editInstruction === 'string' ? raw.editInstruction : undefined,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : undefined,
+    settings: parseImageSettings(raw.settings)
+  };
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) { out.set(part, offset); offset += part.length; }
+  return out;
+};
+
+const startsWith = (bytes: Uint8Array, prefix: number[] | Uint8Array, at = 0) =>
+  bytes.length >= at + prefix.length && Array.prototype.every.call(prefix, (byte: number, i: number) => bytes[at + i] === byte);
+
+const isPng = (bytes: Uint8Array) => startsWith(bytes, PNG_SIGNATURE);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+// --- PNG ---
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const writePngChunk = ({ type, data }: PngChunk): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(encoder.encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+// iTXt: keyword, NUL, compression flag and method, language, NUL, translated keyword, NUL, UTF-8 text
+const itxtChunk = (keyword: string, text: string): PngChunk => ({
+  type: 'iTXt',
+  data: concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)])
+});
+
+const readItxt = (data: Uint8Array): { keyword: string; text: string } | null => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 0 || data[keywordEnd + 1] !== 0) return null; // compressed text is not ours
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+  if (translatedEnd < 0) return null;
+  return { keyword: decoder.decode(data.subarray(0, keywordEnd)), text: decoder.decode(data.subarray(translatedEnd + 1)) };
+};
+
+const OUR_KEYWORDS = [KEYWORD, 'Description', 'Software'];
+
+const embedPng = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const chunks = readPngChunks(bytes).filter(chunk => {
+    if (chunk.type !== 'iTXt' && chunk.type !== 'tEXt') return true;
+    const keyword = decoder.decode(chunk.data.subarray(0, chunk.data.indexOf(0)));
+    return !OUR_KEYWORDS.includes(keyword);
+  });
+  const ours: PngChunk[] = [
+    { type: 'tEXt', data: encoder.encode('Software\0FlipArt') },
+    itxtChunk('Description', metadata.prompt),
+    itxtChunk(KEYWORD, JSON.stringify(metadata))
+  ];
+  // Text chunks may go anywhere after IHDR, which is always first
+  return concat([new Uint8Array(PNG_SIGNATURE), ...[chunks[0], ...ours, ...chunks.slice(1)].map(writePngChunk)]);
+};
+
+const readPng = (bytes: Uint8Array): ImageMetadata | null => {
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== 'iTXt') continue;
+    const text = readItxt(chunk.data);
+    if (text?.keyword === KEYWORD) return parseMetadata(text.text);
+  }
+  return null;
+};
+
+// --- JPEG ---
+
+interface JpegSegment {
+  marker: number;
+  /** Whole segment including marker and length. */
+  bytes: Uint8Array;
+}
+
+/** Splits a JPEG into the segments before the scan data, plus everything from SOS on. */
+const readJpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; rest: Uint8Array } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, bytes: bytes.subarray(offset, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return { segments, rest: bytes.subarray(offset) };
+};
+
+const isXmp = (segment: JpegSegment) =>
+  segment.marker === 0xe1 && startsWith(segment.bytes, encoder.encode(XMP_HEADER), 4);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+const SETTINGS_ELEMENT = /<flipart:settings>([\s\S]*?)<\/flipart:settings>/;
+
+const xmpPacket = (metadata: ImageMetadata) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:flipart="urn:flipart:metadata:1">
+   <xmp:CreatorTool>FlipArt</xmp:CreatorTool>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+   <flipart:settings>${escapeXml(JSON.stringify(metadata))}</flipart:settings>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const embedJpeg = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const payload = concat([encoder.encode(XMP_HEADER), encoder.encode(xmpPacket(metadata))]);
+  if (payload.length > MAX_SEGMENT) return bytes;
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  const { segments, rest } = readJpegSegments(bytes);
+  const kept = segments.filter(s => !isXmp(s));
+  // XMP follows the JFIF/EXIF application segments when there are any
+  const insertAt = kept.findIndex(s => s.marker !== 0xe0 && s.marker !== 0xe1);
+  const at = insertAt < 0 ? kept.length : insertAt;
+  return concat([
+    bytes.subarray(0, 2),
+    ...kept.slice(0, at).map(s => s.bytes),
+    segment,
+    ...kept.slice(at).map(s => s.bytes),
+    rest
+  ]);
+};
+
+const readJpeg = (bytes: Uint8Array): ImageMetadata | null => {
+  const xmp = readJpegSegments(bytes).segments.find(isXmp);
+  if (!xmp) return null;
+  const match = SETTINGS_ELEMENT.exec(decoder.decode(xmp.bytes.subarray(4 + XMP_HEADER.length)));
+  return match ? parseMetadata(unescapeXml(match[1])) : null;
+};
+
+/** Returns the file with `metadata` embedded; formats other than PNG and JPEG come back unchanged. */
+export const embedMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  if (isPng(bytes)) return embedPng(bytes, metadata);
+  if (isJpeg(bytes)) return embedJpeg(bytes, metadata);
+  return bytes;
+};
+
+/** Reads FlipArt settings from an image file, or null when it has none. */
+export const readMetadata = (bytes: Uint8Array): ImageMetadata | null => {
+  try {
+    if (isPng(bytes)) return readPng(bytes);
+    if (isJpeg(bytes)) return readJpeg(bytes);
+  } catch (e) {
+    console.warn("Could not read image metadata:", e);
+  }
+  return null;
+};
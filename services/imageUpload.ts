@@ -0,0 +1,95 @@
+// Limits for images uploaded as chat attachments or generation references.
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+/** Longest side an upload is sent at; larger images are scaled down first. */
+const MAX_EDGE = 1536;
+/** Formats sent as they are when small enough; anything else is converted to PNG. */
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const REENCODE_QUALITY = 0.9;
+
+export interface UploadedImage {
+  id: string;
+  name: string;
+  /** `data:` URL in `mimeType`, ready to send inline or to store. */
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** Checks a file before it is decoded; returns the problem, or null when it is fine. */
+export const checkImageFile = (file: File): string | null => {
+  if (!file.type.startsWith('image/')) return `"${file.name}" is not an image. Choose a PNG, JPEG or WebP file.`;
+  if (file.size === 0) return `"${file.name}" is empty.`;
+  if (file.size > MAX_UPLOAD_BYTES) return `"${file.name}" is ${formatMb(file.size)}; the limit is ${formatMb(MAX_UPLOAD_BYTES)}.`;
+  return null;
+};
+
+/** The image files in a drop or paste, in order. */
+export const imageFilesOf = (data: DataTransfer | null): File[] =>
+  Array.from(data?.files ?? []).filter(file => file.type.startsWith('image/'));
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Decodes an upload and scales it so its longest side is at most MAX_EDGE.
+ * Files that already fit keep their bytes; the rest are re-encoded in their
+ * own format where the model accepts it, otherwise as PNG.
+ */
+export const prepareUpload = async (file: File): Promise<UploadedImage> => {
+  const problem = checkImageFile(file);
+  if (problem) throw new Error(problem);
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = objectUrl;
+    try {
+      await img.decode();
+    } catch {
+      throw new Error(`"${file.name}" could not be read as an image.`);
+    }
+    const { naturalWidth: width, naturalHeight: height } = img;
+    const scale = Math.min(1, MAX_EDGE / Math.max(width, height));
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    if (scale === 1 && INLINE_TYPES.includes(file.type)) {
+      return { id, name: file.name, url: await readAsDataUrl(file), mimeType: file.type, width, height };
+    }
+
+    const mimeType = INLINE_TYPES.includes(file.type) ? file.type : 'image/png';
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, REENCODE_QUALITY));
+    if (!blob) throw new Error(`"${file.name}" could not be resized.`);
+    return { id, name: file.name, url: await readAsDataUrl(blob), mimeType: blob.type || mimeType, width: canvas.width, height: canvas.height };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Prepares several uploads, keeping at most `room` of them. Files that fail
+ * are skipped and their problems returned alongside the ones that worked.
+ */
+export const prepareUploads = async (files: File[], room: number): Promise<{ images: UploadedImage[]; problems: string[] }> => {
+  const images: UploadedImage[] = [];
+  const problems: string[] = [];
+  for (const file of files.slice(0, Math.max(0, room))) {
+    try {
+      images.push(await prepareUpload(file));
+    } catch (err: any) {
+      problems.push(err.message);
+    }
+  }
+  if (files.length > room) {
+    problems.push(room > 0 ? `Only ${room} more image${room === 1 ? '' : 's'} can be added.` : "No more images can be added.");
+  }
+  return { images, problems };
+};
@@ -0,0 +1,123 @@
+// Minimal PDF writer for storyboard exports. Pages hold JPEG images, embedded
+// as they are (DCTDecode), and single lines of Helvetica text. Positions are
+// given from the top-left corner in points and flipped to PDF's bottom-left
+// origin here. Text uses WinAnsiEncoding; characters outside Latin-1 become "?".
+
+export interface PdfImage {
+  /** Baseline JPEG bytes. */
+  jpeg: Uint8Array;
+  /** Pixel size of the JPEG. */
+  width: number;
+  height: number;
+  /** Where it is drawn, in points. */
+  x: number;
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+export interface PdfText {
+  text: string;
+  /** Left edge and baseline, in points. */
+  x: number;
+  y: number;
+  size: number;
+  bold?: boolean;
+  /** Grey level from 0 (black) to 1 (white). */
+  gray?: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  images: PdfImage[];
+  texts: PdfText[];
+}
+
+/** A4 landscape, in points. */
+export const A4_LANDSCAPE = { width: 842, height: 595 };
+
+/** Rough width of Helvetica text; good enough to wrap captions. */
+export const textWidth = (text: string, size: number) => text.length * size * 0.5;
+
+const latin1 = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code < 256 ? code : 0x3f;
+  }
+  return bytes;
+};
+
+const escapeText = (text: string) => text.replace(/[\\()]/g, char => `\\${char}`).replace(/[\r\n]/g, ' ');
+
+const number = (value: number) => Number(value.toFixed(2)).toString();
+
+const pageContent = (page: PdfPage, imageNames: string[]) => {
+  const ops: string[] = [];
+  page.images.forEach((image, i) => {
+    const bottom = page.height - image.y - image.drawHeight;
+    ops.push(`q ${number(image.drawWidth)} 0 0 ${number(image.drawHeight)} ${number(image.x)} ${number(bottom)} cm /${imageNames[i]} Do Q`);
+  });
+  for (const text of page.texts) {
+    ops.push(`BT /${text.bold ? 'F2' : 'F1'} ${number(text.size)} Tf ${number(text.gray ?? 0)} g ${number(text.x)} ${number(page.height - text.y)} Td (${escapeText(text.text)}) Tj ET`);
+  }
+  return ops.join('\n');
+};
+
+/** Builds a PDF with one page per entry. */
+export const createPdf = (pages: PdfPage[]): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? latin1(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects 1-4 are fixed; each page then takes a page, a content stream and its images
+  const pageIds: number[] = [];
+  let nextId = 5;
+  const layout = pages.map(page => {
+    const pageId = nextId++;
+    const contentId = nextId++;
+    const imageIds = page.images.map(() => nextId++);
+    pageIds.push(pageId);
+    return { page, pageId, contentId, imageIds };
+  });
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  for (const { page, pageId, contentId, imageIds } of layout) {
+    const names = imageIds.map((_, i) => `Im${i + 1}`);
+    const xObjects = imageIds.map((id, i) => `/${names[i]} ${id} 0 R`).join(' ');
+    object(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${number(page.width)} ${number(page.height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${contentId} 0 R >>`);
+    const content = latin1(pageContent(page, names));
+    object(contentId, `<< /Length ${content.length} >>`, content);
+    page.images.forEach((image, i) => {
+      object(imageIds[i], `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>`, image.jpeg);
+    });
+  }
+
+  const xrefOffset = length;
+  const size = nextId;
+  let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+  for (let id = 1; id < size; id++) xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  write(xref);
+  write(`trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  return new Blob(chunks, { type: 'application/pdf' });
+};
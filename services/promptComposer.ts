@@ -0,0 +1,116 @@
+import { PromptModifiers, PromptPreset, PromptTemplate } from "../types";
+import { scopedKey } from "./userScope";
+
+const PRESETS_KEY = 'flipart_prompt_presets';
+const TEMPLATES_KEY = 'flipart_prompt_templates';
+
+type ModifierKey = Exclude<keyof PromptModifiers, 'avoid'>;
+
+export const MODIFIER_FIELDS: { key: ModifierKey; label: string; options: string[] }[] = [
+  {
+    key: 'style',
+    label: 'Art style',
+    options: ['photorealistic', 'digital painting', 'anime', 'cyberpunk', 'art nouveau', 'minimalist', 'surrealist', 'pixel art', 'concept art']
+  },
+  {
+    key: 'medium',
+    label: 'Medium',
+    options: ['oil on canvas', 'watercolor', 'charcoal sketch', '3D render', 'film photograph', 'ink drawing', 'claymation', 'low-poly model']
+  },
+  {
+    key: 'lighting',
+    label: 'Lighting',
+    options: ['golden hour lighting', 'soft studio lighting', 'neon glow', 'dramatic chiaroscuro', 'overcast diffuse light', 'volumetric god rays', 'candlelight', 'moonlight']
+  },
+  {
+    key: 'camera',
+    label: 'Camera / lens',
+    options: ['35mm wide angle', '85mm portrait lens, shallow depth of field', 'macro close-up', 'aerial drone shot', 'tilt-shift', 'fisheye lens', 'telephoto compression', 'isometric view']
+  },
+  {
+    key: 'colorMood',
+    label: 'Color mood',
+    options: ['vibrant colors', 'pastel palette', 'muted earth tones', 'monochrome', 'teal and orange', 'iridescent', 'high contrast', 'sepia tones']
+  }
+];
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  { id: 'builtin-city', name: 'Neon city', text: "{place} at night with neon lights and flying cars", builtIn: true },
+  { id: 'builtin-creature', name: 'Elemental creature', text: "A majestic {creature} made of {material} breathing {element}", builtIn: true },
+  { id: 'builtin-architecture', name: 'Architecture', text: "Minimalist architectural {building} in a {landscape} under a {color} sky", builtIn: true },
+  { id: 'builtin-hero', name: 'Tiny hero', text: "A tiny {animal} wearing {outfit} and holding {item}", builtIn: true },
+  { id: 'builtin-poster', name: 'Retro poster', text: "Retro-futuristic poster of {journey}, {decade} style", builtIn: true }
+];
+
+/** Joins a subject and the chosen modifiers into the prompt sent to the model. */
+export const compilePrompt = (subject: string, modifiers: PromptModifiers): string => {
+  const parts = [subject.trim(), ...MODIFIER_FIELDS.map(field => modifiers[field.key]?.trim())].filter(Boolean);
+  const avoid = modifiers.avoid?.trim();
+  return parts.join(', ') + (avoid ? `. Avoid: ${avoid}` : '');
+};
+
+export const hasModifiers = (modifiers: PromptModifiers) =>
+  Object.values(modifiers).some(value => value?.trim());
+
+export const sameModifiers = (a: PromptModifiers, b: PromptModifiers) =>
+  [...MODIFIER_FIELDS.map(field => field.key), 'avoid' as const].every(key => (a[key]?.trim() ?? '') === (b[key]?.trim() ?? ''));
+
+const VARIABLE = /\{([^{}]+)\}/g;
+
+/** Variable names in order of first appearance. */
+export const templateVariables = (text: string): string[] =>
+  [...new Set([...text.matchAll(VARIABLE)].map(match => match[1].trim()))];
+
+/** Fills `{variables}`; ones without a value are left in place. */
+export const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(VARIABLE, (placeholder, name: string) => values[name.trim()]?.trim() || placeholder);
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Presets and templates belong to the signed-in user; signed out there are none
+const load = <T>(key: string): T[] => {
+  const userKey = scopedKey(key);
+  if (!userKey) return [];
+  try {
+    return JSON.parse(localStorage.getItem(userKey) || '[]');
+  } catch (e) {
+    console.error(`Could not read ${userKey}:`, e);
+    return [];
+  }
+};
+
+const store = (key: string, items: unknown[]) => {
+  const userKey = scopedKey(key);
+  if (userKey) localStorage.setItem(userKey, JSON.stringify(items));
+};
+
+export const loadPresets = (): PromptPreset[] => load<PromptPreset>(PRESETS_KEY);
+
+export const savePresets = (presets: PromptPreset[]) => store(PRESETS_KEY, presets);
+
+export const createPreset = (name: string, modifiers: PromptModifiers): PromptPreset =>
+  ({ id: newId(), name: name.trim(), modifiers: { ...modifiers }, createdAt: Date.now() });
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const MODIFIER_KEYS: (keyof PromptModifiers)[] = [...MODIFIER_FIELDS.map(field => field.key), 'avoid'];
+
+/** Accepts a preset read from a file, or undefined when it is not shaped like one. Unknown modifiers are dropped. */
+export const parsePreset = (value: unknown): PromptPreset | undefined => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !isRecord(value.modifiers)) return undefined;
+  const modifiers: PromptModifiers = {};
+  for (const key of MODIFIER_KEYS) {
+    const modifier = value.modifiers[key];
+    if (typeof modifier === 'string') modifiers[key] = modifier;
+  }
+  return { id: value.id, name: value.name, modifiers, createdAt: Number(value.createdAt) || 0 };
+};
+
+/** Built-in templates first, then the user's own. */
+export const loadTemplates = (): PromptTemplate[] => [...BUILT_IN_TEMPLATES, ...load<PromptTemplate>(TEMPLATES_KEY)];
+
+export const saveTemplates = (templates: PromptTemplate[]) =>
+  store(TEMPLATES_KEY, templates.filter(template => !template.builtIn));
+
+export const createTemplate = (name: string, text: string): PromptTemplate =>
+  ({ id: newId(), name: name.trim(), text: text.trim() });
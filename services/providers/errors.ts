@@ -0,0 +1,204 @@
+// Failures from model calls, by cause. Providers throw these so the app can
+// retry the transient ones and tell the user what to do about the rest.
+
+export type ModelTask = 'image' | 'edit' | 'chat' | 'audio' | 'speech';
+
+export class ModelError extends Error {
+  /** Worth retrying unchanged after a pause. */
+  readonly transient: boolean;
+  /** HTTP status from the backend, when there was a response. */
+  readonly status?: number;
+
+  constructor(message: string, options: { transient?: boolean; status?: number } = {}) {
+    super(message);
+    this.name = 'ModelError';
+    this.transient = options.transient ?? false;
+    this.status = options.status;
+  }
+}
+
+/** The backend has no API key to call the model with, or the key was refused. */
+export class MissingKeyError extends ModelError {
+  constructor(message = "No API key is configured for this backend.") {
+    super(message);
+    this.name = 'MissingKeyError';
+  }
+}
+
+/** The user's session was missing or rejected by the proxy. */
+export class UnauthenticatedError extends ModelError {
+  constructor(message = "Sign in to use the model.") {
+    super(message, { status: 401 });
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+/** The backend could not be reached at all. */
+export class NetworkError extends ModelError {
+  constructor(message = "The model service could not be reached.") {
+    super(message, { transient: true });
+    this.name = 'NetworkError';
+  }
+}
+
+/** The backend failed on its side (5xx). */
+export class ServerError extends ModelError {
+  constructor(message: string, status?: number) {
+    super(message, { transient: true, status });
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Too many requests. A short-term rate limit clears by itself; a used-up
+ * quota does not, so only the former is retried.
+ */
+export class RateLimitError extends ModelError {
+  readonly quota: boolean;
+  /** How long the backend asked callers to wait, if it said. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { quota?: boolean; retryAfterMs?: number } = {}) {
+    super(message, { transient: !options.quota, status: 429 });
+    this.name = 'RateLimitError';
+    this.quota = options.quota ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** The model refused the request or withheld its answer on safety grounds. */
+export class SafetyBlockError extends ModelError {
+  /** Why it was blocked, e.g. SAFETY, IMAGE_SAFETY or PROHIBITED_CONTENT. */
+  readonly reason: string;
+  /** The harm category that triggered the block, e.g. HARM_CATEGORY_HARASSMENT. */
+  readonly category?: string;
+
+  constructor(reason: string, category?: string) {
+    super(category ? `Blocked by the safety filter (${categoryLabel(category)}).` : "Blocked by the safety filter.");
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+    this.category = category;
+  }
+}
+
+/** The call succeeded but the model returned nothing usable. */
+export class EmptyResponseError extends ModelError {
+  constructor(message = "The model returned an empty response.") {
+    super(message, { transient: true });
+    this.name = 'EmptyResponseError';
+  }
+}
+
+/** The request was rejected as malformed, too large or unsupported. */
+export class InvalidInputError extends ModelError {
+  constructor(message: string) {
+    super(message, { status: 400 });
+    this.name = 'InvalidInputError';
+  }
+}
+
+// Aborts surface as DOMExceptions from fetch and plain Errors from some SDK paths
+export const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  HARM_CATEGORY_HARASSMENT: 'harassment',
+  HARM_CATEGORY_HATE_SPEECH: 'hate speech',
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'sexually explicit content',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'dangerous content',
+  HARM_CATEGORY_CIVIC_INTEGRITY: 'civic integrity'
+};
+
+export const categoryLabel = (category: string) =>
+  CATEGORY_LABELS[category] ?? category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+/** Finish reasons that mean the answer was withheld rather than finished. */
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+interface SafetyRating {
+  category?: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+interface ResponseLike {
+  promptFeedback?: { blockReason?: string; safetyRatings?: SafetyRating[] };
+  candidates?: { finishReason?: string; safetyRatings?: SafetyRating[] }[];
+}
+
+const PROBABILITIES = ['NEGLIGIBLE', 'LOW', 'MEDIUM', 'HIGH'];
+
+// The blocked rating names the category; otherwise the most likely one is the best guess
+const blockingCategory = (ratings: SafetyRating[] = []) => {
+  const blocked = ratings.find(rating => rating.blocked);
+  if (blocked) return blocked.category;
+  const likeliest = [...ratings].sort((a, b) => PROBABILITIES.indexOf(b.probability ?? '') - PROBABILITIES.indexOf(a.probability ?? ''))[0];
+  return likeliest && PROBABILITIES.indexOf(likeliest.probability ?? '') >= 2 ? likeliest.category : undefined;
+};
+
+/** Returns the block on a Gemini response, or null when it was answered normally. */
+export const safetyBlockOf = (response: ResponseLike): SafetyBlockError | null => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) return new SafetyBlockError(feedback.blockReason, blockingCategory(feedback.safetyRatings));
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+    return new SafetyBlockError(candidate.finishReason, blockingCategory(candidate.safetyRatings));
+  }
+  return null;
+};
+
+/** Maps an HTTP error status and message to the matching error class. */
+export const errorFromStatus = (status: number, message: string, retryAfterMs?: number): ModelError => {
+  if (status === 400 || status === 413) return new InvalidInputError(message);
+  if (status === 401) return new UnauthenticatedError(message);
+  if (status === 403) return new MissingKeyError(message);
+  if (status === 429) return new RateLimitError(message, { retryAfterMs });
+  if (status >= 500) return new ServerError(message, status);
+  return new ModelError(message, { status });
+};
+
+/** Passes typed errors and aborts through; anything else becomes a plain ModelError. */
+export const toModelError = (error: unknown): Error => {
+  if (error instanceof ModelError || isAbortError(error)) return error as Error;
+  // fetch rejects with a TypeError when the host cannot be reached
+  if (error instanceof TypeError) return new NetworkError();
+  return new ModelError(error instanceof Error && error.message ? error.message : "The model call failed.");
+};
+
+const SUBJECTS: Record<ModelTask, string> = {
+  image: 'prompt',
+  edit: 'edit instruction',
+  chat: 'message',
+  audio: 'recording',
+  speech: 'text'
+};
+
+/** A message for the user that says what went wrong and what to try next. */
+export const describeModelError = (error: unknown, task: ModelTask): string => {
+  const subject = SUBJECTS[task];
+  if (error instanceof SafetyBlockError) {
+    const because = error.category ? ` for ${categoryLabel(error.category)}` : '';
+    return task === 'audio'
+      ? `The analysis was blocked by the safety filter${because}. Try a different recording.`
+      : `Your ${subject} was blocked by the safety filter${because}. Try rephrasing it to avoid that kind of content.`;
+  }
+  if (error instanceof RateLimitError) {
+    if (error.quota) return `${error.message} See the Usage tab for your allowance.`;
+    const wait = error.retryAfterMs ? `${Math.ceil(error.retryAfterMs / 1000)} seconds` : 'a minute';
+    return `Too many requests right now. Wait ${wait} and try again.`;
+  }
+  if (error instanceof MissingKeyError) {
+    return "The API key is missing or was refused. Check GEMINI_API_KEY for the API proxy, or pick another backend in the footer.";
+  }
+  if (error instanceof UnauthenticatedError) return "Your session has ended. Sign in again to continue.";
+  if (error instanceof NetworkError) {
+    return "Could not reach the model service. Check your connection and that the selected backend is running, then try again.";
+  }
+  if (error instanceof ServerError) return "The model service had a problem and retrying did not help. Try again in a few minutes.";
+  if (error instanceof EmptyResponseError) {
+    return task === 'audio'
+      ? "The model returned no analysis. Try again, or use a clearer or shorter recording."
+      : `The model returned nothing for this ${subject}. Try again or reword it.`;
+  }
+  if (error instanceof InvalidInputError) return `The ${subject} was rejected: ${error.message}`;
+  return error instanceof Error && error.message ? error.message : "Something went wrong. Please try again.";
+};
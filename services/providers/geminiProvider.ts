@@ -0,0 +1,337 @@
+import { FunctionDeclaration, GenerateContentResponse, GenerateImagesResponse, GoogleGenAI, HarmBlockThreshold, HarmCategory as GeminiHarmCategory, Modality, Part, SafetySetting, Schema, Tool, Type } from "@google/genai";
+import { HarmCategory, ReferenceRole } from "../../types";
+import { speechDirective } from "../speech";
+import { normalizeAudioAnalysis } from "../transcript";
+import { EmptyResponseError, MissingKeyError, ModelError, SafetyBlockError, errorFromStatus, isAbortError, safetyBlockOf, toModelError } from "./errors";
+import { ImageModelInfo, ImageRequest, ModelProvider, ReferenceInput, ProviderId, ToolDeclaration, ToolParameter } from "./types";
+
+export const IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const TEXT_MODEL = 'gemini-3-flash-preview';
+export const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+
+/**
+ * Image models offered for generation. Gemini models answer one image per
+ * request but take sampling settings; Imagen returns up to four at once and
+ * has no seed or temperature through the Gemini API.
+ */
+export const IMAGE_MODELS: ImageModelInfo[] = [
+  { id: IMAGE_MODEL, label: 'Gemini 2.5 Flash Image', maxCandidates: 1, supportsSeed: true, temperature: { min: 0, max: 2 }, supportsSafety: true, supportsReferences: true },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (preview)', maxCandidates: 1, supportsSeed: true, temperature: { min: 0, max: 2 }, supportsSafety: true, supportsReferences: true },
+  { id: 'imagen-4.0-generate-001', label: 'Imagen 4', maxCandidates: 4, supportsSeed: false, temperature: null, supportsSafety: false, supportsReferences: false },
+  { id: 'imagen-4.0-fast-generate-001', label: 'Imagen 4 Fast', maxCandidates: 4, supportsSeed: false, temperature: null, supportsSafety: false, supportsReferences: false }
+];
+
+const isImagen = (model: string) => model.startsWith('imagen-');
+
+const HARM_CATEGORIES: Record<HarmCategory, GeminiHarmCategory> = {
+  harassment: GeminiHarmCategory.HARM_CATEGORY_HARASSMENT,
+  hateSpeech: GeminiHarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexuallyExplicit: GeminiHarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerousContent: GeminiHarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT
+};
+
+// Each reference is introduced by what it is for, so the model does not copy a style image's content
+const REFERENCE_LEADS: Record<ReferenceRole, string> = {
+  style: "Style reference: match the look, palette and technique of this image, not its content.",
+  subject: "Subject reference: keep this subject recognisably the same in the new image."
+};
+
+const referenceParts = (references: ReferenceInput[] = []): Part[] =>
+  references.flatMap(({ data, mimeType, role }) => [{ text: REFERENCE_LEADS[role] }, { inlineData: { data, mimeType } }]);
+
+const toSafetySettings = (safety: ImageRequest['safety']): SafetySetting[] | undefined => {
+  const entries = Object.entries(safety ?? {}) as [HarmCategory, string][];
+  if (entries.length === 0) return undefined;
+  return entries.map(([category, threshold]) => ({ category: HARM_CATEGORIES[category], threshold: threshold as HarmBlockThreshold }));
+};
+
+interface GeminiProviderOptions {
+  id: ProviderId;
+  label: string;
+  apiKey?: string;
+  /** Overrides the API host, e.g. to point at a local stand-in server. */
+  baseUrl?: string;
+}
+
+const AUDIO_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      description: "Transcript in spoken order, split at sentence or speaker boundaries.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Start time in seconds." },
+          end: { type: Type.NUMBER, description: "End time in seconds." },
+          speaker: { type: Type.STRING, description: "Speaker label such as 'Speaker 1'." },
+          text: { type: Type.STRING }
+        },
+        required: ['start', 'end', 'speaker', 'text']
+      }
+    },
+    quality: {
+      type: Type.OBJECT,
+      properties: {
+        noiseLevel: { type: Type.STRING, enum: ['low', 'moderate', 'high'] },
+        clarity: { type: Type.NUMBER, description: "Speech intelligibility from 0 to 10." },
+        description: { type: Type.STRING },
+        issues: { type: Type.ARRAY, items: { type: Type.STRING } }
+      },
+      required: ['noiseLevel', 'clarity', 'description', 'issues']
+    },
+    summary: { type: Type.STRING, description: "Two or three sentence summary of what was said." },
+    language: { type: Type.STRING, description: "BCP-47 code of the spoken language." }
+  },
+  required: ['segments', 'quality', 'summary']
+};
+
+const PARAMETER_TYPES: Record<ToolParameter['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiTools = (tools?: ToolDeclaration[]): Tool[] | undefined => {
+  if (!tools?.length) return undefined;
+  const functionDeclarations: FunctionDeclaration[] = tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(Object.entries(tool.parameters).map(([key, param]) => [
+        key,
+        { type: PARAMETER_TYPES[param.type], description: param.description, ...(param.enum ? { enum: param.enum } : {}) }
+      ])),
+      required: tool.required
+    }
+  }));
+  return [{ functionDeclarations }];
+};
+
+// The SDK reports HTTP failures as "got status: 429 Too Many Requests. {...}"
+const SDK_ERROR = /^got status: (\d+)[^{]*(\{.*\})?$/s;
+
+/** Turns an SDK failure into the matching ModelError. */
+const fromSdkError = (error: unknown): Error => {
+  if (error instanceof ModelError || isAbortError(error)) return error as Error;
+  const match = error instanceof Error ? SDK_ERROR.exec(error.message) : null;
+  if (!match) return toModelError(error);
+  let message = `The model API returned ${match[1]}.`;
+  try {
+    message = JSON.parse(match[2]).error?.message || message;
+  } catch {
+    // Keep the generic message when the body is not JSON
+  }
+  return errorFromStatus(Number(match[1]), message);
+};
+
+const extractImage = (response: GenerateContentResponse): string => {
+  const blocked = safetyBlockOf(response);
+  if (blocked) throw blocked;
+
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+
+  throw new EmptyResponseError("No image was generated by the model.");
+};
+
+/** Every image across the candidates; Gemini image models usually send one. */
+const extractImages = (response: GenerateContentResponse): string[] => {
+  const blocked = safetyBlockOf(response);
+  if (blocked) throw blocked;
+
+  const images = (response.candidates ?? []).flatMap(candidate => candidate.content?.parts ?? [])
+    .filter(part => part.inlineData?.data)
+    .map(part => `data:${part.inlineData!.mimeType};base64,${part.inlineData!.data}`);
+  if (images.length === 0) throw new EmptyResponseError("No image was generated by the model.");
+  return images;
+};
+
+const extractImagenImages = (response: GenerateImagesResponse): string[] => {
+  const generated = response.generatedImages ?? [];
+  const images = generated.filter(g => g.image?.imageBytes)
+    .map(g => `data:${g.image!.mimeType || 'image/png'};base64,${g.image!.imageBytes}`);
+  if (images.length > 0) return images;
+  const filtered = generated.find(g => g.raiFilteredReason);
+  if (filtered) throw new SafetyBlockError('IMAGE_SAFETY');
+  throw new EmptyResponseError("No image was generated by the model.");
+};
+
+const extractAudio = (response: GenerateContentResponse): { data: string; mimeType: string } => {
+  const blocked = safetyBlockOf(response);
+  if (blocked) throw blocked;
+
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+  if (!part?.inlineData?.data) throw new EmptyResponseError("No speech was generated by the model.");
+  return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'audio/L16;codec=pcm;rate=24000' };
+};
+
+/** Returns the reply text, or throws when the model withheld it. */
+const extractText = (response: GenerateContentResponse): string => {
+  const blocked = safetyBlockOf(response);
+  if (blocked) throw blocked;
+  return response.text || "";
+};
+
+const guarded = async <T>(call: () => Promise<T>): Promise<T> => {
+  try {
+    return await call();
+  } catch (error) {
+    throw fromSdkError(error);
+  }
+};
+
+/**
+ * Talks to a Gemini-shaped REST API through the official SDK. Only the local
+ * stand-in is reached this way; real Gemini calls go through the API proxy so
+ * the key stays on the server.
+ */
+export const createGeminiProvider = ({ id, label, apiKey, baseUrl }: GeminiProviderOptions): ModelProvider => {
+  const getClient = () => {
+    if (!apiKey) {
+      throw new MissingKeyError("API Key is missing. Please check your environment configuration.");
+    }
+    return new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+  };
+
+  return {
+    id,
+    label,
+    imageModel: IMAGE_MODEL,
+    imageModels: IMAGE_MODELS,
+    speechModel: SPEECH_MODEL,
+
+    async generateImage({ prompt, aspectRatio, model, candidateCount, seed, temperature, safety, references, signal }) {
+      if (isImagen(model)) {
+        const response = await guarded(() => getClient().models.generateImages({
+          model,
+          prompt,
+          config: { abortSignal: signal, numberOfImages: candidateCount, aspectRatio }
+        }));
+        return extractImagenImages(response);
+      }
+
+      const response = await guarded(() => getClient().models.generateContent({
+        model,
+        contents: {
+          parts: [...referenceParts(references), { text: prompt }]
+        },
+        config: {
+          abortSignal: signal,
+          candidateCount,
+          seed,
+          temperature,
+          safetySettings: toSafetySettings(safety),
+          imageConfig: {
+            aspectRatio: aspectRatio,
+          }
+        }
+      }));
+
+      return extractImages(response);
+    },
+
+    async editImage({ image, instruction, aspectRatio, signal }) {
+      const response = await guarded(() => getClient().models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+          parts: [
+            { inlineData: image },
+            { text: instruction }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          imageConfig: {
+            aspectRatio: aspectRatio,
+          }
+        }
+      }));
+
+      return extractImage(response);
+    },
+
+    async synthesizeSpeech({ text, voice, style, rate, signal }) {
+      const response = await guarded(() => getClient().models.generateContent({
+        model: SPEECH_MODEL,
+        contents: [{ parts: [{ text: speechDirective(text, style, rate) }] }],
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } }
+          }
+        }
+      }));
+
+      return extractAudio(response);
+    },
+
+    async chat({ contents, systemInstruction, signal }) {
+      const response = await guarded(() => getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents,
+        config: { systemInstruction, abortSignal: signal }
+      }));
+      return extractText(response);
+    },
+
+    async *streamChat({ contents, systemInstruction, tools, signal }) {
+      const stream = await guarded(() => getClient().models.generateContentStream({
+        model: TEXT_MODEL,
+        contents,
+        config: { systemInstruction, tools: toGeminiTools(tools), abortSignal: signal }
+      }));
+      try {
+        for await (const chunk of stream) {
+          // Read parts directly: `chunk.text` drops calls and their thought signatures
+          for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+            if (part.functionCall?.name) {
+              const { id, name, args } = part.functionCall;
+              yield { functionCall: { id, name, args: args ?? {}, thoughtSignature: part.thoughtSignature } };
+            } else if (part.text && !part.thought) {
+              yield { text: part.text };
+            }
+          }
+          const blocked = safetyBlockOf(chunk);
+          if (blocked) throw blocked;
+        }
+      } catch (error) {
+        throw fromSdkError(error);
+      }
+    },
+
+    async analyzeAudio({ data, mimeType, instruction, systemInstruction }) {
+      const response = await guarded(() => getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: [
+          {
+            parts: [
+              { inlineData: { data, mimeType } },
+              { text: instruction }
+            ]
+          }
+        ],
+        config: {
+          systemInstruction,
+          responseMimeType: 'application/json',
+          responseSchema: AUDIO_ANALYSIS_SCHEMA
+        }
+      }));
+      const text = extractText(response);
+      if (!text) {
+        throw new EmptyResponseError("The model returned an empty analysis.");
+      }
+      try {
+        return normalizeAudioAnalysis(JSON.parse(text));
+      } catch {
+        throw new EmptyResponseError("The model returned an analysis that could not be read.");
+      }
+    }
+  };
+};
@@ -0,0 +1,73 @@
+import { IMAGE_MODEL, IMAGE_MODELS, SPEECH_MODEL, createGeminiProvider } from "./geminiProvider";
+import { createOfflineProvider } from "./offlineProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { ModelProvider, ProviderId } from "./types";
+import { authService } from "../authService";
+import { scopedKey } from "../userScope";
+
+export * from "./types";
+export * from "./errors";
+
+const PROVIDER_KEY = 'flipart_provider';
+const DEFAULT_LOCAL_URL = 'http://localhost:8787';
+const DEFAULT_PROXY_URL = 'http://localhost:8790';
+
+const providers: Record<ProviderId, ModelProvider> = {
+  // The key stays on the proxy; the browser only sends the user's session token
+  gemini: createProxyProvider({
+    id: 'gemini',
+    label: 'Gemini',
+    baseUrl: process.env.API_PROXY_URL || DEFAULT_PROXY_URL,
+    imageModel: IMAGE_MODEL,
+    imageModels: IMAGE_MODELS,
+    speechModel: SPEECH_MODEL,
+    getToken: () => authService.getSession()?.token
+  }),
+  local: createGeminiProvider({
+    id: 'local',
+    label: 'Local stand-in',
+    // The stand-in ignores the key, but the SDK refuses to run without one.
+    apiKey: 'local',
+    baseUrl: process.env.LOCAL_PROVIDER_URL || DEFAULT_LOCAL_URL
+  }),
+  offline: createOfflineProvider()
+};
+
+export const PROVIDER_IDS = Object.keys(providers) as ProviderId[];
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in providers;
+
+const defaultProvider = (): ProviderId => {
+  if (isProviderId(process.env.FLIPART_PROVIDER)) return process.env.FLIPART_PROVIDER;
+  return process.env.API_PROXY_URL ? 'gemini' : 'offline';
+};
+
+let activeId: ProviderId = defaultProvider();
+
+export const getProvider = (id: ProviderId = activeId): ModelProvider => providers[id];
+
+export const getActiveProviderId = (): ProviderId => activeId;
+
+export const setActiveProvider = (id: ProviderId) => {
+  activeId = id;
+  try {
+    const key = scopedKey(PROVIDER_KEY);
+    if (key) localStorage.setItem(key, id);
+  } catch {
+    // Selection still applies for this session
+  }
+};
+
+/** Switches to the signed-in user's saved choice, or the default, and returns it. */
+export const restoreProvider = (): ProviderId => {
+  let saved: string | null = null;
+  try {
+    const key = scopedKey(PROVIDER_KEY);
+    saved = key && localStorage.getItem(key);
+  } catch {
+    // localStorage is unavailable outside the browser
+  }
+  activeId = isProviderId(saved) ? saved : defaultProvider();
+  return activeId;
+};
@@ -0,0 +1,235 @@
+import { AspectRatio } from "../../types";
+import { encodeWav } from "../audioDsp";
+import { ChatTurn, FunctionCall, ModelProvider } from "./types";
+
+const DIMENSIONS: Record<AspectRatio, [number, number]> = {
+  "1:1": [1024, 1024],
+  "4:3": [1024, 768],
+  "3:4": [768, 1024],
+  "16:9": [1280, 720],
+  "9:16": [720, 1280]
+};
+
+// FNV-1a, so the same prompt always renders the same artwork.
+export const hashSeed = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const toBase64 = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+/** Renders seeded abstract placeholder art as an SVG data URL. */
+export const renderPlaceholderArt = (prompt: string, aspectRatio: AspectRatio, salt = 0): string => {
+  const [width, height] = DIMENSIONS[aspectRatio] ?? DIMENSIONS["1:1"];
+  const random = createRandom(hashSeed(`${prompt}|${aspectRatio}`) ^ salt);
+  const hue = Math.floor(random() * 360);
+
+  const shapes: string[] = [];
+  for (let i = 0; i < 14; i++) {
+    const cx = Math.round(random() * width);
+    const cy = Math.round(random() * height);
+    const r = Math.round((0.05 + random() * 0.3) * Math.min(width, height));
+    const shapeHue = (hue + Math.floor(random() * 120) - 60 + 360) % 360;
+    const opacity = (0.25 + random() * 0.5).toFixed(2);
+    shapes.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="hsl(${shapeHue} 80% 60%)" fill-opacity="${opacity}"/>`);
+  }
+
+  const label = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">`
+    + `<stop offset="0" stop-color="hsl(${hue} 60% 18%)"/><stop offset="1" stop-color="hsl(${(hue + 90) % 360} 60% 8%)"/>`
+    + `</linearGradient></defs>`
+    + `<rect width="100%" height="100%" fill="url(#bg)"/>`
+    + shapes.join('')
+    + `<text x="50%" y="${height - 40}" text-anchor="middle" font-family="Inter, sans-serif" font-size="28" fill="#f8fafc" fill-opacity="0.85">${label}</text>`
+    + `</svg>`;
+
+  return `data:image/svg+xml;base64,${toBase64(svg)}`;
+};
+
+const lastUserText = (contents: ChatTurn[]) => {
+  const turn = [...contents].reverse().find(t => t.role === 'user');
+  const textPart = turn?.parts.find((p): p is { text: string } => 'text' in p);
+  return textPart?.text.trim() ?? '';
+};
+
+const offlineReply = (contents: ChatTurn[]) => {
+  const text = lastUserText(contents);
+  const hasImage = contents[contents.length - 1]?.parts.some(p => 'inlineData' in p);
+  return [
+    "[Offline assistant]",
+    hasImage ? "Received 1 image." : null,
+    text ? `You said: "${text}"` : null,
+    "Connect a Gemini or local backend for real answers."
+  ].filter(Boolean).join(' ');
+};
+
+// Phrases the offline assistant treats as requests for a tool
+const TOOL_PATTERNS: { name: string; pattern: RegExp; args: (match: RegExpMatchArray, turn: ChatTurn) => Record<string, unknown> | null }[] = [
+  {
+    name: 'generate_image',
+    pattern: /^(?:please\s+)?(?:generate|draw|paint|create|make)\s+(?:an?\s+)?(?:image|picture)?\s*(?:of\s+)?(.+)/i,
+    args: (match) => ({ prompt: match[1], aspectRatio: '1:1' })
+  },
+  {
+    name: 'edit_image',
+    pattern: /^(?:please\s+)?edit\s+(?:it|this|the image)?\s*(?:to\s+)?(.+)/i,
+    args: (match, turn) => {
+      const note = turn.parts.map(p => 'text' in p ? p.text : '').join(' ');
+      const imageId = /image id: ([\w-]+)/i.exec(note)?.[1];
+      return imageId ? { imageId, instruction: match[1] } : null;
+    }
+  },
+  {
+    name: 'search_gallery',
+    pattern: /^(?:please\s+)?(?:find|search(?: for)?)\s+(.+)/i,
+    args: (match) => ({ query: match[1] })
+  }
+];
+
+const offlineToolCall = (contents: ChatTurn[], toolNames: string[]): FunctionCall | null => {
+  const turn = contents[contents.length - 1];
+  if (turn?.role !== 'user') return null;
+  const text = lastUserText([turn]);
+  for (const tool of TOOL_PATTERNS) {
+    const match = toolNames.includes(tool.name) ? text.match(tool.pattern) : null;
+    const args = match && tool.args(match, turn);
+    if (args) return { name: tool.name, args };
+  }
+  return null;
+};
+
+const toolResultReply = (turn: ChatTurn) => {
+  const names = turn.parts.flatMap(p => 'functionResponse' in p ? [p.functionResponse.name] : []);
+  return `[Offline assistant] Finished ${names.join(', ')}. Connect a Gemini or local backend for real answers.`;
+};
+
+const SPEECH_SAMPLE_RATE = 16000;
+
+/**
+ * Renders text as a hum of short tones, one per word, so narration can be
+ * played and stored offline. Pitch follows the voice; length follows the rate.
+ */
+export const renderPlaceholderSpeech = (text: string, voice: string, rate: number): Float32Array => {
+  const base = 110 + (hashSeed(voice) % 120);
+  const words = text.split(/\s+/).filter(Boolean).slice(0, 400);
+  const chunks: Float32Array[] = [];
+  for (const word of words) {
+    const length = Math.round(SPEECH_SAMPLE_RATE * (0.08 + Math.min(word.length, 12) * 0.035) / rate);
+    const pause = Math.round(SPEECH_SAMPLE_RATE * (/[.!?]$/.test(word) ? 0.35 : 0.08) / rate);
+    const pitch = base * (1 + (hashSeed(word.toLowerCase()) % 5) / 12);
+    const tone = new Float32Array(length + pause);
+    for (let i = 0; i < length; i++) {
+      const envelope = Math.sin(Math.PI * i / length);
+      tone[i] = 0.3 * envelope * Math.sin(2 * Math.PI * pitch * i / SPEECH_SAMPLE_RATE);
+    }
+    chunks.push(tone);
+  }
+  const samples = new Float32Array(chunks.reduce((sum, c) => sum + c.length, 0) || SPEECH_SAMPLE_RATE / 2);
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+};
+
+const bytesToBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const STREAM_DELAY_MS = 30;
+
+/**
+ * Deterministic provider for working without a key or network access. Output
+ * depends only on the input, so it is also suitable for tests.
+ */
+export const createOfflineProvider = (): ModelProvider => ({
+  id: 'offline',
+  label: 'Offline (placeholder)',
+  imageModel: 'offline-placeholder',
+  imageModels: [
+    { id: 'offline-placeholder', label: 'Placeholder art', maxCandidates: 4, supportsSeed: true, temperature: { min: 0, max: 2 }, supportsSafety: true, supportsReferences: true }
+  ],
+  speechModel: 'offline-tones',
+
+  // The seed varies the artwork; temperature and safety settings are accepted and ignored
+  async generateImage({ prompt, aspectRatio, candidateCount, seed = 0, references = [], signal }) {
+    signal?.throwIfAborted();
+    // References shift the art the way a source image shifts an edit
+    const salt = references.reduce((sum, reference) => sum + hashSeed(reference.data), seed);
+    return Array.from({ length: candidateCount }, (_, i) => renderPlaceholderArt(prompt, aspectRatio, salt + i));
+  },
+
+  async editImage({ image, instruction, aspectRatio, signal }) {
+    signal?.throwIfAborted();
+    // Seed from the source too, so the same edit on different images differs
+    return renderPlaceholderArt(instruction, aspectRatio, hashSeed(image.data));
+  },
+
+  async synthesizeSpeech({ text, voice, rate, signal }) {
+    signal?.throwIfAborted();
+    const wav = encodeWav(renderPlaceholderSpeech(text, voice, rate), SPEECH_SAMPLE_RATE);
+    return { data: bytesToBase64(wav), mimeType: 'audio/wav' };
+  },
+
+  async chat({ contents }) {
+    return offlineReply(contents);
+  },
+
+  async *streamChat({ contents, tools, signal }) {
+    const call = tools ? offlineToolCall(contents, tools.map(t => t.name)) : null;
+    if (call) {
+      yield { functionCall: call };
+      return;
+    }
+    const last = contents[contents.length - 1];
+    const reply = last?.parts.some(p => 'functionResponse' in p) ? toolResultReply(last) : offlineReply(contents);
+    // Word by word, so streaming UI can be exercised offline
+    for (const word of reply.split(/(?<= )/)) {
+      if (signal?.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+      yield { text: word };
+    }
+  },
+
+  async analyzeAudio({ data, mimeType }) {
+    const approxBytes = Math.floor(data.length * 3 / 4);
+    return {
+      segments: [
+        { start: 0, end: 2, speaker: 'Speaker 1', text: "[Offline transcript placeholder]" },
+        { start: 2, end: 4, speaker: 'Speaker 1', text: "Connect a Gemini or local backend for real transcription." }
+      ],
+      quality: {
+        noiseLevel: 'moderate',
+        clarity: 5,
+        description: `Received ${mimeType || 'audio'} (${(approxBytes / 1024).toFixed(1)} KB); not analyzed offline.`,
+        issues: []
+      },
+      summary: "Offline mode does not analyze audio."
+    };
+  }
+});
@@ -0,0 +1,125 @@
+import { normalizeAudioAnalysis } from "../transcript";
+import { EmptyResponseError, MissingKeyError, ModelError, NetworkError, RateLimitError, SafetyBlockError, UnauthenticatedError, errorFromStatus } from "./errors";
+import { ChatChunk, ImageModelInfo, ModelProvider, ProviderId, SpeechAudio } from "./types";
+
+interface ProxyProviderOptions {
+  id: ProviderId;
+  label: string;
+  baseUrl: string;
+  /** Image model the proxy is configured with, recorded on generated images. */
+  imageModel: string;
+  /** Models the proxy accepts for generation. */
+  imageModels: ImageModelInfo[];
+  /** Speech model the proxy is configured with, recorded on narration clips. */
+  speechModel: string;
+  /** Session token sent with every call; the proxy rejects anonymous requests. */
+  getToken: () => string | undefined;
+}
+
+interface ProxyFailure {
+  code?: number;
+  message?: string;
+  /** Set by the proxy for failures the HTTP status alone does not tell apart. */
+  reason?: 'QUOTA' | 'MISSING_KEY' | 'SAFETY' | 'EMPTY_RESPONSE';
+  blockReason?: string;
+  category?: string;
+}
+
+const errorFromFailure = (status: number, failure: ProxyFailure = {}, retryAfterMs?: number): ModelError => {
+  const message = failure.message || `The API proxy returned ${status}.`;
+  switch (failure.reason) {
+    case 'QUOTA': return new RateLimitError(message, { quota: true, retryAfterMs });
+    case 'MISSING_KEY': return new MissingKeyError(message);
+    case 'SAFETY': return new SafetyBlockError(failure.blockReason || 'SAFETY', failure.category);
+    case 'EMPTY_RESPONSE': return new EmptyResponseError(message);
+    default: return errorFromStatus(status, message, retryAfterMs);
+  }
+};
+
+/**
+ * Calls the server-side proxy (scripts/api-proxy.mjs), which holds the API key
+ * and forwards to Gemini. Failures are mapped to the ModelError classes.
+ */
+export const createProxyProvider = ({ id, label, baseUrl, imageModel, imageModels, speechModel, getToken }: ProxyProviderOptions): ModelProvider => {
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const token = getToken();
+    if (!token) throw new UnauthenticatedError();
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new NetworkError("Could not reach the API proxy. Is `npm run proxy` running?");
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw errorFromFailure(response.status, payload.error, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    return response;
+  };
+
+  const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> =>
+    (await post(path, body, signal)).json();
+
+  return {
+    id,
+    label,
+    imageModel,
+    imageModels,
+    speechModel,
+
+    async generateImage({ signal, ...request }) {
+      const { images } = await postJson<{ images: string[] }>('/api/images/generate', request, signal);
+      return images;
+    },
+
+    async editImage({ image, instruction, aspectRatio, signal }) {
+      const result = await postJson<{ image: string }>('/api/images/edit', { image, instruction, aspectRatio }, signal);
+      return result.image;
+    },
+
+    async synthesizeSpeech({ text, voice, style, rate, signal }) {
+      return postJson<SpeechAudio>('/api/speech', { text, voice, style, rate }, signal);
+    },
+
+    async chat({ contents, systemInstruction, signal }) {
+      const { text } = await postJson<{ text: string }>('/api/chat', { contents, systemInstruction }, signal);
+      return text;
+    },
+
+    async *streamChat({ contents, systemInstruction, tools, signal }) {
+      const response = await post('/api/chat/stream', { contents, systemInstruction, tools }, signal);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          const event = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          const data = event.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('');
+          if (!data) continue;
+          // A failure after the stream started arrives as a final error event
+          if (event.startsWith('event: error')) {
+            const failure: ProxyFailure = JSON.parse(data);
+            throw errorFromFailure(failure.code ?? 502, failure);
+          }
+          yield JSON.parse(data) as ChatChunk;
+        }
+      }
+    },
+
+    async analyzeAudio({ data, mimeType, instruction, systemInstruction }) {
+      const raw = await postJson<unknown>('/api/audio/analyze', { data, mimeType, instruction, systemInstruction });
+      return normalizeAudioAnalysis(raw);
+    }
+  };
+};
@@ -0,0 +1,139 @@
+import { AspectRatio, AudioAnalysis, HarmCategory, ReferenceRole, SafetyThreshold } from "../../types";
+
+export type ProviderId = "gemini" | "local" | "offline";
+
+export interface FunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  /** Opaque signature some models attach to calls; it must be sent back unchanged. */
+  thoughtSignature?: string;
+}
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } }
+  | { functionCall: Omit<FunctionCall, 'thoughtSignature'>; thoughtSignature?: string }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> } };
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ContentPart[];
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  /** One of the provider's `imageModels`. */
+  model: string;
+  candidateCount: number;
+  seed?: number;
+  temperature?: number;
+  safety?: Partial<Record<HarmCategory, SafetyThreshold>>;
+  /** Uploaded images that guide the style or subject, sent inline before the prompt. */
+  references?: ReferenceInput[];
+  signal?: AbortSignal;
+}
+
+export interface ReferenceInput {
+  data: string; // base64
+  mimeType: string;
+  role: ReferenceRole;
+}
+
+/** What an image model accepts, so settings can be checked before a request is sent. */
+export interface ImageModelInfo {
+  id: string;
+  label: string;
+  /** Most images one request can return. */
+  maxCandidates: number;
+  supportsSeed: boolean;
+  /** Accepted temperature range, or null when the model has no such setting. */
+  temperature: { min: number; max: number } | null;
+  supportsSafety: boolean;
+  /** Whether reference images can be sent along with the prompt. */
+  supportsReferences: boolean;
+}
+
+export interface ImageEditRequest {
+  image: { data: string; mimeType: string };
+  instruction: string;
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+}
+
+export interface ToolParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description: string;
+  enum?: string[];
+}
+
+/** A function the model may call instead of, or before, answering in text. */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, ToolParameter>;
+  required: string[];
+}
+
+export interface ChatRequest {
+  contents: ChatTurn[];
+  systemInstruction?: string;
+  tools?: ToolDeclaration[];
+  signal?: AbortSignal;
+}
+
+export type ChatChunk = { text: string } | { functionCall: FunctionCall };
+
+export interface AudioAnalysisRequest {
+  data: string; // base64 without the data URL prefix
+  mimeType: string;
+  instruction: string;
+  systemInstruction?: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  /** One of the prebuilt voice names, see services/speech. */
+  voice: string;
+  /** Speaking style such as 'calm' or 'cheerful'; empty for neutral. */
+  style: string;
+  rate: number;
+  signal?: AbortSignal;
+}
+
+/** Raw audio from a speech model: WAV, or headerless PCM as `audio/L16;rate=...`. */
+export interface SpeechAudio {
+  data: string; // base64
+  mimeType: string;
+}
+
+export interface ImageProvider {
+  /** Resolves to `data:` URLs of the generated images, one per candidate returned. */
+  generateImage(request: ImageRequest): Promise<string[]>;
+  /** Applies a text instruction to an existing image, resolving to a new `data:` URL. */
+  editImage(request: ImageEditRequest): Promise<string>;
+}
+
+export interface SpeechProvider {
+  /** Reads `text` aloud in the requested voice, style and pace. */
+  synthesizeSpeech(request: SpeechRequest): Promise<SpeechAudio>;
+}
+
+export interface ModelProvider extends ImageProvider, SpeechProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  /** Default image model, and the one behind `editImage`. */
+  readonly imageModel: string;
+  /** Models `generateImage` can use, the default first. */
+  readonly imageModels: ImageModelInfo[];
+  /** Name of the model behind `synthesizeSpeech`, recorded with each clip. */
+  readonly speechModel: string;
+  chat(request: ChatRequest): Promise<string>;
+  /**
+   * Yields the reply as it arrives: text chunks, plus any function calls when
+   * `tools` were offered. Aborting the signal ends the stream.
+   */
+  streamChat(request: ChatRequest): AsyncIterable<ChatChunk>;
+  analyzeAudio(request: AudioAnalysisRequest): Promise<AudioAnalysis>;
+}
@@ -0,0 +1,57 @@
+import { ModelError, RateLimitError } from "./providers/errors";
+
+export interface RetryOptions {
+  /** Total tries, including the first. */
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /** Called before each wait, e.g. to log or show that a retry is coming. */
+  onRetry?: (error: ModelError, attempt: number, delayMs: number) => void;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 15000;
+
+/** Resolves after `ms`, or rejects as soon as the signal aborts. */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Exponential backoff with full jitter: a random wait up to base * 2^n, so
+ * clients that failed together do not retry together. A Retry-After from the
+ * backend wins when it fits under the cap; a longer one is not worth waiting for.
+ */
+export const backoffDelay = (error: ModelError, retry: number, baseDelayMs: number, maxDelayMs: number): number | null => {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= maxDelayMs ? error.retryAfterMs : null;
+  }
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+};
+
+/** Runs `task`, trying again after transient ModelErrors. Other failures are thrown at once. */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { attempts = DEFAULT_ATTEMPTS, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (!(error instanceof ModelError) || !error.transient || attempt >= attempts || signal?.aborted) throw error;
+      const delay = backoffDelay(error, attempt - 1, baseDelayMs, maxDelayMs);
+      if (delay === null) throw error;
+      onRetry?.(error, attempt, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
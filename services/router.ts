@@ -0,0 +1,106 @@
+// URL routing over the History API. The path picks the tab, a gallery image
+// or a conversation, and the Lab can read a shared prompt and its settings
+// from the query string. Hosts must serve index.html for every path; the Vite
+// dev and preview servers already do.
+import { GenerationSettings } from "../types";
+import { parseImageSettings } from "./generationSettings";
+
+export type Tab = 'generator' | 'assistant' | 'audio' | 'voice' | 'storyboard' | 'usage';
+
+/** A prompt and settings sent as a link, to open the Lab pre-filled. */
+export interface SharedPrompt {
+  prompt: string;
+  settings?: GenerationSettings;
+}
+
+export type Route =
+  | { name: 'generator'; share?: SharedPrompt }
+  | { name: 'audio' | 'voice' | 'storyboard' | 'usage' }
+  | { name: 'assistant'; conversationId?: string }
+  | { name: 'image'; imageId: string };
+
+const SIMPLE_TABS = ['audio', 'voice', 'storyboard', 'usage'] as const;
+
+const parseShare = (params: URLSearchParams): SharedPrompt | undefined => {
+  const prompt = params.get('prompt');
+  if (!prompt) return undefined;
+  let settings: GenerationSettings | undefined;
+  try {
+    settings = parseImageSettings(JSON.parse(params.get('settings') ?? 'null'));
+  } catch {
+    // A damaged settings part still leaves the prompt worth opening
+  }
+  return { prompt, settings };
+};
+
+/** Reads a route from a path and query; unknown or undecodable paths land on the Lab. */
+export const parseRoute = (pathname: string, search = ''): Route => {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // A mangled link such as /image/% must not stop the app from starting
+    return { name: 'generator' };
+  }
+  const [first, second] = segments;
+  if (first === 'image' && second) return { name: 'image', imageId: second };
+  if (first === 'assistant') return { name: 'assistant', conversationId: second };
+  const tab = SIMPLE_TABS.find(name => name === first);
+  if (tab) return { name: tab };
+  return { name: 'generator', share: parseShare(new URLSearchParams(search)) };
+};
+
+/** Path and query for a route, relative to the site root. */
+export const routeUrl = (route: Route): string => {
+  switch (route.name) {
+    case 'generator': {
+      if (!route.share) return '/';
+      const params = new URLSearchParams({ prompt: route.share.prompt });
+      if (route.share.settings) params.set('settings', JSON.stringify(route.share.settings));
+      return `/?${params}`;
+    }
+    case 'assistant':
+      return route.conversationId ? `/assistant/${encodeURIComponent(route.conversationId)}` : '/assistant';
+    case 'image':
+      return `/image/${encodeURIComponent(route.imageId)}`;
+    default:
+      return `/${route.name}`;
+  }
+};
+
+/** Full link that opens the Lab with `prompt` and `settings` filled in. */
+export const shareUrl = (share: SharedPrompt) => new URL(routeUrl({ name: 'generator', share }), window.location.origin).href;
+
+const listeners = new Set<() => void>();
+let current = parseRoute(window.location.pathname, window.location.search);
+
+const notify = () => listeners.forEach(listener => listener());
+
+window.addEventListener('popstate', () => {
+  current = parseRoute(window.location.pathname, window.location.search);
+  notify();
+});
+
+export const subscribeRoute = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** The route for the current URL; the same object until the URL changes. */
+export const currentRoute = () => current;
+
+/**
+ * Moves to `route`, adding a history entry unless `replace` is set, e.g.
+ * when correcting a URL that points nowhere. Going to the current URL does nothing.
+ */
+export const navigate = (route: Route, { replace = false } = {}) => {
+  const url = routeUrl(route);
+  if (url === window.location.pathname + window.location.search) return;
+  if (replace) window.history.replaceState(null, '', url);
+  else window.history.pushState(null, '', url);
+  current = parseRoute(window.location.pathname, window.location.search);
+  notify();
+};
+
+/** The tab a route belongs to; an image's detail page sits under the Lab. */
+export const tabOf = (route: Route): Tab => route.name === 'image' ? 'generator' : route.name;
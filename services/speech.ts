@@ -0,0 +1,89 @@
+import { SpeechSettings } from "../types";
+import { encodeWav } from "./audioDsp";
+import { SpeechAudio } from "./providers/types";
+import { scopedKey } from "./userScope";
+
+const SETTINGS_KEY = 'flipart_speech_settings';
+
+/** Longest text read in one clip; longer answers should be trimmed first. */
+export const MAX_SPEECH_CHARS = 3000;
+
+/** Prebuilt Gemini voices, with the character Google gives each. */
+export const VOICES: { name: string; description: string }[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Sulafat', description: 'Warm' },
+  { name: 'Gacrux', description: 'Mature' }
+];
+
+export const SPEECH_STYLES: { value: string; label: string }[] = [
+  { value: '', label: 'Neutral' },
+  { value: 'calm', label: 'Calm' },
+  { value: 'cheerful', label: 'Cheerful' },
+  { value: 'dramatic', label: 'Dramatic' },
+  { value: 'whispering', label: 'Whisper' },
+  { value: 'storytelling', label: 'Storyteller' }
+];
+
+export const SPEECH_RATES = [0.75, 0.9, 1, 1.15, 1.3];
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { voice: 'Kore', style: '', rate: 1 };
+
+const paceOf = (rate: number) => {
+  if (rate <= 0.8) return 'slowly';
+  if (rate < 1) return 'a little slowly';
+  if (rate >= 1.25) return 'quickly';
+  if (rate > 1) return 'a little quickly';
+  return '';
+};
+
+/**
+ * The text a speech model is asked to read. Gemini voices take style and pace
+ * as a spoken-language direction in front of the text itself.
+ */
+export const speechDirective = (text: string, style: string, rate: number): string => {
+  const manner = [style && `in a ${style} voice`, paceOf(rate)].filter(Boolean).join(', ');
+  return manner ? `Say ${manner}: ${text.trim()}` : text.trim();
+};
+
+const base64ToBytes = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+/**
+ * Wraps model audio as a playable WAV. Gemini answers with headerless 16-bit
+ * PCM, so the sample rate comes from its MIME type.
+ */
+export const speechToWav = ({ data, mimeType }: SpeechAudio): { blob: Blob; duration: number } => {
+  const bytes = base64ToBytes(data);
+  const view = new DataView(bytes.buffer);
+  if (mimeType === 'audio/wav' || mimeType === 'audio/x-wav') {
+    const sampleRate = view.getUint32(24, true);
+    const bytesPerSecond = view.getUint32(28, true);
+    return { blob: new Blob([bytes], { type: 'audio/wav' }), duration: (bytes.length - 44) / (bytesPerSecond || sampleRate * 2) };
+  }
+  if (!/^audio\/(L16|pcm)/i.test(mimeType)) throw new Error(`Unsupported speech format ${mimeType}.`);
+  const sampleRate = Number(/rate=(\d+)/.exec(mimeType)?.[1]) || 24000;
+  const samples = new Float32Array(Math.floor(bytes.length / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 0x8000;
+  return { blob: new Blob([encodeWav(samples, sampleRate)], { type: 'audio/wav' }), duration: samples.length / sampleRate };
+};
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    const key = scopedKey(SETTINGS_KEY);
+    const saved = key && localStorage.getItem(key);
+    return saved ? { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SPEECH_SETTINGS;
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  const key = scopedKey(SETTINGS_KEY);
+  if (key) localStorage.setItem(key, JSON.stringify(settings));
+};
+
+export const clipFileName = (clip: { id: string; voice: string }) => `flipart-voice-${clip.voice.toLowerCase()}-${clip.id}.wav`;
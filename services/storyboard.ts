@@ -0,0 +1,294 @@
+import { GeneratedImage, ReferenceRole, StoryCharacter, StoryPanel, Storyboard } from "../types";
+import { createDatabase, requestToPromise, transactionDone } from "./idb";
+import { scopedName } from "./userScope";
+import { ratioValue } from "./canvasEdit";
+import { A4_LANDSCAPE, PdfPage, createPdf, textWidth } from "./pdf";
+
+const STORYBOARDS = 'storyboards';
+
+const openDb = createDatabase(() => scopedName('flipart_storyboards'), 1, (db) => {
+  db.createObjectStore(STORYBOARDS, { keyPath: 'id' });
+});
+
+/** Matches the most references one generation request may carry. */
+export const MAX_PANEL_REFERENCES = 3;
+
+export const DEFAULT_BOARD_TITLE = 'Untitled storyboard';
+
+/** A reference for one panel request; `key` stays the same for the same source image. */
+export interface PanelReference {
+  key: string;
+  url: string;
+  role: ReferenceRole;
+  name: string;
+}
+
+export interface PanelRequest {
+  prompt: string;
+  references: PanelReference[];
+}
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPanel = (): StoryPanel => ({ id: newId(), description: '', caption: '' });
+
+export const createCharacter = (): StoryCharacter => ({ id: newId(), name: '', description: '' });
+
+export const createStoryboard = (): Storyboard => {
+  const now = Date.now();
+  return {
+    id: newId(),
+    title: DEFAULT_BOARD_TITLE,
+    style: '',
+    aspectRatio: '16:9',
+    characters: [],
+    panels: [createPanel()],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/** Most recently edited first. */
+export const listStoryboards = async (): Promise<Storyboard[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORYBOARDS, 'readonly');
+  const all = await requestToPromise<Storyboard[]>(tx.objectStore(STORYBOARDS).getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveStoryboard = async (board: Storyboard): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORYBOARDS, 'readwrite');
+  tx.objectStore(STORYBOARDS).put(board);
+  await transactionDone(tx);
+};
+
+export const deleteStoryboard = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORYBOARDS, 'readwrite');
+  tx.objectStore(STORYBOARDS).delete(id);
+  await transactionDone(tx);
+};
+
+export const movePanel = (panels: StoryPanel[], from: number, to: number): StoryPanel[] => {
+  if (to < 0 || to >= panels.length || from === to) return panels;
+  const next = [...panels];
+  const [panel] = next.splice(from, 1);
+  next.splice(to, 0, panel);
+  return next;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Characters a panel's description names; only they are described and referenced in it. */
+export const charactersIn = (board: Storyboard, panel: StoryPanel): StoryCharacter[] =>
+  board.characters.filter(character => {
+    const name = character.name.trim();
+    return name && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`, 'iu').test(panel.description);
+  });
+
+/**
+ * The prompt and references for one panel. The board's style and each named
+ * character's description are repeated in every prompt, and the same
+ * reference images go along, so panels stay consistent. `anchor` is a
+ * finished panel that sets the look when the board has no style reference.
+ */
+export const panelRequest = (board: Storyboard, panel: StoryPanel, anchor?: GeneratedImage): PanelRequest => {
+  const index = board.panels.findIndex(p => p.id === panel.id);
+  const characters = charactersIn(board, panel);
+  const lines = [
+    `Panel ${index + 1} of ${board.panels.length} in the storyboard "${board.title.trim() || DEFAULT_BOARD_TITLE}".`,
+    panel.description.trim()
+  ];
+  const described = characters.filter(c => c.description.trim());
+  if (described.length > 0) {
+    lines.push('Characters, drawn exactly as in every other panel:');
+    for (const character of described) lines.push(`- ${character.name.trim()}: ${character.description.trim()}`);
+  }
+  if (board.style.trim()) lines.push(`Art style, the same in every panel: ${board.style.trim()}`);
+
+  const references: PanelReference[] = [];
+  if (board.styleReference) {
+    references.push({ key: `upload:${board.styleReference.id}`, url: board.styleReference.url, role: 'style', name: board.styleReference.name });
+  } else if (anchor) {
+    references.push({ key: `image:${anchor.id}`, url: anchor.url, role: 'style', name: 'First finished panel' });
+  }
+  for (const { reference, name } of characters) {
+    if (reference) references.push({ key: `upload:${reference.id}`, url: reference.url, role: 'subject', name: name.trim() });
+  }
+  return { prompt: lines.join('\n'), references: references.slice(0, MAX_PANEL_REFERENCES) };
+};
+
+export const boardFileName = (board: Storyboard, extension: string) => {
+  const slug = board.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'storyboard';
+  return `flipart-${slug}.${extension}`;
+};
+
+/** Splits text into lines no wider than `maxWidth`, breaking between words. */
+const wrapText = (text: string, maxWidth: number, measure: (line: string) => number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && measure(next) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+};
+
+/** At most `max` lines, the last one shortened with "..." when text was cut. */
+const clampLines = (lines: string[], max: number): string[] =>
+  lines.length <= max ? lines : [...lines.slice(0, max - 1), `${lines[max - 1].replace(/\s*\S*$/, '')}...`];
+
+const loadPicture = async (url: string): Promise<HTMLImageElement> => {
+  const img = new Image();
+  img.src = url;
+  await img.decode();
+  return img;
+};
+
+/** Draws `img` to cover a w × h box, cropping the overflow evenly. */
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.max(w / img.naturalWidth, h / img.naturalHeight);
+  const sw = w / scale;
+  const sh = h / scale;
+  ctx.drawImage(img, (img.naturalWidth - sw) / 2, (img.naturalHeight - sh) / 2, sw, sh, x, y, w, h);
+};
+
+const SHEET_CELL = 480;
+const SHEET_GAP = 32;
+const SHEET_HEADER = 96;
+const SHEET_CAPTION_LINES = 3;
+const SHEET_CAPTION_SIZE = 16;
+const SHEET_LINE = 22;
+const INK = '#0f172a';
+const MUTED = '#64748b';
+const PLACEHOLDER = '#e2e8f0';
+
+const caption = (panel: StoryPanel) => panel.caption.trim() || panel.description.trim();
+
+/**
+ * Lays every panel out on one PNG, numbered and captioned, in board order.
+ * `images` lines up with `board.panels`; missing ones are drawn as blanks.
+ */
+export const renderContactSheet = async (board: Storyboard, images: (GeneratedImage | null)[]): Promise<Blob> => {
+  const count = board.panels.length;
+  const columns = count <= 1 ? 1 : count <= 4 ? 2 : 3;
+  const rows = Math.ceil(count / columns);
+  const imageHeight = Math.round(SHEET_CELL / ratioValue(board.aspectRatio));
+  const cellHeight = imageHeight + 12 + SHEET_LINE * (SHEET_CAPTION_LINES + 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = SHEET_GAP + columns * (SHEET_CELL + SHEET_GAP);
+  canvas.height = SHEET_HEADER + rows * (cellHeight + SHEET_GAP);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = INK;
+  ctx.font = 'bold 32px sans-serif';
+  ctx.fillText(board.title.trim() || DEFAULT_BOARD_TITLE, SHEET_GAP, 56);
+  if (board.style.trim()) {
+    ctx.fillStyle = MUTED;
+    ctx.font = `${SHEET_CAPTION_SIZE}px sans-serif`;
+    ctx.fillText(clampLines(wrapText(board.style.trim(), canvas.width - 2 * SHEET_GAP, line => ctx.measureText(line).width), 1)[0], SHEET_GAP, 82);
+  }
+
+  for (const [i, panel] of board.panels.entries()) {
+    const x = SHEET_GAP + (i % columns) * (SHEET_CELL + SHEET_GAP);
+    const y = SHEET_HEADER + Math.floor(i / columns) * (cellHeight + SHEET_GAP);
+    const image = images[i];
+    let drawn = false;
+    if (image) {
+      try {
+        drawCover(ctx, await loadPicture(image.url), x, y, SHEET_CELL, imageHeight);
+        drawn = true;
+      } catch {
+        // Left blank below, like a panel that was never generated
+      }
+    }
+    if (!drawn) {
+      ctx.fillStyle = PLACEHOLDER;
+      ctx.fillRect(x, y, SHEET_CELL, imageHeight);
+      ctx.fillStyle = MUTED;
+      ctx.font = `${SHEET_CAPTION_SIZE}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.fillText('Not generated yet', x + SHEET_CELL / 2, y + imageHeight / 2);
+      ctx.textAlign = 'left';
+    }
+    ctx.fillStyle = INK;
+    ctx.font = `bold ${SHEET_CAPTION_SIZE}px sans-serif`;
+    ctx.fillText(`${i + 1}`, x, y + imageHeight + 12 + SHEET_CAPTION_SIZE);
+    ctx.font = `${SHEET_CAPTION_SIZE}px sans-serif`;
+    const lines = clampLines(wrapText(caption(panel), SHEET_CELL - 32, line => ctx.measureText(line).width), SHEET_CAPTION_LINES);
+    lines.forEach((line, n) => ctx.fillText(line, x + 32, y + imageHeight + 12 + SHEET_CAPTION_SIZE + n * SHEET_LINE));
+  }
+
+  return new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The browser could not encode the contact sheet.")), 'image/png'));
+};
+
+const JPEG_QUALITY = 0.9;
+
+/** Re-encodes any image as a JPEG on white, since PDF pages embed JPEG as is. */
+const toJpeg = async (url: string): Promise<{ jpeg: Uint8Array; width: number; height: number }> => {
+  const img = await loadPicture(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error("The browser could not encode a panel as JPEG.");
+  return { jpeg: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+const PAGE_MARGIN = 40;
+const PAGE_CAPTION_SIZE = 13;
+const PAGE_CAPTION_LINES = 4;
+const PAGE_LINE = 18;
+
+/** One A4 landscape page per panel: a header line, the image fitted to the page and its caption. */
+export const renderPdf = async (board: Storyboard, images: (GeneratedImage | null)[]): Promise<Blob> => {
+  const { width, height } = A4_LANDSCAPE;
+  const title = board.title.trim() || DEFAULT_BOARD_TITLE;
+  const textArea = PAGE_LINE * PAGE_CAPTION_LINES + 12;
+  const box = { width: width - 2 * PAGE_MARGIN, height: height - 2 * PAGE_MARGIN - 28 - textArea };
+  const pages: PdfPage[] = [];
+  for (const [i, panel] of board.panels.entries()) {
+    const page: PdfPage = { width, height, images: [], texts: [] };
+    page.texts.push({ text: title, x: PAGE_MARGIN, y: PAGE_MARGIN + 10, size: 14, bold: true });
+    const counter = `Panel ${i + 1} of ${board.panels.length}`;
+    page.texts.push({ text: counter, x: width - PAGE_MARGIN - textWidth(counter, 10), y: PAGE_MARGIN + 10, size: 10, gray: 0.45 });
+
+    const scale = Math.min(box.width / ratioValue(board.aspectRatio), box.height);
+    const drawWidth = scale * ratioValue(board.aspectRatio);
+    const drawHeight = scale;
+    const top = PAGE_MARGIN + 28;
+    const left = (width - drawWidth) / 2;
+    const image = images[i];
+    let placed = false;
+    if (image) {
+      try {
+        const jpeg = await toJpeg(image.url);
+        page.images.push({ ...jpeg, x: left, y: top, drawWidth, drawHeight });
+        placed = true;
+      } catch {
+        // Falls through to the note below
+      }
+    }
+    if (!placed) page.texts.push({ text: 'Not generated yet', x: width / 2 - textWidth('Not generated yet', 12) / 2, y: top + drawHeight / 2, size: 12, gray: 0.45 });
+
+    const lines = clampLines(wrapText(caption(panel), drawWidth, line => textWidth(line, PAGE_CAPTION_SIZE)), PAGE_CAPTION_LINES);
+    lines.forEach((line, n) => page.texts.push({ text: line, x: left, y: top + drawHeight + 12 + PAGE_CAPTION_SIZE + n * PAGE_LINE, size: PAGE_CAPTION_SIZE }));
+    pages.push(page);
+  }
+  return createPdf(pages);
+};
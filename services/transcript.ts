@@ -0,0 +1,97 @@
+import { AudioAnalysis, AudioQualityMetrics, TranscriptSegment } from "../types";
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+const NOISE_LEVELS: AudioQualityMetrics['noiseLevel'][] = ['low', 'moderate', 'high'];
+
+const asNumber = (value: unknown, fallback = 0) => {
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const asString = (value: unknown, fallback = '') => typeof value === 'string' ? value : fallback;
+
+/**
+ * Coerces a model response into a well-formed analysis: drops empty segments,
+ * orders them by time and clamps values to their documented ranges.
+ */
+export const normalizeAudioAnalysis = (raw: unknown): AudioAnalysis => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error("The audio analysis response was not a JSON object.");
+  }
+  const input = raw as Record<string, any>;
+  const quality = (input.quality ?? {}) as Record<string, any>;
+
+  const segments: TranscriptSegment[] = (Array.isArray(input.segments) ? input.segments : [])
+    .map((segment: any): TranscriptSegment => {
+      const start = Math.max(0, asNumber(segment?.start));
+      return {
+        start,
+        end: Math.max(start, asNumber(segment?.end, start)),
+        speaker: asString(segment?.speaker, 'Speaker 1').trim() || 'Speaker 1',
+        text: asString(segment?.text).trim()
+      };
+    })
+    .filter((segment: TranscriptSegment) => segment.text)
+    .sort((a: TranscriptSegment, b: TranscriptSegment) => a.start - b.start);
+
+  return {
+    segments,
+    quality: {
+      noiseLevel: NOISE_LEVELS.includes(quality.noiseLevel) ? quality.noiseLevel : 'moderate',
+      clarity: Math.min(10, Math.max(0, asNumber(quality.clarity, 5))),
+      description: asString(quality.description),
+      issues: Array.isArray(quality.issues) ? quality.issues.filter((i: unknown) => typeof i === 'string') : []
+    },
+    summary: asString(input.summary),
+    language: asString(input.language) || undefined
+  };
+};
+
+const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+
+/** Formats seconds as `HH:MM:SS<sep>mmm`. */
+export const formatTimestamp = (seconds: number, separator: ',' | '.' = '.') => {
+  const totalMs = Math.round(seconds * 1000);
+  const ms = totalMs % 1000;
+  const s = Math.floor(totalMs / 1000) % 60;
+  const m = Math.floor(totalMs / 60000) % 60;
+  const h = Math.floor(totalMs / 3600000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+/** Short `M:SS` label for the transcript view. */
+export const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${pad(Math.floor(seconds % 60))}`;
+
+const speakerCount = (segments: TranscriptSegment[]) => new Set(segments.map(s => s.speaker)).size;
+
+export const toSrt = (segments: TranscriptSegment[]) => {
+  const labelled = speakerCount(segments) > 1;
+  return segments.map((segment, i) =>
+    `${i + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${labelled ? `${segment.speaker}: ` : ''}${segment.text}\n`
+  ).join('\n');
+};
+
+const escapeVtt = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toVtt = (segments: TranscriptSegment[]) => {
+  const labelled = speakerCount(segments) > 1;
+  const cues = segments.map(segment =>
+    `${formatTimestamp(segment.start)} --> ${formatTimestamp(segment.end)}\n${labelled ? `<v ${escapeVtt(segment.speaker)}>` : ''}${escapeVtt(segment.text)}\n`
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+};
+
+export const toPlainText = (segments: TranscriptSegment[]) => {
+  const labelled = speakerCount(segments) > 1;
+  return segments.map(segment => `${labelled ? `${segment.speaker}: ` : ''}${segment.text}`).join('\n');
+};
+
+export const exportTranscript = (analysis: AudioAnalysis, format: TranscriptFormat): Blob => {
+  switch (format) {
+    case 'srt': return new Blob([toSrt(analysis.segments)], { type: 'application/x-subrip' });
+    case 'vtt': return new Blob([toVtt(analysis.segments)], { type: 'text/vtt' });
+    case 'txt': return new Blob([toPlainText(analysis.segments)], { type: 'text/plain' });
+    case 'json': return new Blob([JSON.stringify(analysis, null, 2)], { type: 'application/json' });
+  }
+};
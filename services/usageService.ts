@@ -0,0 +1,106 @@
+// Usage is metered by the API proxy (scripts/api-proxy.mjs) for every call that
+// reaches the Gemini backend. The local stand-in and offline backends are free
+// and are not counted.
+import { authService } from "./authService";
+
+const DEFAULT_PROXY_URL = 'http://localhost:8790';
+
+export type UsageKind = 'image' | 'chat' | 'audio';
+
+/** Daily request limits and a monthly spending cap in US dollars; 0 means unlimited. */
+export interface UsageQuota {
+  imagesPerDay: number;
+  chatsPerDay: number;
+  audioPerDay: number;
+  costPerMonth: number;
+}
+
+export interface UsageTotals extends Record<UsageKind, number> {
+  errors: number;
+  /** Calls refused because the quota was used up. */
+  blocked: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from published per-token prices. */
+  cost: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageCall {
+  kind: UsageKind;
+  model: string;
+  outcome: 'ok' | 'error' | 'cancelled' | 'blocked';
+  at: number;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UserUsage {
+  id: string;
+  name: string;
+  email: string;
+  quota: UsageQuota;
+  /** Whether the quota was set for this user rather than the default. */
+  custom: boolean;
+  today: UsageTotals;
+  month: UsageTotals;
+}
+
+export interface UsageSummary {
+  user: { id: string; name: string; email: string };
+  admin: boolean;
+  quota: UsageQuota;
+  today: UsageTotals;
+  month: UsageTotals;
+  /** The last 30 days, oldest first, including days without calls. */
+  days: (UsageTotals & { date: string })[];
+  /** Up to 12 months with calls, oldest first. */
+  months: (UsageTotals & { month: string })[];
+  /** Quotas that are nearly or fully used. */
+  warnings: string[];
+  recent: UsageCall[];
+  /** Everyone's usage; only sent to admins. */
+  users?: UserUsage[];
+}
+
+export interface UsageService {
+  getSummary(): Promise<UsageSummary>;
+  /** Sets a user's own quota, or puts them back on the default with `null`. Admins only. */
+  setQuota(userId: string, quota: Partial<UsageQuota> | null): Promise<UsageQuota>;
+}
+
+export const createUsageService = (baseUrl: string, getToken: () => string | undefined): UsageService => {
+  const request = async <T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> => {
+    const token = getToken();
+    if (!token) throw new Error("Sign in to see your usage.");
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${token}`, ...(body ? { 'Content-Type': 'application/json' } : {}) },
+        body: body ? JSON.stringify(body) : undefined
+      });
+    } catch {
+      throw new Error("Could not reach the API proxy. Is `npm run proxy` running?");
+    }
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(payload.error?.message || `The API proxy returned ${response.status}.`);
+    return payload;
+  };
+
+  return {
+    getSummary: () => request<UsageSummary>('GET', '/api/usage'),
+
+    async setQuota(userId, quota) {
+      const result = await request<{ quota: UsageQuota }>('POST', '/api/usage/quota', { userId, quota });
+      return result.quota;
+    }
+  };
+};
+
+export const usageService = createUsageService(
+  process.env.API_PROXY_URL || DEFAULT_PROXY_URL,
+  () => authService.getSession()?.token
+);
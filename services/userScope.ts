@@ -0,0 +1,26 @@
+// Local data is kept per account: each user gets their own IndexedDB databases
+// and localStorage keys. Data saved before accounts existed has no suffix; the
+// first account to sign in on this browser adopts it.
+
+const LEGACY_OWNER_KEY = 'flipart_legacy_owner';
+
+let currentUserId: string | null = null;
+
+export const setScopeUser = (userId: string | null) => {
+  currentUserId = userId;
+  if (userId && !localStorage.getItem(LEGACY_OWNER_KEY)) localStorage.setItem(LEGACY_OWNER_KEY, userId);
+};
+
+/** Whether the signed-in user owns the data saved before accounts existed. */
+export const isLegacyOwner = () => currentUserId !== null && localStorage.getItem(LEGACY_OWNER_KEY) === currentUserId;
+
+const suffix = (userId: string) => isLegacyOwner() ? '' : `:${userId}`;
+
+/** The signed-in user's copy of a database; opening one signed out is a bug. */
+export const scopedName = (name: string) => {
+  if (!currentUserId) throw new Error("No user is signed in.");
+  return `${name}${suffix(currentUserId)}`;
+};
+
+/** The signed-in user's copy of a localStorage key, or null when signed out. */
+export const scopedKey = (key: string): string | null => currentUserId ? `${key}${suffix(currentUserId)}` : null;
@@ -7,8 +7,277 @@ export interface GeneratedImage {
   prompt: string;
   timestamp: number;
   aspectRatio: AspectRatio;
+  /** Downscaled preview for grids; falls back to `url` when absent. */
+  thumbnailUrl?: string;
+  mimeType?: string;
+  /** Image model that produced it, when known. */
+  model?: string;
+  /** Size of the full image in bytes, once stored in the gallery. */
+  size?: number;
+  /** Set when the image was produced by a queued batch. */
+  batchId?: string;
+  /** The image this one was edited from; absent for original generations. */
+  parentId?: string;
+  /** Instruction that produced this version from its parent. */
+  editInstruction?: string;
+  /** Composer preset the prompt was built with, copied so the look can be reused after the preset changes. */
+  preset?: PromptPreset;
+  tags?: string[];
+  favorite?: boolean;
+  /** Ids of the gallery collections the image belongs to. */
+  collectionIds?: string[];
+  /** Set when the prompt was spoken in the Lab rather than typed. */
+  voicePrompt?: VoicePrompt;
+  /** Exact settings the image was generated with, so it can be made again. */
+  settings?: GenerationSettings;
+  /** Uploaded images the generation was guided by, kept in the gallery store. */
+  references?: ImageReference[];
 }
 
+export type ReferenceRole = 'style' | 'subject';
+
+export interface ImageReference {
+  /** Key of the stored upload, see saveReference. */
+  id: string;
+  role: ReferenceRole;
+  name: string;
+}
+
+export interface VoicePrompt {
+  /** What the audio model heard, before any editing or expansion. */
+  transcript: string;
+  /** Whether the assistant expanded the spoken idea into the prompt. */
+  expanded: boolean;
+  /** Key of the original recording in the gallery store. */
+  recordingId: string;
+  /** Length of the recording in seconds. */
+  duration: number;
+}
+
+export interface GalleryCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+/** Style choices the prompt composer layers onto a subject. */
+export interface PromptModifiers {
+  style?: string;
+  medium?: string;
+  lighting?: string;
+  camera?: string;
+  colorMood?: string;
+  /** Comma-separated things to keep out of the image. */
+  avoid?: string;
+}
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  modifiers: PromptModifiers;
+  createdAt: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** Prompt text with `{variable}` placeholders. */
+  text: string;
+  /** Shipped with the app; cannot be deleted. */
+  builtIn?: boolean;
+}
+
+export type HarmCategory = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent';
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
 export interface GenerationSettings {
   aspectRatio: AspectRatio;
+  /** Image model id, one of the active provider's `imageModels`. */
+  model: string;
+  /** Images asked for in each request. */
+  candidateCount: number;
+  /**
+   * Fixed seed, or null for a new one each time. On a stored image this is
+   * the seed that was actually used, or null when the model takes none.
+   */
+  seed: number | null;
+  /** Sampling temperature; null leaves the model's default. */
+  temperature: number | null;
+  /** Block thresholds by category; missing categories keep the model's default. */
+  safety: Partial<Record<HarmCategory, SafetyThreshold>>;
+}
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  batchId: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  /** 1-based index among the variations of the same prompt. */
+  variation: number;
+  preset?: PromptPreset;
+  voicePrompt?: VoicePrompt;
+  /** Absent on jobs queued before settings were recorded; the current settings apply. */
+  settings?: GenerationSettings;
+  references?: ImageReference[];
+  status: JobStatus;
+  error?: string;
+  imageId?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface GenerationBatch {
+  id: string;
+  label: string;
+  createdAt: number;
+}
+
+export interface TranscriptSegment {
+  /** Seconds from the start of the recording. */
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+export interface AudioQualityMetrics {
+  noiseLevel: 'low' | 'moderate' | 'high';
+  /** 0–10, how intelligible the speech is. */
+  clarity: number;
+  /** Short human-readable verdict, e.g. "Clear voice with light room echo". */
+  description: string;
+  issues: string[];
+}
+
+export interface AudioAnalysis {
+  segments: TranscriptSegment[];
+  quality: AudioQualityMetrics;
+  summary: string;
+  language?: string;
+}
+
+/** `pending` calls are waiting for the user to confirm them. */
+export type ToolCallStatus = 'pending' | 'running' | 'done' | 'declined' | 'error';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  /** Model-issued signature that has to accompany the call in later requests. */
+  signature?: string;
+  status: ToolCallStatus;
+  /** Returned to the model as the function response. */
+  result?: Record<string, unknown>;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  /** Images sent with the message, gallery picks and uploads alike. */
+  attachments?: MessageAttachment[];
+  /** Set on replies that are still arriving or were cut short. */
+  status?: 'streaming' | 'stopped' | 'error';
+  /** Why the reply failed, shown under it but not sent to the model. */
+  error?: string;
+  /** Functions the assistant asked to run as part of this reply. */
+  toolCalls?: ToolCall[];
+  /** Marks a message that only displays a tool result; the model sees the function response instead. */
+  toolCallId?: string;
+}
+
+export interface MessageAttachment {
+  /** `data:` URL, so saved conversations keep their images. */
+  url: string;
+  /** Gallery entry the image came from, so the assistant can refer to it. */
+  imageId?: string;
+  /** File name of an upload. */
+  name?: string;
+}
+
+export interface Conversation {
+  id: string;
+  /** Email of the user the thread belongs to. */
+  owner: string;
+  title: string;
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  /** Rolling summary of the oldest messages, sent instead of the turns themselves. */
+  summary?: string;
+  /** How many leading messages `summary` covers. */
+  summarizedCount: number;
+}
+
+/** Where narrated text came from. */
+export type SpeechSource = 'prompt' | 'assistant' | 'description';
+
+/** How text is read aloud; `rate` multiplies the normal speaking pace. */
+export interface SpeechSettings {
+  voice: string;
+  style: string;
+  rate: number;
+}
+
+export interface SpeechClip extends SpeechSettings {
+  id: string;
+  text: string;
+  source: SpeechSource;
+  /** Gallery image the clip narrates, when it describes or reads one. */
+  imageId?: string;
+  /** Object URL of the WAV audio. */
+  url: string;
+  mimeType: string;
+  duration: number;
+  size: number;
+  /** Speech model that produced it. */
+  model: string;
+  createdAt: number;
+}
+
+/** An image kept inside a storyboard, so the board does not depend on the gallery. */
+export interface StoryImage {
+  id: string;
+  name: string;
+  /** `data:` URL in `mimeType`. */
+  url: string;
+  mimeType: string;
+}
+
+export interface StoryCharacter {
+  id: string;
+  name: string;
+  /** Appearance details repeated in every panel the character appears in. */
+  description: string;
+  /** Optional look reference, sent as a subject reference. */
+  reference?: StoryImage;
+}
+
+export interface StoryPanel {
+  id: string;
+  /** What happens in the panel; becomes the prompt. */
+  description: string;
+  /** Text shown under the panel in exports. */
+  caption: string;
+  /** Gallery image of the latest take; earlier takes stay in the gallery. */
+  imageId?: string;
+}
+
+export interface Storyboard {
+  id: string;
+  title: string;
+  /** Art direction shared by every panel. */
+  style: string;
+  /** Optional style reference; without one, the first finished panel sets the look. */
+  styleReference?: StoryImage;
+  aspectRatio: AspectRatio;
+  characters: StoryCharacter[];
+  panels: StoryPanel[];
+  createdAt: number;
+  updatedAt: number;
 }
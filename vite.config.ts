@@ -11,8 +11,11 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The Gemini key is read by scripts/api-proxy.mjs only and never reaches the bundle
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL || (env.GEMINI_API_KEY ? 'http://localhost:8790' : '')),
+        'process.env.FLIPART_PROVIDER': JSON.stringify(env.FLIPART_PROVIDER),
+        'process.env.LOCAL_PROVIDER_URL': JSON.stringify(env.LOCAL_PROVIDER_URL),
+        'process.env.AUTH_SERVER_URL': JSON.stringify(env.AUTH_SERVER_URL)
       },
       resolve: {
         alias: {